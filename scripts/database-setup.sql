@@ -17,7 +17,12 @@ CREATE TABLE customers (
     lastName VARCHAR(255) NOT NULL,
     email VARCHAR(255) NOT NULL,
     age INT NOT NULL,
-    createdAt DATETIME2 DEFAULT GETDATE()
+    -- Names and email without accents or case, for /customers/search
+    searchText NVARCHAR(800) NULL,
+    importJobId UNIQUEIDENTIFIER NULL,
+    sourceLine INT NULL,
+    createdAt DATETIME2 DEFAULT GETDATE(),
+    updatedAt DATETIME2 NULL
 );
 GO
 
@@ -25,12 +30,192 @@ GO
 CREATE INDEX IX_customers_customerId ON customers(customerId);
 CREATE INDEX IX_customers_email ON customers(email);
 CREATE INDEX IX_customers_createdAt ON customers(createdAt);
+-- Filters and keyset pages of GET /customers (the clustered id breaks ties)
+CREATE INDEX IX_customers_lastName ON customers(lastName);
+CREATE INDEX IX_customers_age ON customers(age);
+-- Narrower than the table, so the LIKE '%...%' scans of a search stay cheap
+CREATE INDEX IX_customers_searchText ON customers(searchText);
 GO
 
 -- Create a unique constraint on customerId to prevent duplicates
 CREATE UNIQUE INDEX UQ_customers_customerId ON customers(customerId);
 GO
 
+-- Drop the import_schedules table if it exists
+IF OBJECT_ID('dbo.import_schedules', 'U') IS NOT NULL
+    DROP TABLE dbo.import_schedules;
+GO
+
+-- Drop the inbox_files table if it exists
+IF OBJECT_ID('dbo.inbox_files', 'U') IS NOT NULL
+    DROP TABLE dbo.inbox_files;
+GO
+
+-- Drop the webhook tables if they exist
+IF OBJECT_ID('dbo.webhook_deliveries', 'U') IS NOT NULL
+    DROP TABLE dbo.webhook_deliveries;
+GO
+
+IF OBJECT_ID('dbo.webhooks', 'U') IS NOT NULL
+    DROP TABLE dbo.webhooks;
+GO
+
+-- Drop the dry_run_customer_ids table if it exists
+IF OBJECT_ID('dbo.dry_run_customer_ids', 'U') IS NOT NULL
+    DROP TABLE dbo.dry_run_customer_ids;
+GO
+
+-- Drop the rejected_lines table if it exists
+IF OBJECT_ID('dbo.rejected_lines', 'U') IS NOT NULL
+    DROP TABLE dbo.rejected_lines;
+GO
+
+-- Drop the import_jobs table if it exists
+IF OBJECT_ID('dbo.import_jobs', 'U') IS NOT NULL
+    DROP TABLE dbo.import_jobs;
+GO
+
+-- Create the import_jobs table (one row per file import)
+CREATE TABLE import_jobs (
+    id UNIQUEIDENTIFIER NOT NULL DEFAULT NEWSEQUENTIALID() PRIMARY KEY,
+    fileName VARCHAR(255) NOT NULL,
+    filePath VARCHAR(1024) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    format VARCHAR(20) NULL,
+    duplicatePolicy VARCHAR(30) NOT NULL DEFAULT 'skip',
+    dryRun BIT NOT NULL DEFAULT 0,
+    -- Streamed uploads with an audit copy: 0 until the whole upload is on disk; a job can't resume from a partial copy
+    uploadComplete BIT NULL,
+    processed INT NOT NULL DEFAULT 0,
+    inserted INT NOT NULL DEFAULT 0,
+    updated INT NOT NULL DEFAULT 0,
+    errors INT NOT NULL DEFAULT 0,
+    errorsByReason NVARCHAR(MAX) NULL,
+    duplicates INT NOT NULL DEFAULT 0,
+    totalLines INT NOT NULL DEFAULT 0,
+    errorMessage NVARCHAR(MAX) NULL,
+    checkpoint NVARCHAR(MAX) NULL,
+    checkpointAt DATETIME2 NULL,
+    -- Replica running the job and its last heartbeat; a stale heartbeat means the job can be recovered
+    instanceId VARCHAR(255) NULL,
+    heartbeatAt DATETIME2 NULL,
+    startedAt DATETIME2 NULL,
+    finishedAt DATETIME2 NULL,
+    createdAt DATETIME2 NOT NULL DEFAULT GETDATE(),
+    updatedAt DATETIME2 NOT NULL DEFAULT GETDATE()
+);
+GO
+
+CREATE INDEX IX_import_jobs_createdAt ON import_jobs(createdAt);
+GO
+
+-- Create the rejected_lines table (lines that failed validation, per import)
+CREATE TABLE rejected_lines (
+    id INT IDENTITY(1,1) PRIMARY KEY,
+    importJobId UNIQUEIDENTIFIER NOT NULL,
+    lineNumber INT NOT NULL,
+    rawLine NVARCHAR(MAX) NOT NULL,
+    reason VARCHAR(50) NOT NULL,
+    field VARCHAR(50) NULL,
+    detail VARCHAR(255) NOT NULL,
+    createdAt DATETIME2 DEFAULT GETDATE()
+);
+GO
+
+-- One row per line: a resumed import rejects the lines after its checkpoint again, and
+-- writeRejectedLines skips those already stored
+CREATE UNIQUE INDEX UQ_rejected_lines_job_line ON rejected_lines(importJobId, lineNumber)
+    WITH (IGNORE_DUP_KEY = ON);
+GO
+
+-- Create the dry_run_customer_ids table (customerIds a dry-run import would have inserted,
+-- so its duplicate checks see them like the rows of a real import; cleared when it finishes)
+CREATE TABLE dry_run_customer_ids (
+    importJobId UNIQUEIDENTIFIER NOT NULL,
+    customerId VARCHAR(255) NOT NULL,
+    CONSTRAINT PK_dry_run_customer_ids PRIMARY KEY (importJobId, customerId)
+);
+GO
+
+-- Create the webhooks table (URLs notified when imports finish)
+CREATE TABLE webhooks (
+    id UNIQUEIDENTIFIER NOT NULL DEFAULT NEWSEQUENTIALID() PRIMARY KEY,
+    url VARCHAR(2048) NOT NULL,
+    secret VARCHAR(255) NOT NULL,
+    events NVARCHAR(MAX) NOT NULL,
+    description VARCHAR(255) NULL,
+    active BIT NOT NULL DEFAULT 1,
+    createdAt DATETIME2 NOT NULL DEFAULT GETDATE(),
+    updatedAt DATETIME2 NOT NULL DEFAULT GETDATE()
+);
+GO
+
+-- Create the webhook_deliveries table (one row per notification, with its last attempt)
+CREATE TABLE webhook_deliveries (
+    id UNIQUEIDENTIFIER NOT NULL DEFAULT NEWSEQUENTIALID() PRIMARY KEY,
+    webhookId UNIQUEIDENTIFIER NOT NULL,
+    importJobId UNIQUEIDENTIFIER NOT NULL,
+    event VARCHAR(30) NOT NULL,
+    payload NVARCHAR(MAX) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INT NOT NULL DEFAULT 0,
+    lastStatusCode INT NULL,
+    lastError NVARCHAR(MAX) NULL,
+    lastAttemptAt DATETIME2 NULL,
+    nextAttemptAt DATETIME2 NULL,
+    deliveredAt DATETIME2 NULL,
+    createdAt DATETIME2 NOT NULL DEFAULT GETDATE(),
+    updatedAt DATETIME2 NOT NULL DEFAULT GETDATE()
+);
+GO
+
+CREATE INDEX IX_webhook_deliveries_webhook ON webhook_deliveries(webhookId, createdAt);
+GO
+
+-- Create the inbox_files table (files picked up from the inbox directory)
+CREATE TABLE inbox_files (
+    id INT IDENTITY(1,1) PRIMARY KEY,
+    fileName VARCHAR(255) NOT NULL,
+    size BIGINT NOT NULL,
+    checksum VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    importJobId UNIQUEIDENTIFIER NULL,
+    detail NVARCHAR(MAX) NULL,
+    finishedAt DATETIME2 NULL,
+    createdAt DATETIME2 NOT NULL DEFAULT GETDATE(),
+    updatedAt DATETIME2 NOT NULL DEFAULT GETDATE()
+);
+GO
+
+-- One row per file name: this is what stops a file from being imported twice
+CREATE UNIQUE INDEX UQ_inbox_files_fileName ON inbox_files(fileName);
+GO
+
+CREATE INDEX IX_inbox_files_checksum ON inbox_files(checksum);
+GO
+
+-- Create the import_schedules table (recurring imports)
+CREATE TABLE import_schedules (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWSEQUENTIALID(),
+    name VARCHAR(100) NOT NULL,
+    cron VARCHAR(100) NOT NULL,
+    pattern VARCHAR(255) NOT NULL,
+    format VARCHAR(20) NULL,
+    duplicatePolicy VARCHAR(30) NOT NULL DEFAULT 'skip',
+    enabled BIT NOT NULL DEFAULT 1,
+    nextRunAt DATETIME2 NULL,
+    lastRunAt DATETIME2 NULL,
+    lastImportJobId UNIQUEIDENTIFIER NULL,
+    lastError NVARCHAR(MAX) NULL,
+    createdAt DATETIME2 NOT NULL DEFAULT GETDATE(),
+    updatedAt DATETIME2 NOT NULL DEFAULT GETDATE()
+);
+GO
+
+-- Due schedules are looked up on every poll
+CREATE INDEX IX_import_schedules_nextRunAt ON import_schedules(nextRunAt);
+GO
+
 -- Add some helpful comments
 PRINT '✅ Customers table created successfully!';
 PRINT '📊 Table structure:';
@@ -48,4 +233,11 @@ PRINT '   - Index on customerId for lookups';
 PRINT '   - Index on email for searches';
 PRINT '   - Index on createdAt for date-based queries';
 PRINT '   - Unique constraint on customerId to prevent duplicates';
+PRINT '';
+PRINT '✅ Import jobs table created successfully!';
+PRINT '✅ Rejected lines table created successfully!';
+PRINT '✅ Dry run customer ids table created successfully!';
+PRINT '✅ Webhook tables created successfully!';
+PRINT '✅ Inbox files table created successfully!';
+PRINT '✅ Import schedules table created successfully!';
 GO 
\ No newline at end of file
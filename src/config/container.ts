@@ -1,13 +1,26 @@
 import { Container } from 'inversify';
 import { TYPES } from '../types/inversify';
-import { IDatabaseService, ICustomerService } from '../interfaces/services';
+import { IDatabaseService, ICustomerService, IHealthService, IImportEventBus, IImportJobService, IImportScheduler, IInboxWatcher, IWebhookService } from '../interfaces/services';
 import { DatabaseService } from '../services/databaseService';
 import { CustomerService } from '../services/customerService';
+import { ImportJobService } from '../services/importJobService';
+import { ImportEventBus } from '../services/importEventBus';
+import { WebhookService } from '../services/webhookService';
+import { InboxWatcher } from '../services/inboxWatcher';
+import { ImportScheduler } from '../services/importScheduler';
+import { HealthService } from '../services/healthService';
 
 const container = new Container();
 
-// Bind services to their interfaces
-container.bind<ICustomerService>(TYPES.CustomerService).to(CustomerService);
+// Bind services to their interfaces. Services that track running imports
+// are singletons so every route sees the same in-memory state.
+container.bind<ICustomerService>(TYPES.CustomerService).to(CustomerService).inSingletonScope();
+container.bind<IImportJobService>(TYPES.ImportJobService).to(ImportJobService).inSingletonScope();
+container.bind<IImportEventBus>(TYPES.ImportEventBus).to(ImportEventBus).inSingletonScope();
+container.bind<IWebhookService>(TYPES.WebhookService).to(WebhookService).inSingletonScope();
+container.bind<IInboxWatcher>(TYPES.InboxWatcher).to(InboxWatcher).inSingletonScope();
+container.bind<IImportScheduler>(TYPES.ImportScheduler).to(ImportScheduler).inSingletonScope();
 container.bind<IDatabaseService>(TYPES.DatabaseService).to(DatabaseService);
+container.bind<IHealthService>(TYPES.HealthService).to(HealthService);
 
 export { container }; 
\ No newline at end of file
@@ -1,5 +1,12 @@
 import { DataSource } from 'typeorm';
 import { Customer } from '../entities/Customer';
+import { DryRunCustomerId } from '../entities/DryRunCustomerId';
+import { InboxFile } from '../entities/InboxFile';
+import { ImportSchedule } from '../entities/ImportSchedule';
+import { ImportJob } from '../entities/ImportJob';
+import { RejectedLine } from '../entities/RejectedLine';
+import { Webhook } from '../entities/Webhook';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
 
 export const AppDataSource = new DataSource({
   type: 'mssql',
@@ -15,7 +22,7 @@ export const AppDataSource = new DataSource({
   },
   synchronize: process.env.NODE_ENV !== 'production', // Auto-create tables in development
   logging: process.env.NODE_ENV === 'development',
-  entities: [Customer],
+  entities: [Customer, ImportJob, RejectedLine, Webhook, WebhookDelivery, InboxFile, ImportSchedule, DryRunCustomerId],
   subscribers: [],
   migrations: [],
   // Connection pooling settings for large file processing
@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs';
+
+// The pod limits the service is sized for (see README), used when neither the
+// environment nor the cgroup says otherwise
+const DEFAULT_CPU_LIMIT_MILLICORES = 200;
+const DEFAULT_MEMORY_LIMIT_MB = 256;
+
+const readCgroupFile = (path: string): string | null => {
+  try {
+    return readFileSync(path, 'utf8').trim();
+  } catch {
+    return null;
+  }
+};
+
+// cgroup v2 "quota period" (or "max period"), then cgroup v1 quota and period files
+const cgroupCpuCores = (): number | null => {
+  const v2 = readCgroupFile('/sys/fs/cgroup/cpu.max');
+  if (v2) {
+    const [quota, period] = v2.split(/\s+/);
+    return quota === 'max' ? null : Number(quota) / Number(period);
+  }
+  const quota = Number(readCgroupFile('/sys/fs/cgroup/cpu/cpu.cfs_quota_us'));
+  const period = Number(readCgroupFile('/sys/fs/cgroup/cpu/cpu.cfs_period_us'));
+  return quota > 0 && period > 0 ? quota / period : null;
+};
+
+// Node reports the cgroup memory limit, or a huge number when there is none
+const cgroupMemoryBytes = (): number | null => {
+  const constrained = process.constrainedMemory?.();
+  return constrained && constrained < Number.MAX_SAFE_INTEGER ? constrained : null;
+};
+
+const positiveEnv = (name: string): number | null => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+/**
+ * CPU the process may use, in cores (0.2 for a 200m limit).
+ * CPU_LIMIT_MILLICORES overrides what the cgroup reports.
+ */
+export const cpuLimitCores = (): number => {
+  const millicores = positiveEnv('CPU_LIMIT_MILLICORES');
+  return millicores !== null ? millicores / 1000 : (cgroupCpuCores() ?? DEFAULT_CPU_LIMIT_MILLICORES / 1000);
+};
+
+/**
+ * Memory the container may use before it is OOM-killed, in bytes.
+ * MEMORY_LIMIT_MB overrides what the cgroup reports.
+ */
+export const memoryLimitBytes = (): number => {
+  const megabytes = positiveEnv('MEMORY_LIMIT_MB');
+  if (megabytes !== null) {
+    return megabytes * 1024 * 1024;
+  }
+  return cgroupMemoryBytes() ?? DEFAULT_MEMORY_LIMIT_MB * 1024 * 1024;
+};
+
+// Streamed uploads never sit in memory, so the cap only guards the disk and the import time
+const DEFAULT_UPLOAD_MAX_MB = 5120;
+
+/**
+ * Largest file accepted by /customers/upload, in bytes.
+ * UPLOAD_MAX_MB overrides the default.
+ */
+export const uploadLimitBytes = (): number => (positiveEnv('UPLOAD_MAX_MB') ?? DEFAULT_UPLOAD_MAX_MB) * 1024 * 1024;
@@ -1,4 +1,4 @@
-import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from "typeorm";
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
 
 
 @Entity('customers')
@@ -21,6 +21,21 @@ export class Customer {
     @Column({ type: 'int' })
     age!: number;
 
+    // Names and email without accents or case, for /customers/search (see customerSearchText)
+    @Index()
+    @Column({ type: 'nvarchar', length: 800, nullable: true })
+    searchText!: string | null;
+
+    // Import and file line that last wrote this customer (see DuplicatePolicy)
+    @Column({ type: 'uniqueidentifier', nullable: true })
+    importJobId!: string | null;
+
+    @Column({ type: 'int', nullable: true })
+    sourceLine!: number | null;
+
     @CreateDateColumn()
     createdAt!: Date;
+
+    @Column({ type: 'datetime2', nullable: true })
+    updatedAt!: Date | null;
 }
\ No newline at end of file
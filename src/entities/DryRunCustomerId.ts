@@ -0,0 +1,11 @@
+import { Entity, PrimaryColumn } from "typeorm";
+
+// A customerId a dry-run import would have inserted; see checkCustomerBatch
+@Entity('dry_run_customer_ids')
+export class DryRunCustomerId {
+    @PrimaryColumn({ type: 'uniqueidentifier' })
+    importJobId!: string;
+
+    @PrimaryColumn({ type: 'varchar', length: 255 })
+    customerId!: string;
+}
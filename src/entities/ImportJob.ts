@@ -0,0 +1,93 @@
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { ImportCheckpoint } from "../interfaces/services";
+import { ErrorCounts } from "../services/customerLine";
+import { InputFormat } from "../services/customerParsers";
+import { DuplicatePolicy } from "../services/customerBulkWriter";
+import { jsonTransformer } from "./transformers";
+
+// 'interrupted': the process died while the job was running; it can be resumed
+// 'paused': running but held on request until resumed
+// 'cancelled': stopped on request, counts cover what was committed
+export type ImportJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'interrupted' | 'cancelled';
+
+@Entity('import_jobs')
+export class ImportJob {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @Column({ type: 'varchar', length: 255 })
+    fileName!: string;
+
+    @Column({ type: 'varchar', length: 1024 })
+    filePath!: string;
+
+    // Streamed with an audit copy: false until the whole upload is in filePath, and for good when it was cut short
+    @Column({ type: 'bit', nullable: true })
+    uploadComplete!: boolean | null;
+
+    @Column({ type: 'varchar', length: 20, default: 'queued' })
+    status!: ImportJobStatus;
+
+    // Requested input format (null: detect); the detected one once the import completes
+    @Column({ type: 'varchar', length: 20, nullable: true })
+    format!: InputFormat | null;
+
+    @Column({ type: 'varchar', length: 30, default: 'skip' })
+    duplicatePolicy!: DuplicatePolicy;
+
+    // Validate and count only: customers is left untouched, and inserted/updated/duplicates are what the import would do
+    @Column({ type: 'bit', default: false })
+    dryRun!: boolean;
+
+    // inserted + updated
+    @Column({ type: 'int', default: 0 })
+    processed!: number;
+
+    @Column({ type: 'int', default: 0 })
+    inserted!: number;
+
+    @Column({ type: 'int', default: 0 })
+    updated!: number;
+
+    @Column({ type: 'int', default: 0 })
+    errors!: number;
+
+    // errors broken down by RejectionReason
+    @Column({ type: 'nvarchar', length: 'MAX', nullable: true, transformer: jsonTransformer })
+    errorsByReason!: ErrorCounts | null;
+
+    @Column({ type: 'int', default: 0 })
+    duplicates!: number;
+
+    @Column({ type: 'int', default: 0 })
+    totalLines!: number;
+
+    @Column({ type: 'nvarchar', length: 'MAX', nullable: true })
+    errorMessage!: string | null;
+
+    // Last committed position, used to resume an interrupted import
+    @Column({ type: 'nvarchar', length: 'MAX', nullable: true, transformer: jsonTransformer })
+    checkpoint!: ImportCheckpoint | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    checkpointAt!: Date | null;
+
+    // Replica running the job, and when it last confirmed it still is
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    instanceId!: string | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    heartbeatAt!: Date | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    startedAt!: Date | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    finishedAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,51 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { InputFormat } from "../services/customerParsers";
+import { DuplicatePolicy } from "../services/customerBulkWriter";
+
+// A recurring import: on every cron tick, the newest file in clients/ matching the pattern
+@Entity('import_schedules')
+export class ImportSchedule {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @Column({ type: 'varchar', length: 100 })
+    name!: string;
+
+    // Five-field cron expression, server local time
+    @Column({ type: 'varchar', length: 100 })
+    cron!: string;
+
+    // File name glob, e.g. CLIENTES_IN_*.dat
+    @Column({ type: 'varchar', length: 255 })
+    pattern!: string;
+
+    @Column({ type: 'varchar', length: 20, nullable: true })
+    format!: InputFormat | null;
+
+    @Column({ type: 'varchar', length: 30, default: 'skip' })
+    duplicatePolicy!: DuplicatePolicy;
+
+    @Column({ type: 'bit', default: true })
+    enabled!: boolean;
+
+    // Moved forward by the replica that claims a run, so each run fires once; null while disabled
+    @Index()
+    @Column({ type: 'datetime2', nullable: true })
+    nextRunAt!: Date | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    lastRunAt!: Date | null;
+
+    @Column({ type: 'uniqueidentifier', nullable: true })
+    lastImportJobId!: string | null;
+
+    // Why the last run started no import (e.g. no matching file)
+    @Column({ type: 'nvarchar', length: 'MAX', nullable: true })
+    lastError!: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,44 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { bigintTransformer } from "./transformers";
+
+// 'importing': handed to an import job; then the job's final status
+// 'skipped': same content as a file already imported under another name
+export type InboxFileStatus = 'importing' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+
+// A file picked up from the inbox directory. The unique file name is what
+// guarantees a file is imported once, even with several app instances.
+@Entity('inbox_files')
+export class InboxFile {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Index({ unique: true })
+    @Column({ type: 'varchar', length: 255 })
+    fileName!: string;
+
+    @Column({ type: 'bigint', transformer: bigintTransformer })
+    size!: number;
+
+    // SHA-256 of the content, to spot the same file delivered twice under different names
+    @Index()
+    @Column({ type: 'varchar', length: 64 })
+    checksum!: string;
+
+    @Column({ type: 'varchar', length: 20 })
+    status!: InboxFileStatus;
+
+    @Column({ type: 'uniqueidentifier', nullable: true })
+    importJobId!: string | null;
+
+    @Column({ type: 'nvarchar', length: 'MAX', nullable: true })
+    detail!: string | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    finishedAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
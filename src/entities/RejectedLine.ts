@@ -0,0 +1,33 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+import { CustomerField, RejectionReason } from "../services/customerLine";
+
+// Lines of an import file that failed validation, kept so they can be sent back upstream
+@Entity('rejected_lines')
+@Index(['importJobId', 'lineNumber'], { unique: true })
+export class RejectedLine {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ type: 'uniqueidentifier' })
+    importJobId!: string;
+
+    // 1-based line number in the import file
+    @Column({ type: 'int' })
+    lineNumber!: number;
+
+    @Column({ type: 'nvarchar', length: 'MAX' })
+    rawLine!: string;
+
+    // Machine-readable code, e.g. TOO_FEW_FIELDS or INVALID_EMAIL
+    @Column({ type: 'varchar', length: 50 })
+    reason!: RejectionReason;
+
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    field!: CustomerField | null;
+
+    @Column({ type: 'varchar', length: 255 })
+    detail!: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -0,0 +1,35 @@
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { jsonTransformer } from "./transformers";
+
+export type WebhookEvent = 'import.completed' | 'import.failed' | 'import.cancelled';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['import.completed', 'import.failed', 'import.cancelled'];
+
+// A URL notified when imports finish
+@Entity('webhooks')
+export class Webhook {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @Column({ type: 'varchar', length: 2048 })
+    url!: string;
+
+    // HMAC-SHA256 key used to sign every delivery
+    @Column({ type: 'varchar', length: 255 })
+    secret!: string;
+
+    @Column({ type: 'nvarchar', length: 'MAX', transformer: jsonTransformer })
+    events!: WebhookEvent[];
+
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    description!: string | null;
+
+    @Column({ type: 'bit', default: true })
+    active!: boolean;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
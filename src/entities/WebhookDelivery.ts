@@ -0,0 +1,54 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { WebhookEvent } from "./Webhook";
+
+// 'pending': not delivered yet, retried at nextAttemptAt
+// 'failed': gave up after the last attempt
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One notification of one webhook, with the outcome of its last attempt
+@Entity('webhook_deliveries')
+@Index(['webhookId', 'createdAt'])
+export class WebhookDelivery {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @Column({ type: 'uniqueidentifier' })
+    webhookId!: string;
+
+    @Column({ type: 'uniqueidentifier' })
+    importJobId!: string;
+
+    @Column({ type: 'varchar', length: 30 })
+    event!: WebhookEvent;
+
+    // The exact JSON body, so every retry sends (and signs) the same bytes
+    @Column({ type: 'nvarchar', length: 'MAX' })
+    payload!: string;
+
+    @Column({ type: 'varchar', length: 20, default: 'pending' })
+    status!: WebhookDeliveryStatus;
+
+    @Column({ type: 'int', default: 0 })
+    attempts!: number;
+
+    @Column({ type: 'int', nullable: true })
+    lastStatusCode!: number | null;
+
+    @Column({ type: 'nvarchar', length: 'MAX', nullable: true })
+    lastError!: string | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    lastAttemptAt!: Date | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    nextAttemptAt!: Date | null;
+
+    @Column({ type: 'datetime2', nullable: true })
+    deliveredAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
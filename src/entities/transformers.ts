@@ -0,0 +1,13 @@
+import { ValueTransformer } from "typeorm";
+
+// Stores a value as JSON text in an nvarchar(max) column
+export const jsonTransformer: ValueTransformer = {
+    to: (value: unknown) => (value === null || value === undefined ? null : JSON.stringify(value)),
+    from: (value: string | null) => (value ? JSON.parse(value) : null)
+};
+
+// SQL Server bigints come back as strings; sizes fit a JS number
+export const bigintTransformer: ValueTransformer = {
+    to: (value: number | null) => value,
+    from: (value: string | null) => (value === null ? null : Number(value))
+};
@@ -8,12 +8,22 @@ import 'reflect-metadata';
 
 // Import database configuration
 import { initializeDatabase } from './config/database';
+import { container } from './config/container';
+import { uploadLimitBytes } from './config/limits';
+import { ICustomerService, IDatabaseService, IImportJobService, IImportScheduler, IInboxWatcher, IWebhookService } from './interfaces/services';
+import { TYPES } from './types/inversify';
 
 // Import routes
 import customerRoutes from './routes/Customer';
+import importRoutes from './routes/Import';
+import webhookRoutes from './routes/Webhook';
+import inboxRoutes from './routes/Inbox';
+import scheduleRoutes from './routes/Schedule';
+import healthRoutes from './routes/Health';
 
 // Import performance monitoring
 import { performanceMonitor } from './middleware/performance';
+import { metricsRegistry, setWorkloadGauges } from './services/metrics';
 
 const server: FastifyInstance = fastify({
   logger: {
@@ -29,13 +39,18 @@ const server: FastifyInstance = fastify({
   }
 });
 
+// Set when INBOX_WATCH is enabled
+let inboxWatcher: IInboxWatcher | null = null;
+// Set unless SCHEDULER_ENABLED is false
+let importScheduler: IImportScheduler | null = null;
+
 // Register plugins
 async function registerPlugins() {
   // Register multipart support globally
   try {
     await server.register(require('@fastify/multipart'), {
       limits: {
-        fileSize: 50 * 1024 * 1024, // 50MB limit
+        fileSize: uploadLimitBytes(), // UPLOAD_MAX_MB, 5GB by default
         files: 1 // Only one file at a time
       }
     });
@@ -73,7 +88,11 @@ async function registerPlugins() {
       consumes: ['application/json'],
       produces: ['application/json'],
       tags: [
-        { name: 'customers', description: 'Customer management endpoints' }
+        { name: 'customers', description: 'Customer management endpoints' },
+        { name: 'imports', description: 'Customer file import jobs' },
+        { name: 'webhooks', description: 'Import notifications to downstream systems' },
+        { name: 'inbox', description: 'Automatic import of files dropped in the inbox directory' },
+        { name: 'schedules', description: 'Recurring imports' }
       ]
     }
   });
@@ -95,12 +114,32 @@ async function registerRoutes() {
   console.log('🔧 Registering customer routes...');
   await server.register(customerRoutes);
   console.log('✅ Customer routes registered');
+
+  console.log('🔧 Registering import routes...');
+  await server.register(importRoutes);
+  console.log('✅ Import routes registered');
+
+  console.log('🔧 Registering webhook routes...');
+  await server.register(webhookRoutes);
+  console.log('✅ Webhook routes registered');
+
+  console.log('🔧 Registering inbox routes...');
+  await server.register(inboxRoutes);
+  console.log('✅ Inbox routes registered');
+
+  console.log('🔧 Registering schedule routes...');
+  await server.register(scheduleRoutes);
+  console.log('✅ Schedule routes registered');
+
+  console.log('🔧 Registering health probe routes...');
+  await server.register(healthRoutes);
+  console.log('✅ Health probe routes registered');
 }
 
 // Health check endpoint
 server.get('/health', {
   schema: {
-    description: 'Health check endpoint',
+    description: 'Health check endpoint. Always OK while the server answers; Kubernetes probes should use /health/live and /health/ready',
     tags: ['health'],
     response: {
       200: {
@@ -134,7 +173,8 @@ server.get('/', {
           version: { type: 'string' },
           documentation: { type: 'string' },
           health: { type: 'string' },
-          performance: { type: 'string' }
+          performance: { type: 'string' },
+          metrics: { type: 'string' }
         }
       }
     }
@@ -145,10 +185,20 @@ server.get('/', {
     version: '1.0.0',
     documentation: '/documentation',
     health: '/health',
-    performance: '/performance'
+    performance: '/performance',
+    metrics: '/metrics'
   });
 });
 
+const cpuWindowSchema = {
+  type: 'object',
+  properties: {
+    seconds: { type: 'number' },
+    coresUsed: { type: 'number' },
+    percentOfLimit: { type: 'number' }
+  }
+};
+
 // Performance monitoring endpoint
 server.get('/performance', {
   schema: {
@@ -176,7 +226,64 @@ server.get('/performance', {
               system: { type: 'number' }
             }
           },
-          cpuUsagePercentage: { type: 'number' },
+          cpuUsagePercentage: { type: 'number', description: 'Percent of the CPU limit used over the last 10 seconds' },
+          cpu: {
+            type: 'object',
+            properties: {
+              limitMillicores: { type: 'number' },
+              last10s: cpuWindowSchema,
+              last60s: cpuWindowSchema
+            }
+          },
+          eventLoop: {
+            type: 'object',
+            properties: {
+              seconds: { type: 'number' },
+              utilization: { type: 'number' },
+              delayMs: {
+                type: 'object',
+                properties: {
+                  min: { type: 'number' },
+                  mean: { type: 'number' },
+                  p50: { type: 'number' },
+                  p90: { type: 'number' },
+                  p99: { type: 'number' },
+                  max: { type: 'number' }
+                }
+              }
+            }
+          },
+          gc: {
+            type: 'object',
+            properties: {
+              seconds: { type: 'number' },
+              count: { type: 'number' },
+              totalPauseMs: { type: 'number' },
+              maxPauseMs: { type: 'number' },
+              pausePercent: { type: 'number' },
+              byKind: {
+                type: 'object',
+                properties: {
+                  minor: { type: 'number' },
+                  major: { type: 'number' },
+                  incremental: { type: 'number' },
+                  weakcb: { type: 'number' }
+                }
+              }
+            }
+          },
+          memory: {
+            type: 'object',
+            properties: {
+              rss: { type: 'number' },
+              heapUsed: { type: 'number' },
+              heapTotal: { type: 'number' },
+              heapLimit: { type: 'number' },
+              containerLimit: { type: 'number' },
+              rssPercentOfLimit: { type: 'number' },
+              heapPercentOfLimit: { type: 'number' }
+            }
+          },
           timestamp: { type: 'string' }
         }
       }
@@ -186,6 +293,25 @@ server.get('/performance', {
   return reply.send(performanceMonitor.getStats());
 });
 
+// Prometheus scrape endpoint
+server.get('/metrics', {
+  schema: {
+    description: 'Prometheus metrics: request latency, import counters, workers and database pool',
+    tags: ['monitoring'],
+    response: {
+      200: { type: 'string' }
+    }
+  }
+}, async (request, reply) => {
+  setWorkloadGauges(
+    container.get<ICustomerService>(TYPES.CustomerService).getWorkload(),
+    container.get<IDatabaseService>(TYPES.DatabaseService).getConnectionPool()
+  );
+  return reply
+    .header('Content-Type', metricsRegistry.contentType)
+    .send(await metricsRegistry.metrics());
+});
+
 // Error handler
 server.setErrorHandler((error, request, reply) => {
   server.log.error(error);
@@ -209,7 +335,31 @@ async function start() {
   try {
     // Initialize database
     await initializeDatabase();
+
+    // Flag imports cut short by a previous crash or restart so they can be resumed;
+    // the heartbeat keeps other replicas from doing the same to the ones running here
+    const importJobService = container.get<IImportJobService>(TYPES.ImportJobService);
+    const interrupted = await importJobService.recoverInterruptedJobs();
+    if (interrupted > 0) {
+      console.log(`⏸️  ${interrupted} interrupted import(s) found, resume them with POST /imports/:id/resume`);
+    }
+    importJobService.startHeartbeat();
+
+    // Pick up webhook retries that were waiting when the process stopped
+    const pendingDeliveries = await container.get<IWebhookService>(TYPES.WebhookService).retryPendingDeliveries();
+    if (pendingDeliveries > 0) {
+      console.log(`📨 ${pendingDeliveries} pending webhook deliveries rescheduled`);
+    }
     
+    // Customers stored before searchText existed; runs in the background, searches just miss them until then
+    container.get<ICustomerService>(TYPES.CustomerService).backfillSearchText()
+      .then(filled => {
+        if (filled > 0) {
+          console.log(`🔎 Search text filled in for ${filled} customer(s)`);
+        }
+      })
+      .catch(error => console.error('Error filling in customer search text:', error));
+
     await registerPlugins();
     await registerRoutes();
     
@@ -217,11 +367,26 @@ async function start() {
     const host = process.env.HOST || '0.0.0.0';
     
     await server.listen({ port: Number(port), host });
+    performanceMonitor.start();
+
+    // Import new daily files without anyone calling POST /customers/:filename
+    if (process.env.INBOX_WATCH === 'true') {
+      inboxWatcher = container.get<IInboxWatcher>(TYPES.InboxWatcher);
+      await inboxWatcher.start();
+    }
+
+    // Recurring imports; every replica polls, each run is claimed by one of them
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      importScheduler = container.get<IImportScheduler>(TYPES.ImportScheduler);
+      importScheduler.start();
+    }
     
     console.log(`🚀 Server started at: http://${host}:${port}`);
     console.log(`📚 Reach http://${host}:${port}/documentation for more info about the endpoints`);
     console.log(`💚 Health check available at: http://${host}:${port}/health`);
+    console.log(`🩺 Probes at: http://${host}:${port}/health/live and http://${host}:${port}/health/ready`);
     console.log(`📊 Performance metrics at: http://${host}:${port}/performance`);
+    console.log(`📈 Prometheus metrics at: http://${host}:${port}/metrics`);
     
   } catch (err) {
     server.log.error(err);
@@ -232,12 +397,18 @@ async function start() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down Fastify server...');
+  inboxWatcher?.stop();
+  importScheduler?.stop();
+  performanceMonitor.stop();
   await server.close();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Shutting down Fastify server...');
+  inboxWatcher?.stop();
+  importScheduler?.stop();
+  performanceMonitor.stop();
   await server.close();
   process.exit(0);
 });
@@ -1,15 +1,342 @@
 import { Customer } from "../entities/Customer";
+import { ImportJob, ImportJobStatus } from "../entities/ImportJob";
+import { RejectedLine } from "../entities/RejectedLine";
+import { InboxFile } from "../entities/InboxFile";
+import { ImportSchedule } from "../entities/ImportSchedule";
+import { Webhook, WebhookEvent } from "../entities/Webhook";
+import { WebhookDelivery } from "../entities/WebhookDelivery";
+import { ErrorCounts } from "../services/customerLine";
+import { InputFormat } from "../services/customerParsers";
+import { DuplicatePolicy } from "../services/customerBulkWriter";
+import { InboxWatcherOptions } from "../services/inboxWatcher";
+import { CustomerSortField, SortOrder } from "../services/customerQuery";
+import { FileLine } from "../services/lineReader";
+import { ConcurrentProcessingStats } from "../services/concurrentProcessor";
+import { TuningStats } from "../services/importTuner";
 import { DataSource } from "typeorm";
+import { ConnectionPool } from "mssql";
 
 export interface IDatabaseService {
   initialize(): Promise<void>;
   getRepository<T>(entity: any): any;
   getDataSource(): DataSource;
+  getConnectionPool(): ConnectionPool;
 } 
 
+export interface ImportResult {
+  // inserted + updated
+  processed: number;
+  inserted: number;
+  updated: number;
+  errors: number;
+  errorsByReason: ErrorCounts;
+  duplicates: number;
+  totalLines: number;
+  filePath: string;
+  format: InputFormat;
+}
+
+/**
+ * Committed progress of an import, saved after every committed batch (sequential)
+ * or worker batch (concurrent). Totals cover everything before the checkpoint.
+ */
+export interface CheckpointTotals {
+  processed: number;
+  inserted: number;
+  updated: number;
+  errors: number;
+  errorsByReason: ErrorCounts;
+  duplicates: number;
+}
+
+export interface SequentialCheckpoint extends CheckpointTotals {
+  mode: 'sequential';
+  byteOffset: number;
+  line: number;
+}
+
+export interface ChunkCheckpoint {
+  chunkId: number;
+  byteOffset: number;
+  line: number;
+}
+
+export interface ConcurrentCheckpoint extends CheckpointTotals {
+  mode: 'concurrent';
+  chunkSize: number;
+  // Every chunk below completedBelow is done, plus the ones listed in completedChunks
+  completedBelow: number;
+  completedChunks: number[];
+  partialChunks: ChunkCheckpoint[];
+}
+
+export type ImportCheckpoint = SequentialCheckpoint | ConcurrentCheckpoint;
+
+export interface ImportOptions {
+  jobId?: string;
+  // Detected from the file when not given
+  format?: InputFormat | null;
+  // Defaults to 'skip'
+  duplicatePolicy?: DuplicatePolicy;
+  // Count what the import would do without writing customers
+  dryRun?: boolean;
+  resumeFrom?: ImportCheckpoint | null;
+  onCheckpoint?: (checkpoint: ImportCheckpoint) => void;
+}
+
+export interface StartImportOptions {
+  format?: InputFormat | null;
+  duplicatePolicy?: DuplicatePolicy;
+  dryRun?: boolean;
+}
+
+export interface StreamImportOptions extends StartImportOptions {
+  // Name of the uploaded file; its extension can pick the format
+  fileName: string;
+  // Where to save the raw upload while importing it; nothing is saved when not given
+  auditPath?: string | null;
+}
+
+// Counts are what the import would have done; see IImportJobService.getDryRunReport
+export interface DryRunReport {
+  wouldInsert: number;
+  wouldUpdate: number;
+  wouldDuplicate: number;
+  wouldReject: number;
+  rejectionsByReason: ErrorCounts;
+  rejectedSample: RejectedLine[];
+}
+
+export interface ImportProgress extends CheckpointTotals {
+  totalLines: number;
+  // Percentage of the file done
+  progress: number;
+}
+
+export interface ChunkSummary extends CheckpointTotals {
+  chunkId: number;
+  startLine: number;
+  endLine: number;
+  completedChunks: number;
+  totalChunks: number;
+}
+
+export type ImportSummary = Pick<ImportJob,
+  'status' | 'format' | 'dryRun' | 'processed' | 'inserted' | 'updated' | 'errors' | 'errorsByReason'
+  | 'duplicates' | 'totalLines' | 'errorMessage' | 'startedAt' | 'finishedAt'>;
+
+/**
+ * Live notifications about an import, pushed to /imports/:id/events.
+ * - status: the job changed state (running, paused)
+ * - progress: committed totals so far (coalesced, at most a few per second)
+ * - chunk: a concurrent chunk finished
+ * - summary: the job finished (completed, failed or cancelled); always the last event
+ */
+export type ImportEvent =
+  | { type: 'status'; jobId: string; status: ImportJobStatus }
+  | { type: 'progress'; jobId: string; progress: ImportProgress }
+  | { type: 'chunk'; jobId: string; chunk: ChunkSummary }
+  | { type: 'summary'; jobId: string; summary: ImportSummary };
+
+export interface IImportEventBus {
+  publish(event: ImportEvent): void;
+  // Returns the unsubscribe function
+  subscribe(jobId: string, listener: (event: ImportEvent) => void): () => void;
+}
+
+export interface CustomerFilters {
+  lastName?: string;
+  emailDomain?: string;
+  customerIdPrefix?: string;
+  minAge?: number;
+  maxAge?: number;
+  // Inclusive lower and exclusive upper bound
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface CustomerQuery extends CustomerFilters {
+  // Page size, 50 by default and at most 1000
+  limit?: number;
+  // nextCursor of the previous page, issued for the same sort and order
+  cursor?: string;
+  sort?: CustomerSortField;
+  order?: SortOrder;
+  // Count every customer matching the filters; costs a second query
+  includeTotal?: boolean;
+}
+
+export interface CustomerPage {
+  customers: Customer[];
+  // null on the last page
+  nextCursor: string | null;
+  total?: number;
+}
+
+export interface CustomerSearchResult {
+  customer: Customer;
+  // Higher is better; above 1 when the query is a prefix of the name or email
+  score: number;
+}
+
+// Fields a PATCH can change; the others keep their current value
+export type CustomerUpdate = Partial<Pick<Customer, 'customerId' | 'firstName' | 'lastName' | 'email' | 'age'>>;
+
+// Progress of an import on the sequential path
+export interface SequentialProcessingStats {
+  processed: number;
+  inserted: number;
+  updated: number;
+  errors: number;
+  errorsByReason: ErrorCounts;
+  duplicates: number;
+  totalLines: number;
+  currentLine: number;
+  startTime: Date;
+  estimatedTimeRemaining?: number;
+}
+
+// A running import as getProcessingStats reports it, on either path
+export type ProcessingStatus = {
+  jobId: string;
+  paused: boolean;
+  pausedAt: Date | null;
+  pausedMs: number;
+  tuning: TuningStats | null;
+} & (
+  | ({ isConcurrent: false } & SequentialProcessingStats)
+  | ({ isConcurrent: true } & ConcurrentProcessingStats)
+);
+
+// What the imports of this process are doing right now
+export interface ImportWorkload {
+  // Running or paused
+  activeImports: number;
+  activeWorkers: number;
+  // Chunks of concurrent imports waiting for a free worker
+  queuedChunks: number;
+}
+
 export interface ICustomerService {
-  processCustomersFile(filePath: string): Promise<{processed: number, errors: number, duplicates: number}>;
+  processCustomersFile(filePath: string, options?: ImportOptions): Promise<ImportResult>;
+  processCustomersStream(lines: AsyncIterable<FileLine>, options?: ImportOptions): Promise<ImportResult>;
   getCustomerByEmail(email: string): Promise<Customer | null>;
-  getCustomers(): Promise<Customer[]>;
-  getProcessingStats(): any;
-}
\ No newline at end of file
+  getCustomers(query?: CustomerQuery): Promise<CustomerPage>;
+  streamCustomers(filters?: CustomerFilters): AsyncIterable<Customer>;
+  getCustomer(customerId: string): Promise<Customer | null>;
+  searchCustomers(query: string, limit?: number): Promise<CustomerSearchResult[]>;
+  backfillSearchText(): Promise<number>;
+  updateCustomer(customerId: string, changes: CustomerUpdate): Promise<Customer>;
+  deleteCustomer(customerId: string): Promise<void>;
+  getProcessingStats(jobId?: string): ProcessingStatus | null;
+  getWorkload(): ImportWorkload;
+  cancelProcessing(jobId: string): boolean;
+  pauseProcessing(jobId: string): boolean;
+  resumeProcessing(jobId: string): boolean;
+}
+
+export interface IImportJobService {
+  startImport(filePath: string, options?: StartImportOptions): Promise<ImportJob>;
+  importStream(source: AsyncIterable<Buffer>, options: StreamImportOptions): Promise<ImportJob>;
+  resumeImport(id: string): Promise<ImportJob>;
+  cancelImport(id: string): Promise<ImportJob>;
+  cancelRunningImports(): Promise<ImportJob[]>;
+  pauseImport(id: string): Promise<ImportJob>;
+  pauseRunningImports(): Promise<ImportJob[]>;
+  resumePausedImport(id: string): Promise<ImportJob>;
+  resumePausedImports(): Promise<ImportJob[]>;
+  recoverInterruptedJobs(): Promise<number>;
+  startHeartbeat(): void;
+  stopHeartbeat(): void;
+  getJob(id: string): Promise<ImportJob | null>;
+  listJobs(limit?: number): Promise<ImportJob[]>;
+  getRejectedLines(jobId: string, afterLine?: number, limit?: number): Promise<RejectedLine[]>;
+  streamRejectedLines(jobId: string): AsyncIterable<RejectedLine>;
+  getDryRunReport(job: ImportJob): Promise<DryRunReport>;
+}
+
+export interface CreateWebhookOptions {
+  url: string;
+  // Generated when not given
+  secret?: string;
+  // Defaults to every import event
+  events?: WebhookEvent[];
+  description?: string;
+}
+
+export interface IWebhookService {
+  createWebhook(options: CreateWebhookOptions): Promise<Webhook>;
+  listWebhooks(): Promise<Webhook[]>;
+  deleteWebhook(id: string): Promise<void>;
+  getDeliveries(webhookId: string, limit?: number): Promise<WebhookDelivery[]>;
+  notifyImportFinished(job: ImportJob): Promise<void>;
+  retryPendingDeliveries(): Promise<number>;
+}
+
+export interface IInboxWatcher {
+  start(options?: Partial<InboxWatcherOptions>): Promise<void>;
+  stop(): void;
+  isRunning(): boolean;
+  scan(): Promise<InboxFile[]>;
+  listFiles(limit?: number): Promise<InboxFile[]>;
+}
+
+export interface CreateScheduleOptions {
+  name: string;
+  cron: string;
+  // File name glob; the newest matching file in clients/ is imported
+  pattern: string;
+  format?: InputFormat | null;
+  duplicatePolicy?: DuplicatePolicy;
+  // Defaults to true
+  enabled?: boolean;
+}
+
+export interface IImportScheduler {
+  start(): void;
+  stop(): void;
+  listSchedules(): Promise<ImportSchedule[]>;
+  createSchedule(options: CreateScheduleOptions): Promise<ImportSchedule>;
+  setScheduleEnabled(id: string, enabled: boolean): Promise<ImportSchedule>;
+  triggerSchedule(id: string): Promise<ImportJob>;
+  runDueSchedules(now?: Date): Promise<ImportJob[]>;
+}
+
+export type HealthCheckStatus = 'pass' | 'fail';
+
+export interface DatabaseHealth {
+  status: HealthCheckStatus;
+  responseTimeMs: number;
+  error?: string;
+}
+
+export interface DiskHealth {
+  status: HealthCheckStatus;
+  path: string;
+  freeBytes: number;
+  totalBytes: number;
+  minFreeBytes: number;
+  error?: string;
+}
+
+// Informational: a busy replica stays ready, it only turns down new imports
+export interface ImportCapacityHealth extends ImportWorkload {
+  // Whether this replica takes another import now
+  available: boolean;
+  // Imports this replica runs at once
+  capacity: number;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: {
+    database: DatabaseHealth;
+    disk: DiskHealth;
+    imports: ImportCapacityHealth;
+  };
+}
+
+export interface IHealthService {
+  checkReadiness(): Promise<Readiness>;
+  getImportCapacity(): ImportCapacityHealth;
+}
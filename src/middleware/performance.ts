@@ -1,4 +1,6 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { httpRequestDuration, httpRequestsTotal } from '../services/metrics';
+import { DelayPercentiles, RuntimeStats } from './runtimeStats';
 
 export interface PerformanceMetrics {
   requestId: string;
@@ -13,6 +15,18 @@ export interface PerformanceMetrics {
 
 export class PerformanceMonitor {
   private metrics: Map<string, PerformanceMetrics> = new Map();
+  private runtime = new RuntimeStats();
+
+  /**
+   * Start sampling CPU, event loop and GC for getStats
+   */
+  public start() {
+    this.runtime.start();
+  }
+
+  public stop() {
+    this.runtime.stop();
+  }
 
   /**
    * Middleware to track request performance
@@ -44,6 +58,15 @@ export class PerformanceMonitor {
           metrics.duration = Number(endTime - startTime) / 1000000; // Convert to milliseconds
           metrics.statusCode = reply.statusCode;
           metrics.memoryUsage = process.memoryUsage();
+
+          // The route pattern rather than the URL, so ids don't explode the label values
+          const labels = {
+            method: request.method,
+            route: request.routeOptions.url ?? 'unmatched',
+            status_code: String(reply.statusCode)
+          };
+          httpRequestDuration.observe(labels, metrics.duration / 1000);
+          httpRequestsTotal.inc(labels);
           
           // Log performance data
           this.logPerformance(metrics);
@@ -92,7 +115,9 @@ export class PerformanceMonitor {
     const activeRequests = this.metrics.size;
     const memoryUsage = process.memoryUsage();
     const cpuUsage = process.cpuUsage();
-    const cpuUsagePercentage = cpuUsage.user / cpuUsage.system;
+    const runtime = this.runtime.getStats();
+    // Of the container CPU limit over the last 10 seconds
+    const cpuUsagePercentage = runtime.cpu.last10s.percentOfLimit;
     const uptime = process.uptime();
     
     return {
@@ -100,11 +125,19 @@ export class PerformanceMonitor {
       memoryUsage,
       cpuUsage,
       cpuUsagePercentage,
+      ...runtime,
       uptime,
       timestamp: new Date().toISOString()
     };
   }
 
+  /**
+   * Event loop delay percentiles of the last minute, in milliseconds
+   */
+  public getEventLoopDelay(): DelayPercentiles {
+    return this.runtime.getEventLoopDelay();
+  }
+
   /**
    * Clear all metrics (useful for testing)
    */
@@ -0,0 +1,93 @@
+import { createHistogram } from 'perf_hooks';
+import { cpuWindow, delayPercentiles, delaySamples, gcWindow, RuntimeStats } from './runtimeStats';
+
+const busyWait = (ms: number) => {
+  const until = Date.now() + ms;
+  while (Date.now() < until) {
+    // Keep the event loop blocked
+  }
+};
+
+describe('cpuWindow', () => {
+  it('should measure CPU against the container limit', () => {
+    // 1.5 seconds of CPU in 10 seconds is 0.15 cores, 75% of a 200m limit
+    expect(cpuWindow({ at: 0, cpuMicros: 0 }, { at: 10000, cpuMicros: 1500000 }, 0.2))
+      .toEqual({ seconds: 10, coresUsed: 0.15, percentOfLimit: 75 });
+  });
+
+  it('should report nothing for an empty window', () => {
+    expect(cpuWindow({ at: 5, cpuMicros: 10 }, { at: 5, cpuMicros: 10 }, 0.2).percentOfLimit).toBe(0);
+  });
+});
+
+describe('delayPercentiles', () => {
+  it('should merge the samples of every second into milliseconds', () => {
+    const first = createHistogram();
+    const second = createHistogram();
+    for (let i = 0; i < 99; i++) {
+      first.record(1e6);
+    }
+    second.record(250e6);
+
+    const delay = delayPercentiles([first, second]);
+    expect(delay.p50).toBeCloseTo(1, 0);
+    expect(delay.max).toBeCloseTo(250, 0);
+  });
+
+  it('should report zeros before any sample', () => {
+    expect(delayPercentiles([createHistogram()])).toEqual({ min: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 });
+  });
+});
+
+describe('delaySamples', () => {
+  it('should rebuild the samples of a delay monitor without its resolution', () => {
+    // 100 ticks of a 20ms monitor, one of them 250ms late
+    const monitor = { count: 100, percentiles: new Map([[0, 21e6], [50, 21e6], [99, 21e6], [100, 270e6]]) };
+
+    const samples = delaySamples(monitor, 20);
+    expect(samples.count).toBe(100);
+    expect(samples.percentile(50)).toBeCloseTo(1e6, -4);
+    expect(samples.max).toBeCloseTo(250e6, -6);
+  });
+});
+
+describe('gcWindow', () => {
+  it('should sum the pauses inside the window', () => {
+    const pauses = [
+      { at: 500, kind: 'major' as const, durationMs: 40 },
+      { at: 1500, kind: 'minor' as const, durationMs: 2 },
+      { at: 1800, kind: 'major' as const, durationMs: 18 }
+    ];
+
+    expect(gcWindow(pauses, 1000, 11000)).toEqual({
+      seconds: 10,
+      count: 2,
+      totalPauseMs: 20,
+      maxPauseMs: 18,
+      pausePercent: 0.2,
+      byKind: { minor: 1, major: 1, incremental: 0, weakcb: 0 }
+    });
+  });
+});
+
+describe('RuntimeStats', () => {
+  let runtime: RuntimeStats;
+
+  beforeEach(() => {
+    runtime = new RuntimeStats();
+  });
+
+  afterEach(() => runtime.stop());
+
+  it('should see a blocked event loop and the CPU it burned', async () => {
+    runtime.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    busyWait(150);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const stats = runtime.getStats();
+    expect(stats.eventLoop.delayMs.max).toBeGreaterThanOrEqual(100);
+    expect(stats.cpu.last10s.coresUsed).toBeGreaterThan(0);
+    expect(stats.memory.rssPercentOfLimit).toBeGreaterThan(0);
+  });
+});
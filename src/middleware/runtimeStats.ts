@@ -0,0 +1,256 @@
+import {
+  constants, createHistogram, EventLoopUtilization, IntervalHistogram, monitorEventLoopDelay, performance, PerformanceObserver, RecordableHistogram
+} from 'perf_hooks';
+import { getHeapStatistics } from 'v8';
+import { cpuLimitCores, memoryLimitBytes } from '../config/limits';
+
+// CPU and event loop utilization are sampled every second and kept for a minute
+const SAMPLE_INTERVAL_MS = 1000;
+const HISTORY_SECONDS = 60;
+// How often the event loop delay monitor samples; a blocked loop shows up as a late sample
+const DELAY_RESOLUTION_MS = 20;
+
+export type GcKind = 'minor' | 'major' | 'incremental' | 'weakcb';
+
+const GC_KINDS: Record<number, GcKind> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: 'minor',
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: 'major',
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: 'incremental',
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: 'weakcb'
+};
+
+export interface CpuSample {
+  // process.hrtime in milliseconds
+  at: number;
+  // user + system CPU time of the process, in microseconds
+  cpuMicros: number;
+}
+
+interface Sample extends CpuSample {
+  eventLoop: EventLoopUtilization;
+  // Event loop delay samples of the second that ended with this sample, in nanoseconds
+  delay: RecordableHistogram;
+}
+
+export interface GcPause {
+  at: number;
+  kind: GcKind;
+  durationMs: number;
+}
+
+export interface CpuWindow {
+  seconds: number;
+  // 0.1 = a tenth of one core
+  coresUsed: number;
+  // Against the container CPU limit; 100 means the process is being throttled
+  percentOfLimit: number;
+}
+
+export interface DelayPercentiles {
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface GcWindow {
+  seconds: number;
+  count: number;
+  totalPauseMs: number;
+  maxPauseMs: number;
+  // Share of the window the process spent paused in GC
+  pausePercent: number;
+  byKind: Record<GcKind, number>;
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const nowMs = () => Number(process.hrtime.bigint()) / 1e6;
+
+const cpuMicros = () => {
+  const { user, system } = process.cpuUsage();
+  return user + system;
+};
+
+export function cpuWindow(from: CpuSample, to: CpuSample, limitCores: number): CpuWindow {
+  const elapsedMs = to.at - from.at;
+  const coresUsed = elapsedMs > 0 ? (to.cpuMicros - from.cpuMicros) / 1000 / elapsedMs : 0;
+  return {
+    seconds: round(elapsedMs / 1000, 1),
+    coresUsed: round(coresUsed, 3),
+    percentOfLimit: round((coresUsed / limitCores) * 100, 1)
+  };
+}
+
+/**
+ * The samples an event loop delay monitor took since it was last reset, rebuilt
+ * from its percentiles since its histogram can't be merged into another one.
+ * The monitor records the time between its own ticks, so the resolution is
+ * taken off to leave the delay.
+ */
+export function delaySamples(monitor: Pick<IntervalHistogram, 'count' | 'percentiles'>, resolutionMs: number): RecordableHistogram {
+  const samples = createHistogram();
+  let recorded = 0;
+  for (const [percentile, value] of monitor.percentiles) {
+    const upTo = Math.min(monitor.count, Math.max(1, Math.ceil((percentile / 100) * monitor.count)));
+    // Histograms only take positive integers
+    const delay = Math.max(1, Math.round(value - resolutionMs * 1e6));
+    for (; recorded < upTo; recorded++) {
+      samples.record(delay);
+    }
+  }
+  return samples;
+}
+
+// Percentiles of the delay samples of several seconds, in milliseconds
+export function delayPercentiles(histograms: RecordableHistogram[]): DelayPercentiles {
+  const merged = createHistogram();
+  histograms.forEach(histogram => merged.add(histogram));
+  if (merged.count === 0) {
+    return { min: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 };
+  }
+  const ms = (nanoseconds: number) => round(nanoseconds / 1e6);
+  return {
+    min: ms(merged.min),
+    mean: ms(merged.mean),
+    p50: ms(merged.percentile(50)),
+    p90: ms(merged.percentile(90)),
+    p99: ms(merged.percentile(99)),
+    max: ms(merged.max)
+  };
+}
+
+export function gcWindow(pauses: GcPause[], since: number, until: number): GcWindow {
+  const inWindow = pauses.filter(pause => pause.at >= since);
+  const byKind: Record<GcKind, number> = { minor: 0, major: 0, incremental: 0, weakcb: 0 };
+  let totalPauseMs = 0;
+  let maxPauseMs = 0;
+  for (const pause of inWindow) {
+    byKind[pause.kind]++;
+    totalPauseMs += pause.durationMs;
+    maxPauseMs = Math.max(maxPauseMs, pause.durationMs);
+  }
+  const windowMs = until - since;
+  return {
+    seconds: round(windowMs / 1000, 1),
+    count: inWindow.length,
+    totalPauseMs: round(totalPauseMs),
+    maxPauseMs: round(maxPauseMs),
+    pausePercent: windowMs > 0 ? round((totalPauseMs / windowMs) * 100) : 0,
+    byKind
+  };
+}
+
+/**
+ * Samples CPU, event loop delay and utilization, and GC pauses over a sliding
+ * window, so /performance shows what the process is doing now rather than
+ * averages since it started. The sampling timer is unref'd and the delay
+ * monitor runs in libuv, which matters little even at a 200m CPU limit.
+ */
+export class RuntimeStats {
+  private samples: Sample[] = [];
+  private gcPauses: GcPause[] = [];
+  private delayMonitor: IntervalHistogram | null = null;
+  private sampleTimer: NodeJS.Timeout | null = null;
+  private gcObserver: PerformanceObserver | null = null;
+  private readonly limitCores = cpuLimitCores();
+  private readonly limitMemory = memoryLimitBytes();
+
+  start(): void {
+    if (this.sampleTimer) {
+      return;
+    }
+
+    this.samples = [this.takeSample()];
+    this.delayMonitor = monitorEventLoopDelay({ resolution: DELAY_RESOLUTION_MS });
+    this.delayMonitor.enable();
+    this.sampleTimer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS).unref();
+
+    this.gcObserver = new PerformanceObserver(list => {
+      for (const entry of list.getEntries()) {
+        const kind = GC_KINDS[(entry.detail as { kind: number }).kind];
+        if (kind) {
+          this.gcPauses.push({ at: nowMs(), kind, durationMs: entry.duration });
+        }
+      }
+    });
+    this.gcObserver.observe({ entryTypes: ['gc'] });
+  }
+
+  stop(): void {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+    }
+    this.delayMonitor?.disable();
+    this.gcObserver?.disconnect();
+    this.sampleTimer = null;
+    this.delayMonitor = null;
+    this.gcObserver = null;
+  }
+
+  /**
+   * CPU for the last 10 and 60 seconds, event loop and GC for the last 60
+   * seconds, and memory right now. Windows are shorter until the sampler has
+   * been running that long.
+   */
+  getStats() {
+    const now = this.takeSample();
+    const oldest = this.samples[0] ?? now;
+    const tenSecondsAgo = this.samples.find(sample => now.at - sample.at <= 10 * 1000) ?? oldest;
+    const memory = process.memoryUsage();
+    const heapLimit = getHeapStatistics().heap_size_limit;
+
+    return {
+      cpu: {
+        limitMillicores: Math.round(this.limitCores * 1000),
+        last10s: cpuWindow(tenSecondsAgo, now, this.limitCores),
+        last60s: cpuWindow(oldest, now, this.limitCores)
+      },
+      eventLoop: {
+        seconds: round((now.at - oldest.at) / 1000, 1),
+        // Share of the time the loop was busy rather than waiting for I/O
+        utilization: round(performance.eventLoopUtilization(now.eventLoop, oldest.eventLoop).utilization, 3),
+        delayMs: this.getEventLoopDelay()
+      },
+      gc: gcWindow(this.gcPauses, oldest.at, now.at),
+      memory: {
+        rss: memory.rss,
+        heapUsed: memory.heapUsed,
+        heapTotal: memory.heapTotal,
+        heapLimit,
+        containerLimit: this.limitMemory,
+        // The container is OOM-killed on rss, V8 aborts on heapLimit
+        rssPercentOfLimit: round((memory.rss / this.limitMemory) * 100, 1),
+        heapPercentOfLimit: round((memory.heapUsed / heapLimit) * 100, 1)
+      }
+    };
+  }
+
+  // Event loop delay over the same window as getStats, without the rest of it
+  getEventLoopDelay(): DelayPercentiles {
+    const current = this.delayMonitor ? [delaySamples(this.delayMonitor, DELAY_RESOLUTION_MS)] : [];
+    return delayPercentiles([...this.samples.map(sample => sample.delay), ...current]);
+  }
+
+  private takeSample(): Sample {
+    return { at: nowMs(), cpuMicros: cpuMicros(), eventLoop: performance.eventLoopUtilization(), delay: createHistogram() };
+  }
+
+  private sample(): void {
+    const sample = this.takeSample();
+    if (this.delayMonitor) {
+      sample.delay = delaySamples(this.delayMonitor, DELAY_RESOLUTION_MS);
+      this.delayMonitor.reset();
+    }
+    this.samples.push(sample);
+
+    // One sample older than the history is kept as the start of the window
+    while (this.samples.length > HISTORY_SECONDS + 1) {
+      this.samples.shift();
+    }
+    const since = this.samples[0].at;
+    this.gcPauses = this.gcPauses.filter(pause => pause.at >= since);
+  }
+}
@@ -5,20 +5,27 @@ import { TYPES } from '../types/inversify';
 import FormData from 'form-data';
 import fs from 'fs';
 import path from 'path';
+import zlib from 'zlib';
+import { ImportJobNotFoundError, ImportJobStateError } from '../services/importJobService';
+import { InvalidCursorError } from '../services/customerQuery';
+import { CustomerConflictError, CustomerNotFoundError, InvalidCustomerError } from '../services/customerService';
 
 // Mock implementation of ICustomerService
 const mockCustomerService = {
-  getCustomers: jest.fn().mockResolvedValue([
-    {
-      id: 1,
-      customerId: 'CUST001',
-      firstName: 'Test',
-      lastName: 'User',
-      email: 'test@example.com',
-      age: 30,
-      createdAt: new Date()
-    }
-  ]),
+  getCustomers: jest.fn().mockResolvedValue({
+    customers: [
+      {
+        id: 1,
+        customerId: 'CUST001',
+        firstName: 'Test',
+        lastName: 'User',
+        email: 'test@example.com',
+        age: 30,
+        createdAt: new Date()
+      }
+    ],
+    nextCursor: null
+  }),
   processCustomersFile: jest.fn(),
   getCustomerByEmail: jest.fn().mockResolvedValue({
     id: 1,
@@ -30,9 +37,76 @@ const mockCustomerService = {
     createdAt: new Date()
   }),
   getProcessingStats: jest.fn(),
+  getWorkload: jest.fn(),
+  cancelProcessing: jest.fn(),
+  pauseProcessing: jest.fn(),
+  resumeProcessing: jest.fn(),
+  getCustomer: jest.fn(),
+  searchCustomers: jest.fn(),
+  streamCustomers: jest.fn(),
+  updateCustomer: jest.fn(),
+  deleteCustomer: jest.fn(),
   // ...other methods if needed
 };
 
+// Mock implementation of IImportJobService
+const mockImportJobService = {
+  startImport: jest.fn().mockImplementation(async (filePath: string, options: any = {}) => ({
+    id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+    fileName: path.basename(filePath),
+    filePath,
+    status: 'queued',
+    dryRun: options.dryRun ?? false
+  })),
+  // Reads the whole upload like the real import does, so the route's byte count and drain run
+  importStream: jest.fn().mockImplementation(async (source: AsyncIterable<Buffer>, options: any) => {
+    let totalLines = 0;
+    try {
+      for await (const chunk of source) {
+        totalLines += chunk.toString().split('\n').filter(Boolean).length;
+      }
+    } catch (error) {
+      return { id: 'job-2', status: 'failed', errorMessage: (error as Error).message, processed: 0 };
+    }
+    return {
+      id: 'job-2',
+      fileName: options.fileName,
+      filePath: options.auditPath ?? '',
+      status: 'completed',
+      dryRun: options.dryRun ?? false,
+      totalLines,
+      processed: totalLines,
+      inserted: totalLines,
+      updated: 0,
+      errors: 0,
+      duplicates: 0
+    };
+  }),
+  resumeImport: jest.fn(),
+  cancelImport: jest.fn(),
+  cancelRunningImports: jest.fn(),
+  pauseImport: jest.fn(),
+  pauseRunningImports: jest.fn(),
+  resumePausedImport: jest.fn(),
+  resumePausedImports: jest.fn(),
+  recoverInterruptedJobs: jest.fn(),
+  getJob: jest.fn(),
+  listJobs: jest.fn()
+};
+
+// Mock implementation of IHealthService
+const capacity = { available: true, capacity: 2, activeImports: 0, activeWorkers: 0, queuedChunks: 0 };
+const mockHealthService = {
+  checkReadiness: jest.fn(),
+  getImportCapacity: jest.fn().mockReturnValue(capacity)
+};
+
+beforeAll(async () => {
+  const rebinding = await (container as any).rebind(TYPES.ImportJobService);
+  rebinding.toConstantValue(mockImportJobService);
+  (await (container as any).rebind(TYPES.HealthService)).toConstantValue(mockHealthService);
+});
+
 describe('GET /customers', () => {
   let app: ReturnType<typeof fastify>;
 
@@ -52,7 +126,7 @@ describe('GET /customers', () => {
     await app.close();
   });
 
-  it('should return all customers', async () => {
+  it('should return the first page of customers', async () => {
     const response = await app.inject({
       method: 'GET',
       url: '/customers'
@@ -69,9 +143,97 @@ describe('GET /customers', () => {
           email: 'test@example.com',
           age: 30
         })
-      ]
+      ],
+      nextCursor: null
+    });
+    expect(mockCustomerService.getCustomers).toHaveBeenCalledWith({
+      limit: 50, sort: 'id', order: 'asc', includeTotal: false, createdFrom: undefined, createdTo: undefined
+    });
+  });
+
+  it('should pass the filters, sort and cursor to the service', async () => {
+    mockCustomerService.getCustomers.mockResolvedValueOnce({ customers: [], nextCursor: 'next', total: 120 });
+    const response = await app.inject({
+      method: 'GET',
+      url: '/customers?limit=20&cursor=abc&sort=lastName&order=desc&emailDomain=example.com&minAge=18&maxAge=65'
+        + '&createdFrom=2026-04-01T00:00:00Z&customerIdPrefix=001&includeTotal=true'
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ customers: [], nextCursor: 'next', total: 120 });
+    expect(mockCustomerService.getCustomers).toHaveBeenLastCalledWith({
+      limit: 20,
+      cursor: 'abc',
+      sort: 'lastName',
+      order: 'desc',
+      emailDomain: 'example.com',
+      minAge: 18,
+      maxAge: 65,
+      customerIdPrefix: '001',
+      includeTotal: true,
+      createdFrom: new Date('2026-04-01T00:00:00Z'),
+      createdTo: undefined
+    });
+  });
+
+  it('should reject sorting on a field that is not allowed', async () => {
+    const response = await app.inject({ method: 'GET', url: '/customers?sort=firstName' });
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should reject page sizes over the maximum', async () => {
+    const response = await app.inject({ method: 'GET', url: '/customers?limit=5000' });
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should export the customers matching the filters as CSV', async () => {
+    mockCustomerService.streamCustomers.mockImplementationOnce(async function* () {
+      yield { id: 1, customerId: 'CUST001', firstName: 'Test', lastName: 'User', email: 'test@example.com', age: 30 };
+    });
+    const response = await app.inject({ method: 'GET', url: '/customers/export?format=csv&emailDomain=example.com' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="customers.csv"');
+    expect(response.body).toBe('customerId,firstName,lastName,email,age\nCUST001,Test,User,test@example.com,30\n');
+    expect(mockCustomerService.streamCustomers).toHaveBeenCalledWith({ emailDomain: 'example.com', createdFrom: undefined, createdTo: undefined });
+  });
+
+  it('should gzip the export on request', async () => {
+    mockCustomerService.streamCustomers.mockImplementationOnce(async function* () {
+      yield { id: 1, customerId: 'CUST001', firstName: 'Test', lastName: 'User', email: 'test@example.com', age: 30 };
     });
-    expect(mockCustomerService.getCustomers).toHaveBeenCalled();
+    const response = await app.inject({ method: 'GET', url: '/customers/export?gzip=true' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('application/gzip');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="customers.dat.gz"');
+    expect(zlib.gunzipSync(response.rawPayload).toString()).toBe('CUST001|Test|User|test@example.com|30\n');
+  });
+
+  it('should search customers', async () => {
+    mockCustomerService.searchCustomers.mockResolvedValueOnce([
+      { score: 1.8, customer: { id: 1, customerId: 'CUST001', firstName: 'María', lastName: 'Rodríguez', email: 'maria@example.com', age: 30, createdAt: new Date() } }
+    ]);
+    const response = await app.inject({ method: 'GET', url: '/customers/search?q=maria%20rod' });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).results).toEqual([
+      { score: 1.8, customer: expect.objectContaining({ customerId: 'CUST001', lastName: 'Rodríguez' }) }
+    ]);
+    expect(mockCustomerService.searchCustomers).toHaveBeenCalledWith('maria rod', 20);
+  });
+
+  it('should require a search query', async () => {
+    const response = await app.inject({ method: 'GET', url: '/customers/search' });
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return 400 for an invalid cursor', async () => {
+    mockCustomerService.getCustomers.mockRejectedValueOnce(new InvalidCursorError('Malformed cursor'));
+    const response = await app.inject({ method: 'GET', url: '/customers?cursor=garbage' });
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({ error: 'Invalid cursor', message: 'Malformed cursor' });
   });
   
 }); 
@@ -82,13 +244,6 @@ describe('POST /customers/:filename', () => {
   const testFilePath = `${process.cwd()}/clients/${testFilename}`;
 
   beforeAll(async () => {
-    // Mock processCustomersFile
-    mockCustomerService.processCustomersFile = jest.fn().mockResolvedValue({
-      processed: 10,
-      errors: 1,
-      duplicates: 2,
-      filePath: testFilePath
-    });
     // Ensure the binding is set
     const rebinding = await (container as any).rebind(TYPES.CustomerService);
     rebinding.toConstantValue(mockCustomerService);
@@ -109,22 +264,68 @@ describe('POST /customers/:filename', () => {
     await app.close();
   });
 
-  it('should process a customers file by filename', async () => {
+  it('should accept an import of a customers file by filename', async () => {
     const response = await app.inject({
       method: 'POST',
       url: `/customers/${testFilename}`
     });
 
-    expect(response.statusCode).toBe(200);
+    expect(response.statusCode).toBe(202);
     expect(JSON.parse(response.body)).toEqual(
       expect.objectContaining({
-        processed: 10,
-        errors: 1,
-        duplicates: 2,
+        jobId: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+        status: 'queued',
         filePath: testFilePath
       })
     );
-    expect(mockCustomerService.processCustomersFile).toHaveBeenCalledWith(testFilePath);
+    expect(mockImportJobService.startImport).toHaveBeenCalledWith(testFilePath, { format: undefined, duplicatePolicy: 'skip', dryRun: false });
+  });
+
+  it('should pass the requested input format to the import', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/customers/${testFilename}?format=fixed-width`
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(mockImportJobService.startImport).toHaveBeenLastCalledWith(testFilePath, { format: 'fixed-width', duplicatePolicy: 'skip', dryRun: false });
+  });
+
+  it('should pass the requested duplicate policy to the import', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/customers/${testFilename}?duplicatePolicy=keep-newest-by-line`
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(mockImportJobService.startImport).toHaveBeenLastCalledWith(testFilePath, { format: undefined, duplicatePolicy: 'keep-newest-by-line', dryRun: false });
+  });
+
+  it('should start a dry run when asked', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/customers/${testFilename}?dryRun=true`
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(JSON.parse(response.body)).toEqual(expect.objectContaining({ message: 'Dry run accepted', dryRun: true }));
+    expect(mockImportJobService.startImport).toHaveBeenLastCalledWith(testFilePath, { format: undefined, duplicatePolicy: 'skip', dryRun: true });
+  });
+
+  it('should return 400 for an unknown duplicate policy', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/customers/${testFilename}?duplicatePolicy=overwrite`
+    });
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return 400 for an unknown input format', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/customers/${testFilename}?format=xml`
+    });
+    expect(response.statusCode).toBe(400);
   });
 
   it('should return 404 if file does not exist', async () => {
@@ -141,11 +342,6 @@ describe('POST /customers/upload', () => {
   let app: ReturnType<typeof fastify>;
 
   beforeAll(async () => {
-    mockCustomerService.processCustomersFile = jest.fn().mockResolvedValue({
-      processed: 5,
-      errors: 0,
-      duplicates: 0
-    });
     const rebinding = await (container as any).rebind(TYPES.CustomerService);
     rebinding.toConstantValue(mockCustomerService);
     app = fastify();
@@ -163,7 +359,7 @@ describe('POST /customers/upload', () => {
     await app.close();
   });
 
-  it('should upload and process a customers file', async () => {
+  it('should upload a customers file and accept its import', async () => {
     const form = new FormData();
     form.append('file', Buffer.from('id,name\n1,Test'), { filename: 'test.csv', contentType: 'text/csv' });
     const response = await app.inject({
@@ -172,11 +368,163 @@ describe('POST /customers/upload', () => {
       payload: form.getBuffer(),
       headers: form.getHeaders()
     });
-    expect(response.statusCode).toBe(200);
+    expect(response.statusCode).toBe(202);
     const body = JSON.parse(response.body);
     expect(body).toHaveProperty('success', true);
-    expect(body).toHaveProperty('processed', 5);
-    expect(mockCustomerService.processCustomersFile).toHaveBeenCalled();
+    expect(body).toHaveProperty('jobId', '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f');
+    // The CSV content type selects the CSV parser
+    expect(mockImportJobService.startImport).toHaveBeenLastCalledWith(body.filePath, { format: 'csv', duplicatePolicy: 'skip', dryRun: false });
+  });
+
+  it('should start a dry run of an uploaded file when asked', async () => {
+    const form = new FormData();
+    form.append('file', Buffer.from('001001|Ana|Lopez|ana@example.com|34'), { filename: 'CLIENTES_IN_NEWFEED.dat', contentType: 'text/plain' });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/upload?dryRun=true&duplicatePolicy=upsert',
+      payload: form.getBuffer(),
+      headers: form.getHeaders()
+    });
+    expect(response.statusCode).toBe(202);
+    const body = JSON.parse(response.body);
+    expect(body).toEqual(expect.objectContaining({ message: 'File uploaded, dry run accepted', dryRun: true }));
+    expect(mockImportJobService.startImport).toHaveBeenLastCalledWith(body.filePath, { format: null, duplicatePolicy: 'upsert', dryRun: true });
+  });
+
+  it('should import a streamed upload without saving it', async () => {
+    const form = new FormData();
+    form.append('file', Buffer.from('001001|Ana|Lopez|ana@example.com|34\n001002|Luis|Perez|luis@example.com|41\n'), { filename: 'clients.dat', contentType: 'text/plain' });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/upload?stream=true',
+      payload: form.getBuffer(),
+      headers: form.getHeaders()
+    });
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toEqual(expect.objectContaining({
+      success: true,
+      jobId: 'job-2',
+      status: 'completed',
+      filePath: null,
+      size: 74,
+      totalLines: 2,
+      inserted: 2
+    }));
+    expect(mockImportJobService.importStream).toHaveBeenLastCalledWith(expect.anything(), {
+      fileName: 'clients.dat',
+      auditPath: null,
+      format: null,
+      duplicatePolicy: 'skip',
+      dryRun: false
+    });
+    expect(mockImportJobService.startImport).not.toHaveBeenCalledWith(expect.stringContaining('clients.dat'), expect.anything());
+  });
+
+  it('should save the raw upload when a streamed import is audited', async () => {
+    const form = new FormData();
+    form.append('file', Buffer.from('id,name\n1,Test'), { filename: 'audited.csv', contentType: 'text/csv' });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/upload?stream=true&audit=true',
+      payload: form.getBuffer(),
+      headers: form.getHeaders()
+    });
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.filePath).toEqual(path.join(process.cwd(), 'uploads', body.filename));
+    expect(body.filename).toMatch(/^\d+-audited\.csv$/);
+    expect(mockImportJobService.importStream).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({
+      auditPath: body.filePath,
+      format: 'csv'
+    }));
+  });
+
+  it('should return 413 with the job when a streamed upload exceeds the size limit', async () => {
+    const limited = fastify();
+    await limited.register(require('@fastify/multipart'), { limits: { fileSize: 16 } });
+    await limited.register(customerRoutes);
+    const form = new FormData();
+    form.append('file', Buffer.from('001001|Ana|Lopez|ana@example.com|34\n'), { filename: 'big.dat', contentType: 'text/plain' });
+    const response = await limited.inject({
+      method: 'POST',
+      url: '/customers/upload?stream=true',
+      payload: form.getBuffer(),
+      headers: form.getHeaders()
+    });
+    await limited.close();
+    expect(response.statusCode).toBe(413);
+    expect(JSON.parse(response.body)).toEqual(expect.objectContaining({ error: 'File too large', jobId: 'job-2', status: 'failed' }));
+  });
+
+  it('should return 413 and start no import when an uploaded file exceeds the size limit', async () => {
+    const limited = fastify();
+    await limited.register(require('@fastify/multipart'), { limits: { fileSize: 16 } });
+    await limited.register(customerRoutes);
+    mockImportJobService.startImport.mockClear();
+    const form = new FormData();
+    form.append('file', Buffer.from('001001|Ana|Lopez|ana@example.com|34\n'), { filename: 'too-big.dat', contentType: 'text/plain' });
+    const response = await limited.inject({
+      method: 'POST',
+      url: '/customers/upload',
+      payload: form.getBuffer(),
+      headers: form.getHeaders()
+    });
+    await limited.close();
+    expect(response.statusCode).toBe(413);
+    expect(JSON.parse(response.body)).toHaveProperty('error', 'File too large');
+    expect(mockImportJobService.startImport).not.toHaveBeenCalled();
+    // The partial file is not kept
+    const uploadsDir = path.join(process.cwd(), 'uploads');
+    expect(fs.readdirSync(uploadsDir).filter(f => f.endsWith('too-big.dat'))).toEqual([]);
+  });
+
+  it('should answer with the failed job when a streamed import fails partway through', async () => {
+    // Reads one chunk of a large upload, then fails like a database error would
+    mockImportJobService.importStream.mockImplementationOnce(async (source: AsyncIterable<Buffer>) => {
+      for await (const _chunk of source) {
+        break;
+      }
+      return { id: 'job-3', status: 'failed', errorMessage: 'Connection lost', processed: 0 };
+    });
+    const drained = fastify();
+    await drained.register(require('@fastify/multipart'));
+    await drained.register(customerRoutes);
+    let raw: any;
+    drained.addHook('onResponse', async request => { raw = request.raw; });
+    const form = new FormData();
+    form.append('file', Buffer.from('001001|Ana|Lopez|ana@example.com|34\n'.repeat(20000)), { filename: 'big.dat', contentType: 'text/plain' });
+    const response = await drained.inject({
+      method: 'POST',
+      url: '/customers/upload?stream=true',
+      payload: form.getBuffer(),
+      headers: form.getHeaders()
+    });
+    expect(response.statusCode).toBe(500);
+    expect(JSON.parse(response.body)).toEqual(expect.objectContaining({ error: 'Import failed', message: 'Connection lost', jobId: 'job-3' }));
+    // The rest of the upload is still read, so the client is not left waiting
+    for (let i = 0; i < 100 && !raw.readableEnded; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await drained.close();
+    expect(raw.readableEnded).toBe(true);
+  });
+
+  it('should turn an upload away with 503 on a replica at capacity', async () => {
+    mockHealthService.getImportCapacity.mockReturnValueOnce({ ...capacity, available: false, activeImports: 2 });
+    mockImportJobService.startImport.mockClear();
+    const form = new FormData();
+    form.append('file', Buffer.from('001001|Ana|Lopez|ana@example.com|34'), { filename: 'busy.dat', contentType: 'text/plain' });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/upload',
+      payload: form.getBuffer(),
+      headers: form.getHeaders()
+    });
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['retry-after']).toBe('60');
+    expect(JSON.parse(response.body)).toHaveProperty('error', 'Import capacity reached');
+    expect(mockImportJobService.startImport).not.toHaveBeenCalled();
   });
 
   it('should return 400 if no file uploaded', async () => {
@@ -246,16 +594,105 @@ describe('GET /customers/email/:email', () => {
   });
 });
 
+describe('GET, PATCH and DELETE /customers/:customerId', () => {
+  let app: ReturnType<typeof fastify>;
+  const customer = {
+    id: 1,
+    customerId: 'CUST001',
+    firstName: 'Test',
+    lastName: 'User',
+    email: 'test@example.com',
+    age: 30,
+    createdAt: new Date()
+  };
+
+  beforeAll(async () => {
+    const rebinding = await (container as any).rebind(TYPES.CustomerService);
+    rebinding.toConstantValue(mockCustomerService);
+    app = fastify();
+    await app.register(customerRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should return a customer by customerId', async () => {
+    mockCustomerService.getCustomer.mockResolvedValueOnce(customer);
+    const response = await app.inject({ method: 'GET', url: '/customers/CUST001' });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).customer).toEqual(expect.objectContaining({ customerId: 'CUST001', age: 30 }));
+    expect(mockCustomerService.getCustomer).toHaveBeenCalledWith('CUST001');
+  });
+
+  it('should return 404 for an unknown customerId', async () => {
+    mockCustomerService.getCustomer.mockResolvedValueOnce(null);
+    const response = await app.inject({ method: 'GET', url: '/customers/MISSING' });
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should update a customer', async () => {
+    mockCustomerService.updateCustomer.mockResolvedValueOnce({ ...customer, email: 'fixed@example.com', updatedAt: new Date() });
+    const response = await app.inject({ method: 'PATCH', url: '/customers/CUST001', payload: { email: 'fixed@example.com' } });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).customer.email).toBe('fixed@example.com');
+    expect(mockCustomerService.updateCustomer).toHaveBeenCalledWith('CUST001', { email: 'fixed@example.com' });
+  });
+
+  it('should reject an empty update', async () => {
+    const response = await app.inject({ method: 'PATCH', url: '/customers/CUST001', payload: {} });
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return 422 with the rejection when the update breaks the record rules', async () => {
+    mockCustomerService.updateCustomer.mockRejectedValueOnce(new InvalidCustomerError({
+      valid: false, reason: 'AGE_OUT_OF_RANGE', field: 'age', message: 'Age out of range (0-150): 200'
+    }));
+    const response = await app.inject({ method: 'PATCH', url: '/customers/CUST001', payload: { age: 200 } });
+    expect(response.statusCode).toBe(422);
+    expect(JSON.parse(response.body)).toEqual({
+      error: 'Invalid customer', reason: 'AGE_OUT_OF_RANGE', field: 'age', message: 'Age out of range (0-150): 200'
+    });
+  });
+
+  it('should return 409 when the new customerId is taken', async () => {
+    mockCustomerService.updateCustomer.mockRejectedValueOnce(new CustomerConflictError('CUST002'));
+    const response = await app.inject({ method: 'PATCH', url: '/customers/CUST001', payload: { customerId: 'CUST002' } });
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Customer CUST002 already exists');
+  });
+
+  it('should return 404 when updating an unknown customer', async () => {
+    mockCustomerService.updateCustomer.mockRejectedValueOnce(new CustomerNotFoundError('MISSING'));
+    const response = await app.inject({ method: 'PATCH', url: '/customers/MISSING', payload: { age: 40 } });
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should delete a customer', async () => {
+    mockCustomerService.deleteCustomer.mockResolvedValueOnce(undefined);
+    const response = await app.inject({ method: 'DELETE', url: '/customers/CUST001' });
+    expect(response.statusCode).toBe(204);
+    expect(mockCustomerService.deleteCustomer).toHaveBeenCalledWith('CUST001');
+
+    mockCustomerService.deleteCustomer.mockRejectedValueOnce(new CustomerNotFoundError('CUST001'));
+    const again = await app.inject({ method: 'DELETE', url: '/customers/CUST001' });
+    expect(again.statusCode).toBe(404);
+  });
+});
+
 describe('GET /customers/processing/status', () => {
   let app: ReturnType<typeof fastify>;
 
   beforeAll(async () => {
     mockCustomerService.getProcessingStats = jest.fn().mockReturnValue({
       processed: 100,
+      inserted: 90,
+      updated: 10,
       errors: 2,
+      errorsByReason: { INVALID_EMAIL: 1, TOO_FEW_FIELDS: 1 },
       duplicates: 3,
       totalLines: 200,
-      currentLine: 100,
+      progress: 50,
       startTime: new Date(Date.now() - 5000),
       isConcurrent: true,
       activeWorkers: 2,
@@ -282,11 +719,14 @@ describe('GET /customers/processing/status', () => {
     expect(body).toHaveProperty('isProcessing', true);
     expect(body).toHaveProperty('isConcurrent', true);
     expect(body.stats).toHaveProperty('processed', 100);
+    expect(body.stats).toHaveProperty('inserted', 90);
+    expect(body.stats).toHaveProperty('updated', 10);
     expect(body.stats).toHaveProperty('errors', 2);
+    expect(body.stats).toHaveProperty('errorsByReason', { INVALID_EMAIL: 1, TOO_FEW_FIELDS: 1 });
     expect(body.stats).toHaveProperty('duplicates', 3);
     expect(body.stats).toHaveProperty('totalLines', 200);
-    expect(body.stats).toHaveProperty('currentLine', 100);
-    expect(body.stats).toHaveProperty('progress');
+    expect(body.stats).not.toHaveProperty('currentLine');
+    expect(body.stats).toHaveProperty('progress', 50);
     expect(body.stats).toHaveProperty('rate');
     expect(body.stats).toHaveProperty('elapsedTime');
     expect(body.stats).toHaveProperty('activeWorkers', 2);
@@ -294,6 +734,15 @@ describe('GET /customers/processing/status', () => {
     expect(body.stats).toHaveProperty('totalChunks', 10);
   });
 
+  it('should report on the job passed in the query string', async () => {
+    (mockCustomerService.getProcessingStats as jest.Mock).mockClear();
+    await app.inject({
+      method: 'GET',
+      url: '/customers/processing/status?jobId=6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    expect(mockCustomerService.getProcessingStats).toHaveBeenCalledWith('6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f');
+  });
+
   it('should return isProcessing false if no processing stats', async () => {
     (mockCustomerService.getProcessingStats as jest.Mock).mockReturnValueOnce(null);
     const response = await app.inject({
@@ -303,11 +752,65 @@ describe('GET /customers/processing/status', () => {
     expect(response.statusCode).toBe(200);
     const body = JSON.parse(response.body);
     expect(body).toEqual({
+      jobId: null,
       isProcessing: false,
       isConcurrent: false,
+      isPaused: false,
       stats: null
     });
   });
+
+  it('should report a paused import and how long it has been paused', async () => {
+    const now = Date.now();
+    (mockCustomerService.getProcessingStats as jest.Mock).mockReturnValueOnce({
+      jobId: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+      processed: 100,
+      errors: 0,
+      duplicates: 0,
+      totalLines: 200,
+      currentLine: 100,
+      startTime: new Date(now - 60000),
+      paused: true,
+      pausedAt: new Date(now - 30000),
+      pausedMs: 40000
+    });
+    const response = await app.inject({
+      method: 'GET',
+      url: '/customers/processing/status?jobId=6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('isPaused', true);
+    expect(body.stats).toHaveProperty('pausedFor', 30);
+    expect(body.stats).toHaveProperty('totalPausedTime', 40);
+    expect(body.stats).toHaveProperty('rate', 5); // 100 records in the 20 seconds it wasn't paused
+  });
+
+  it('should report how the import is tuned', async () => {
+    const tuning = {
+      batchSize: 250,
+      workers: 3,
+      memoryPressure: 0.78,
+      readingHeld: false,
+      batchLatencyMs: 420,
+      adjustments: [{ at: new Date().toISOString(), batchSize: 250, workers: 3, reason: 'memory at 78% of the limit' }]
+    };
+    (mockCustomerService.getProcessingStats as jest.Mock).mockReturnValueOnce({
+      jobId: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+      processed: 100,
+      errors: 0,
+      duplicates: 0,
+      totalLines: 200,
+      progress: 50,
+      startTime: new Date(),
+      isConcurrent: true,
+      tuning
+    });
+    const response = await app.inject({
+      method: 'GET',
+      url: '/customers/processing/status?jobId=6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    expect(JSON.parse(response.body).stats.tuning).toEqual(tuning);
+  });
 });
 
 describe('POST /customers/processing/stop', () => {
@@ -324,7 +827,10 @@ describe('POST /customers/processing/stop', () => {
     await app.close();
   });
 
-  it('should return stopped true and a message', async () => {
+  it('should cancel every running import and report what was stopped', async () => {
+    mockImportJobService.cancelRunningImports.mockResolvedValueOnce([
+      { id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', status: 'cancelled', processed: 4000, inserted: 4000, updated: 0, errors: 12, duplicates: 3 }
+    ]);
     const response = await app.inject({
       method: 'POST',
       url: '/customers/processing/stop'
@@ -332,6 +838,125 @@ describe('POST /customers/processing/stop', () => {
     expect(response.statusCode).toBe(200);
     const body = JSON.parse(response.body);
     expect(body).toHaveProperty('stopped', true);
-    expect(body).toHaveProperty('message', 'Processing stop requested');
+    expect(body).toHaveProperty('message', 'Stopped 1 import(s)');
+    expect(body.imports).toEqual([
+      { id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', status: 'cancelled', processed: 4000, inserted: 4000, updated: 0, errors: 12, duplicates: 3 }
+    ]);
+  });
+
+  it('should cancel a single import by job id', async () => {
+    mockImportJobService.cancelImport.mockResolvedValueOnce({ id: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d', status: 'cancelled', processed: 10 });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/stop?jobId=a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d'
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).imports[0]).toEqual(expect.objectContaining({ id: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d', status: 'cancelled' }));
+    expect(mockImportJobService.cancelImport).toHaveBeenCalledWith('a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d');
+  });
+
+  it('should return 409 when no import is running', async () => {
+    mockImportJobService.cancelRunningImports.mockResolvedValueOnce([]);
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/stop'
+    });
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'No import is running');
+  });
+
+  it('should return 409 when the import is not running', async () => {
+    mockImportJobService.cancelImport.mockRejectedValueOnce(new ImportJobStateError('Import job 6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f is completed and cannot be cancelled'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/stop?jobId=6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    expect(response.statusCode).toBe(409);
   });
-}); 
\ No newline at end of file
+
+  it('should return 404 for an unknown import', async () => {
+    mockImportJobService.cancelImport.mockRejectedValueOnce(new ImportJobNotFoundError('missing'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/stop?jobId=00000000-0000-4000-8000-000000000000'
+    });
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should return 400 for a job id that is not a GUID', async () => {
+    mockImportJobService.cancelImport.mockClear();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/stop?jobId=not-a-job'
+    });
+    expect(response.statusCode).toBe(400);
+    expect(mockImportJobService.cancelImport).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /customers/processing/pause and /resume', () => {
+  let app: ReturnType<typeof fastify>;
+
+  beforeAll(async () => {
+    const rebinding = await (container as any).rebind(TYPES.CustomerService);
+    rebinding.toConstantValue(mockCustomerService);
+    app = fastify();
+    await app.register(customerRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should pause a single import by job id', async () => {
+    mockImportJobService.pauseImport.mockResolvedValueOnce({ id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', status: 'paused', processed: 500 });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/pause?jobId=6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('message', 'Paused 1 import(s)');
+    expect(body.imports[0]).toEqual(expect.objectContaining({ id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', status: 'paused' }));
+    expect(mockImportJobService.pauseImport).toHaveBeenCalledWith('6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f');
+  });
+
+  it('should return 409 when no import is running', async () => {
+    mockImportJobService.pauseRunningImports.mockResolvedValueOnce([]);
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/pause'
+    });
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'No import is running');
+  });
+
+  it('should return 409 when the import is already paused', async () => {
+    mockImportJobService.pauseImport.mockRejectedValueOnce(new ImportJobStateError('Import job 6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f is already paused'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/pause?jobId=6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Import job 6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f is already paused');
+  });
+
+  it('should resume every paused import', async () => {
+    mockImportJobService.resumePausedImports.mockResolvedValueOnce([{ id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', status: 'running' }]);
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/resume'
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Resumed 1 import(s)');
+  });
+
+  it('should return 404 when resuming an unknown import', async () => {
+    mockImportJobService.resumePausedImport.mockRejectedValueOnce(new ImportJobNotFoundError('missing'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/customers/processing/resume?jobId=00000000-0000-4000-8000-000000000000'
+    });
+    expect(response.statusCode).toBe(404);
+  });
+});
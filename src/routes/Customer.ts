@@ -1,19 +1,177 @@
 import { container } from "../config/container";
-import { ICustomerService } from "../interfaces/services";
+import { uploadLimitBytes } from "../config/limits";
+import { CustomerFilters, CustomerQuery, CustomerUpdate, ICustomerService, IHealthService, IImportJobService } from "../interfaces/services";
 import { TYPES } from "../types/inversify";
 import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import * as path from 'path';
 import * as fs from 'fs';
+import * as stream from 'stream';
 import { pipeline } from 'stream/promises';
+import * as zlib from 'zlib';
 import { createWriteStream } from 'fs';
+import { formatFromMimeType, InputFormat, INPUT_FORMATS } from "../services/customerParsers";
+import { DUPLICATE_POLICIES, DuplicatePolicy } from "../services/customerBulkWriter";
+import { ImportJobNotFoundError, ImportJobStateError } from "../services/importJobService";
+import { IMPORT_RETRY_AFTER_SECONDS, importCapacityReached } from "../services/healthService";
+import { CustomerConflictError, CustomerNotFoundError, InvalidCustomerError } from "../services/customerService";
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, ExportFormat, exportCustomers } from "../services/customerExport";
+import { CUSTOMER_SORT_FIELDS, DEFAULT_PAGE_SIZE, InvalidCursorError, MAX_PAGE_SIZE } from "../services/customerQuery";
+
+interface ImportQuerystring {
+    format?: InputFormat;
+    duplicatePolicy?: DuplicatePolicy;
+    dryRun?: boolean;
+}
+
+const importQuerystring = {
+    type: 'object',
+    properties: {
+        format: {
+            type: 'string',
+            enum: INPUT_FORMATS,
+            description: 'Input format; detected from the extension or the content when omitted'
+        },
+        duplicatePolicy: {
+            type: 'string',
+            enum: DUPLICATE_POLICIES,
+            default: 'skip',
+            description: 'What to do with a customerId that already exists: skip it, upsert it, fail the import, or keep the newest line'
+        },
+        dryRun: {
+            type: 'boolean',
+            default: false,
+            description: 'Validate the file and run the duplicate checks without writing customers. The job then reports what the import would insert, update, skip and reject'
+        }
+    }
+};
+
+interface UploadQuerystring extends ImportQuerystring {
+    stream?: boolean;
+    audit?: boolean;
+}
+
+const uploadQuerystring = {
+    type: 'object',
+    properties: {
+        ...importQuerystring.properties,
+        stream: {
+            type: 'boolean',
+            default: false,
+            description: 'Import the lines while the upload is received instead of saving the file first. The response then waits for the import and returns the finished job'
+        },
+        audit: {
+            type: 'boolean',
+            default: false,
+            description: 'With stream, also save the raw upload to disk; a failed streamed import can only be resumed when it was saved'
+        }
+    }
+};
+
+// Dates arrive as ISO strings in the querystring
+type WithDateStrings<T> = Omit<T, 'createdFrom' | 'createdTo'> & {
+    createdFrom?: string;
+    createdTo?: string;
+};
+
+function withDates<T extends { createdFrom?: string, createdTo?: string }>({ createdFrom, createdTo, ...rest }: T) {
+    return {
+        ...rest,
+        createdFrom: createdFrom ? new Date(createdFrom) : undefined,
+        createdTo: createdTo ? new Date(createdTo) : undefined
+    };
+}
+
+// Filters shared by the customer list and the export
+const customerFilterProperties = {
+    lastName: { type: 'string' },
+    emailDomain: { type: 'string', description: 'e.g. example.com' },
+    customerIdPrefix: { type: 'string' },
+    minAge: { type: 'integer', minimum: 0 },
+    maxAge: { type: 'integer', minimum: 0 },
+    createdFrom: { type: 'string', format: 'date-time', description: 'Created at or after' },
+    createdTo: { type: 'string', format: 'date-time', description: 'Created before' }
+};
+
+const customerSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'number' },
+        customerId: { type: 'string' },
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        email: { type: 'string' },
+        age: { type: 'number' },
+        importJobId: { type: ['string', 'null'] },
+        sourceLine: { type: ['number', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: ['string', 'null'], format: 'date-time' }
+    }
+};
+
+const customerParams = {
+    type: 'object',
+    properties: {
+        customerId: { type: 'string', description: 'The customerId of the customer' }
+    },
+    required: ['customerId']
+};
+
+const customerErrorSchema = {
+    type: 'object',
+    properties: {
+        error: { type: 'string' },
+        message: { type: 'string' }
+    }
+};
+
+// Import jobs affected by a stop, pause or resume request
+const processingControlResponse = {
+    type: 'object',
+    properties: {
+        message: { type: 'string' },
+        imports: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string' },
+                    status: { type: 'string' },
+                    processed: { type: 'number' },
+                    inserted: { type: 'number' },
+                    updated: { type: 'number' },
+                    errors: { type: 'number' },
+                    duplicates: { type: 'number' }
+                }
+            }
+        }
+    }
+};
+
+const processingControlErrors = {
+    404: {
+        type: 'object',
+        properties: {
+            error: { type: 'string' }
+        }
+    },
+    409: {
+        type: 'object',
+        properties: {
+            error: { type: 'string' },
+            message: { type: 'string' }
+        }
+    }
+};
 
 export default async function customerRoutes (fastify: FastifyInstance) {
     const customerService = container.get<ICustomerService>(TYPES.CustomerService);
+    const importJobService = container.get<IImportJobService>(TYPES.ImportJobService);
+    const healthService = container.get<IHealthService>(TYPES.HealthService);
 
     // Process customers file by filename
     fastify.post('/customers/:filename', {
         schema: {
-            description: 'Process a customers file by filename',
+            description: 'Start an import of a customers file by filename. Returns a job to follow on /imports/:id',
             tags: ['customers'],
             params: {
                 type: 'object',
@@ -25,14 +183,15 @@ export default async function customerRoutes (fastify: FastifyInstance) {
                 },
                 required: ['filename']
             },
+            querystring: importQuerystring,
             response: {
-                200: {
+                202: {
                     type: 'object',
                     properties: {
                         message: { type: 'string' },
-                        processed: { type: 'number' },
-                        errors: { type: 'number' },
-                        duplicates: { type: 'number' },
+                        jobId: { type: 'string' },
+                        status: { type: 'string' },
+                        dryRun: { type: 'boolean' },
                         filePath: { type: 'string' }
                     }
                 },
@@ -51,11 +210,23 @@ export default async function customerRoutes (fastify: FastifyInstance) {
                         message: {type: 'string'},
                         details: {type: 'string'}
                     }
+                },
+                503: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' },
+                        message: { type: 'string' }
+                    }
                 }
             }
         }
-    }, async (request: FastifyRequest<{ Params: { filename: string } }>, reply: FastifyReply) => {
+    }, async (request: FastifyRequest<{ Params: { filename: string }, Querystring: ImportQuerystring }>, reply: FastifyReply) => {
         try{
+            const capacity = healthService.getImportCapacity();
+            if (!capacity.available) {
+                return reply.status(503).header('Retry-After', IMPORT_RETRY_AFTER_SECONDS).send(importCapacityReached(capacity));
+            }
+
             const { filename } = request.params;
             const filePath = path.join(process.cwd(), 'clients', filename);
 
@@ -63,12 +234,13 @@ export default async function customerRoutes (fastify: FastifyInstance) {
                 return reply.status(404).send({ error: 'File not found' });
             }
 
-            const result = await customerService.processCustomersFile(filePath);
-            return reply.status(200).send({
-                message: 'File processed successfully',
-                processed: result.processed,
-                errors: result.errors,
-                duplicates: result.duplicates,
+            const { format, duplicatePolicy, dryRun } = request.query;
+            const job = await importJobService.startImport(filePath, { format, duplicatePolicy, dryRun });
+            return reply.status(202).send({
+                message: dryRun ? 'Dry run accepted' : 'Import accepted',
+                jobId: job.id,
+                status: job.status,
+                dryRun: job.dryRun,
                 filePath
             });
         }catch (error) {
@@ -88,12 +260,19 @@ export default async function customerRoutes (fastify: FastifyInstance) {
     // Upload and process customers file
     fastify.post('/customers/upload', {
         schema: {
-            description: 'Upload and process a customers file',
+            description: 'Upload a customers file and start importing it. Returns a job to follow on /imports/:id, or with stream the finished job',
             tags: ['customers'],
-            consumes: ['multipart/form-data']
+            consumes: ['multipart/form-data'],
+            querystring: uploadQuerystring
         }
-    }, async (request: FastifyRequest, reply: FastifyReply) => {
+    }, async (request: FastifyRequest<{ Querystring: UploadQuerystring }>, reply: FastifyReply) => {
         try {
+            // Turned away before the upload is read, so a busy replica stores nothing
+            const capacity = healthService.getImportCapacity();
+            if (!capacity.available) {
+                return reply.status(503).header('Retry-After', IMPORT_RETRY_AFTER_SECONDS).send(importCapacityReached(capacity));
+            }
+
             const data = await (request as any).file();
             
             if (!data) {
@@ -101,10 +280,10 @@ export default async function customerRoutes (fastify: FastifyInstance) {
             }
 
             // Validate file type
-            const allowedTypes = ['text/plain', 'application/octet-stream', 'text/csv'];
+            const allowedTypes = ['text/plain', 'application/octet-stream', 'text/csv', 'application/x-ndjson'];
             if (data.mimetype && !allowedTypes.includes(data.mimetype)) {
                 return reply.status(400).send({ 
-                    error: 'Invalid file type. Please upload a text or CSV file.' 
+                    error: 'Invalid file type. Please upload a text, CSV or NDJSON file.' 
                 });
             }
 
@@ -119,26 +298,97 @@ export default async function customerRoutes (fastify: FastifyInstance) {
             const timestamp = Date.now();
             const filename = `${timestamp}-${originalName}`;
             const filePath = path.join(uploadsDir, filename);
+            // A CSV/NDJSON content type picks the parser
+            const format = request.query.format ?? formatFromMimeType(data.mimetype);
+            const { duplicatePolicy, dryRun, stream, audit } = request.query;
+
+            if (stream) {
+                let size = 0;
+                async function* received(): AsyncGenerator<Buffer> {
+                    // Kept open when the import stops early: a destroyed file stream stalls the multipart parser and the rest of the request with it
+                    for await (const chunk of data.file.iterator({ destroyOnReturn: false })) {
+                        size += chunk.length;
+                        yield chunk;
+                    }
+                    // The multipart plugin just ends a stream cut at the limit; fail the import rather than complete it on part of the file
+                    if (data.file.truncated) {
+                        throw new Error(`Upload cut at the ${uploadLimitBytes() / 1024 / 1024}MB limit after ${size} bytes`);
+                    }
+                }
+
+                const auditPath = audit ? filePath : null;
+                const job = await importJobService.importStream(received(), { fileName: originalName, auditPath, format, duplicatePolicy, dryRun });
+                // A failed or cancelled import stops reading; drain the rest so the request can complete (an audit copy already took it)
+                data.file.resume();
+
+                if (data.file.truncated) {
+                    return reply.status(413).send({
+                        error: 'File too large',
+                        message: `The upload exceeds the ${uploadLimitBytes() / 1024 / 1024}MB limit; the import stopped there`,
+                        jobId: job.id,
+                        status: job.status,
+                        processed: job.processed
+                    });
+                }
+                if (job.status === 'failed') {
+                    return reply.status(500).send({
+                        error: 'Import failed',
+                        message: job.errorMessage,
+                        jobId: job.id,
+                        status: job.status,
+                        processed: job.processed
+                    });
+                }
+
+                return reply.status(200).send({
+                    success: job.status === 'completed',
+                    message: job.status === 'completed'
+                        ? (dryRun ? 'File streamed, dry run finished' : 'File streamed and imported')
+                        : `Streamed import ${job.status}`,
+                    jobId: job.id,
+                    status: job.status,
+                    dryRun: job.dryRun,
+                    filename: auditPath ? filename : null,
+                    originalName: originalName,
+                    filePath: auditPath,
+                    size,
+                    totalLines: job.totalLines,
+                    processed: job.processed,
+                    inserted: job.inserted,
+                    updated: job.updated,
+                    errors: job.errors,
+                    duplicates: job.duplicates
+                });
+            }
 
             // Save the uploaded file
             const writeStream = createWriteStream(filePath);
             await pipeline(data.file, writeStream);
 
-            // Process the uploaded file
-            const result = await customerService.processCustomersFile(filePath);
+            // The multipart plugin ends a file cut at the limit without an error; never import part of one
+            if (data.file.truncated) {
+                await fs.promises.unlink(filePath);
+                return reply.status(413).send({
+                    error: 'File too large',
+                    message: `The upload exceeds the ${uploadLimitBytes() / 1024 / 1024}MB limit`
+                });
+            }
 
             const stats = fs.statSync(filePath);
 
-            return reply.status(200).send({
+            // Process the uploaded file in the background
+            const job = await importJobService.startImport(filePath, { format, duplicatePolicy, dryRun });
+
+            return reply.status(202).send({
                 success: true,
-                message: 'File uploaded and processed successfully',
+                message: dryRun ? 'File uploaded, dry run accepted' : 'File uploaded, import accepted',
+                jobId: job.id,
+                status: job.status,
+                dryRun: job.dryRun,
                 filename: filename,
                 originalName: originalName,
                 filePath: filePath,
-                size: stats.size,
-                processed: result.processed,
-                errors: result.errors,
-                duplicates: result.duplicates
+                size: stats.size
             });
 
         } catch (error) {
@@ -158,15 +408,46 @@ export default async function customerRoutes (fastify: FastifyInstance) {
     //Get customers
     fastify.get('/customers', {
         schema: {
-            description: 'Get all customers',
+            description: 'Get customers one page at a time. Pass the nextCursor of a page, with the same filters, sort and order, to get the next one; it is null on the last page',
             tags: ['customers'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+                    cursor: { type: 'string', description: 'nextCursor of the previous page' },
+                    sort: { type: 'string', enum: CUSTOMER_SORT_FIELDS, default: 'id' },
+                    order: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+                    ...customerFilterProperties,
+                    includeTotal: { type: 'boolean', default: false, description: 'Also count every customer matching the filters' }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        customers: { type: 'array', items: customerSchema },
+                        nextCursor: { type: ['string', 'null'] },
+                        total: { type: 'integer' }
+                    }
+                },
+                400: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' },
+                        message: { type: 'string' }
+                    }
+                }
+            }
         }
-    }, async (request: FastifyRequest, reply: FastifyReply) => {
+    }, async (request: FastifyRequest<{ Querystring: WithDateStrings<CustomerQuery> }>, reply: FastifyReply) => {
         try {
-            const customers = await customerService.getCustomers();
+            const page = await customerService.getCustomers(withDates(request.query));
 
-            return reply.status(200).send({ customers });
+            return reply.status(200).send(page);
         } catch (error) {
+            if (error instanceof InvalidCursorError) {
+                return reply.status(400).send({ error: 'Invalid cursor', message: error.message });
+            }
             fastify.log.error('Error getting customers:', error);
             return reply.status(500).send({
                 error: 'Internal server error',
@@ -206,22 +487,238 @@ export default async function customerRoutes (fastify: FastifyInstance) {
         }
     });
 
+    // Export customers
+    fastify.get('/customers/export', {
+        schema: {
+            description: 'Download every customer matching the filters, in id order, as a .dat file in the layout imports read, CSV or NDJSON. Rows are read from SQL Server page by page while the response is sent, so exports of any size use the same memory',
+            tags: ['customers'],
+            produces: ['text/plain', 'text/csv', 'application/x-ndjson', 'application/gzip'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    format: { type: 'string', enum: EXPORT_FORMATS, default: 'dat' },
+                    gzip: { type: 'boolean', default: false, description: 'Send a gzip-compressed file' },
+                    ...customerFilterProperties
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Querystring: WithDateStrings<CustomerFilters> & { format: ExportFormat, gzip: boolean } }>, reply: FastifyReply) => {
+        try {
+            const { format, gzip, ...filters } = request.query;
+
+            const lines = stream.Readable.from(exportCustomers(customerService.streamCustomers(withDates(filters)), format));
+            // A failed read destroys the gzip stream too, which aborts the response
+            const body = gzip ? stream.pipeline(lines, zlib.createGzip(), () => undefined) : lines;
+
+            const downloadName = `customers.${format}${gzip ? '.gz' : ''}`;
+            return reply
+                .status(200)
+                .header('Content-Type', gzip ? 'application/gzip' : EXPORT_CONTENT_TYPES[format])
+                .header('Content-Disposition', `attachment; filename="${downloadName}"`)
+                .send(body);
+        } catch (error) {
+            fastify.log.error('Error exporting customers:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while exporting customers'
+            });
+        }
+    });
+
+    // Search customers
+    fastify.get('/customers/search', {
+        schema: {
+            description: 'Search customers by name or email, ignoring accents and case ("maria rodriguez" finds María Rodríguez). Every word must match a name or email word exactly, as its beginning or within a typo or two after its first three letters; results whose name or email starts with the query come first',
+            tags: ['customers'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    q: { type: 'string', minLength: 1, maxLength: 200, description: 'Words to look for' },
+                    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+                },
+                required: ['q']
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        results: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    score: { type: 'number' },
+                                    customer: customerSchema
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Querystring: { q: string, limit?: number } }>, reply: FastifyReply) => {
+        try {
+            const { q, limit } = request.query;
+            const results = await customerService.searchCustomers(q, limit);
+
+            return reply.status(200).send({ results });
+        } catch (error) {
+            fastify.log.error('Error searching customers:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while searching customers'
+            });
+        }
+    });
+
+    // Get customer by customerId
+    fastify.get('/customers/:customerId', {
+        schema: {
+            description: 'Get a customer by customerId',
+            tags: ['customers'],
+            params: customerParams,
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        customer: customerSchema
+                    }
+                },
+                404: customerErrorSchema
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { customerId: string } }>, reply: FastifyReply) => {
+        try {
+            const customer = await customerService.getCustomer(request.params.customerId);
+
+            if (!customer) {
+                return reply.status(404).send({ error: 'Customer not found' });
+            }
+
+            return reply.status(200).send({ customer });
+        } catch (error) {
+            fastify.log.error('Error getting customer:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while getting the customer'
+            });
+        }
+    });
+
+    // Update a customer
+    fastify.patch('/customers/:customerId', {
+        schema: {
+            description: 'Fix a single customer without re-importing a file. The updated record must pass the same rules as an imported line (422 otherwise), and a new customerId must not belong to another customer (409)',
+            tags: ['customers'],
+            params: customerParams,
+            body: {
+                type: 'object',
+                properties: {
+                    customerId: { type: 'string', maxLength: 255 },
+                    firstName: { type: 'string', maxLength: 255 },
+                    lastName: { type: 'string', maxLength: 255 },
+                    email: { type: 'string', maxLength: 255 },
+                    age: { type: 'integer' }
+                },
+                additionalProperties: false,
+                minProperties: 1
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        customer: customerSchema
+                    }
+                },
+                404: customerErrorSchema,
+                409: customerErrorSchema,
+                422: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' },
+                        reason: { type: 'string' },
+                        field: { type: ['string', 'null'] },
+                        message: { type: 'string' }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { customerId: string }, Body: CustomerUpdate }>, reply: FastifyReply) => {
+        try {
+            const customer = await customerService.updateCustomer(request.params.customerId, request.body);
+            return reply.status(200).send({ customer });
+        } catch (error) {
+            if (error instanceof CustomerNotFoundError) {
+                return reply.status(404).send({ error: 'Customer not found' });
+            }
+            if (error instanceof CustomerConflictError) {
+                return reply.status(409).send({ error: 'Customer already exists', message: error.message });
+            }
+            if (error instanceof InvalidCustomerError) {
+                const { reason, field, message } = error.rejection;
+                return reply.status(422).send({ error: 'Invalid customer', reason, field, message });
+            }
+            fastify.log.error('Error updating customer:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while updating the customer'
+            });
+        }
+    });
+
+    // Delete a customer
+    fastify.delete('/customers/:customerId', {
+        schema: {
+            description: 'Delete a customer. A later import of the same customerId inserts it again',
+            tags: ['customers'],
+            params: customerParams,
+            response: {
+                404: customerErrorSchema
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { customerId: string } }>, reply: FastifyReply) => {
+        try {
+            await customerService.deleteCustomer(request.params.customerId);
+            return reply.status(204).send();
+        } catch (error) {
+            if (error instanceof CustomerNotFoundError) {
+                return reply.status(404).send({ error: 'Customer not found' });
+            }
+            fastify.log.error('Error deleting customer:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while deleting the customer'
+            });
+        }
+    });
+
     // Get processing status
     fastify.get('/customers/processing/status', {
         schema: {
-            description: 'Get current file processing status',
+            description: 'Get file processing status of a job, or of the latest running import',
             tags: ['customers'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    jobId: { type: 'string', format: 'uuid', description: 'The import job to report on' }
+                }
+            },
             response: {
                 200: {
                     type: 'object',
                     properties: {
+                        jobId: { type: ['string', 'null'] },
                         isProcessing: { type: 'boolean' },
                         isConcurrent: { type: 'boolean' },
+                        isPaused: { type: 'boolean' },
                         stats: {
                             type: ['object', 'null'],
                             properties: {
                                 processed: { type: 'number' },
+                                inserted: { type: 'number' },
+                                updated: { type: 'number' },
                                 errors: { type: 'number' },
+                                errorsByReason: { type: 'object', additionalProperties: { type: 'number' } },
                                 duplicates: { type: 'number' },
                                 totalLines: { type: 'number' },
                                 currentLine: { type: 'number' },
@@ -230,44 +727,88 @@ export default async function customerRoutes (fastify: FastifyInstance) {
                                 elapsedTime: { type: 'number' },
                                 activeWorkers: { type: 'number' },
                                 completedChunks: { type: 'number' },
-                                totalChunks: { type: 'number' }
+                                totalChunks: { type: 'number' },
+                                pausedAt: { type: ['string', 'null'], format: 'date-time' },
+                                pausedFor: { type: 'number', description: 'Seconds since the current pause started' },
+                                totalPausedTime: { type: 'number', description: 'Seconds spent paused in total' },
+                                tuning: {
+                                    type: ['object', 'null'],
+                                    description: 'Batch size and worker count as currently tuned to memory and database latency, with the latest adjustments',
+                                    properties: {
+                                        batchSize: { type: 'number' },
+                                        workers: { type: ['number', 'null'] },
+                                        memoryPressure: { type: 'number', description: 'Share of the memory limit in use (0-1)' },
+                                        readingHeld: { type: 'boolean', description: 'Reading stopped until memory frees up' },
+                                        batchLatencyMs: { type: ['number', 'null'] },
+                                        adjustments: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    at: { type: 'string', format: 'date-time' },
+                                                    batchSize: { type: 'number' },
+                                                    workers: { type: ['number', 'null'] },
+                                                    reason: { type: 'string' }
+                                                }
+                                            }
+                                        }
+                                    }
+                                }
                             }
                         }
                     }
                 }
             }
         }
-    }, async (request: FastifyRequest, reply: FastifyReply) => {
+    }, async (request: FastifyRequest<{ Querystring: { jobId?: string } }>, reply: FastifyReply) => {
         try {
-            const stats = customerService.getProcessingStats();
+            const { jobId } = request.query;
+            const stats = customerService.getProcessingStats(jobId);
 
             if (!stats) {
                 return reply.status(200).send({
+                    jobId: jobId ?? null,
                     isProcessing: false,
                     isConcurrent: false,
+                    isPaused: false,
                     stats: null
                 });
             }
 
-            const elapsed = Date.now() - stats.startTime.getTime();
-            const progress = stats.totalLines > 0 ? (stats.currentLine / stats.totalLines) * 100 : 0;
-            const rate = stats.processed / (elapsed / 1000);
+            const now = Date.now();
+            const elapsed = now - stats.startTime.getTime();
+            const pausedMs = stats.pausedMs || 0;
+            // The concurrent path counts finished chunks, the sequential one lines read
+            const progress = stats.isConcurrent
+                ? stats.progress
+                : stats.totalLines > 0 ? (stats.currentLine / stats.totalLines) * 100 : 0;
+            // Time spent paused doesn't count against the rate
+            const rate = elapsed > pausedMs ? stats.processed / ((elapsed - pausedMs) / 1000) : 0;
 
             return reply.status(200).send({
+                jobId: stats.jobId,
                 isProcessing: true,
-                isConcurrent: stats.isConcurrent || false,
+                isConcurrent: stats.isConcurrent,
+                isPaused: stats.paused,
                 stats: {
                     processed: stats.processed,
+                    inserted: stats.inserted || 0,
+                    updated: stats.updated || 0,
                     errors: stats.errors,
+                    errorsByReason: stats.errorsByReason || {},
                     duplicates: stats.duplicates,
                     totalLines: stats.totalLines,
-                    currentLine: stats.currentLine,
+                    currentLine: stats.isConcurrent ? undefined : stats.currentLine,
                     progress: Math.round(progress * 100) / 100,
                     rate: Math.round(rate * 100) / 100,
                     elapsedTime: Math.round(elapsed / 1000),
-                    activeWorkers: stats.activeWorkers || 0,
-                    completedChunks: stats.completedChunks || 0,
-                    totalChunks: stats.totalChunks || 0
+                    activeWorkers: stats.isConcurrent ? stats.activeWorkers : 0,
+                    completedChunks: stats.isConcurrent ? stats.completedChunks : 0,
+                    totalChunks: stats.isConcurrent ? stats.totalChunks : 0,
+                    pausedAt: stats.pausedAt ?? null,
+                    pausedFor: stats.pausedAt ? Math.round((now - stats.pausedAt.getTime()) / 1000) : 0,
+                    totalPausedTime: Math.round(pausedMs / 1000),
+                    tuning: stats.tuning ?? null
                 }
             });
         } catch (error) {
@@ -282,27 +823,49 @@ export default async function customerRoutes (fastify: FastifyInstance) {
     // Stop concurrent processing
     fastify.post('/customers/processing/stop', {
         schema: {
-            description: 'Stop current file processing',
+            description: 'Cancel a running import, or every running import when no jobId is given. Batches being written are committed first',
             tags: ['customers'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    jobId: { type: 'string', format: 'uuid', description: 'The import job to cancel' }
+                }
+            },
             response: {
                 200: {
-                    type: 'object',
+                    ...processingControlResponse,
                     properties: {
-                        message: { type: 'string' },
+                        ...processingControlResponse.properties,
                         stopped: { type: 'boolean' }
                     }
-                }
+                },
+                ...processingControlErrors
             }
         }
-    }, async (request: FastifyRequest, reply: FastifyReply) => {
+    }, async (request: FastifyRequest<{ Querystring: { jobId?: string } }>, reply: FastifyReply) => {
         try {
-            // This would need to be implemented in the service
-            // For now, we'll return a message
+            const { jobId } = request.query;
+            const imports = jobId
+                ? [await importJobService.cancelImport(jobId)]
+                : await importJobService.cancelRunningImports();
+
+            if (imports.length === 0) {
+                return reply.status(409).send({ error: 'Nothing to stop', message: 'No import is running' });
+            }
+
+            const stopped = imports.filter(job => job.status === 'cancelled');
             return reply.status(200).send({
-                message: 'Processing stop requested',
-                stopped: true
+                message: `Stopped ${stopped.length} import(s)`,
+                stopped: stopped.length > 0,
+                imports
             });
         } catch (error) {
+            if (error instanceof ImportJobNotFoundError) {
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+            if (error instanceof ImportJobStateError) {
+                return reply.status(409).send({ error: 'Nothing to stop', message: error.message });
+            }
             fastify.log.error('Error stopping processing:', error);
             return reply.status(500).send({
                 error: 'Internal server error',
@@ -310,4 +873,96 @@ export default async function customerRoutes (fastify: FastifyInstance) {
             });
         }
     });
-}
\ No newline at end of file
+
+    // Pause running imports until resumed
+    fastify.post('/customers/processing/pause', {
+        schema: {
+            description: 'Pause a running import, or every running import when no jobId is given. The sequential path commits its current batch, the concurrent path lets running chunks finish',
+            tags: ['customers'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    jobId: { type: 'string', format: 'uuid', description: 'The import job to pause' }
+                }
+            },
+            response: {
+                200: processingControlResponse,
+                ...processingControlErrors
+            }
+        }
+    }, async (request: FastifyRequest<{ Querystring: { jobId?: string } }>, reply: FastifyReply) => {
+        try {
+            const { jobId } = request.query;
+            const imports = jobId
+                ? [await importJobService.pauseImport(jobId)]
+                : await importJobService.pauseRunningImports();
+
+            if (imports.length === 0) {
+                return reply.status(409).send({ error: 'Nothing to pause', message: 'No import is running' });
+            }
+
+            return reply.status(200).send({
+                message: `Paused ${imports.length} import(s)`,
+                imports
+            });
+        } catch (error) {
+            if (error instanceof ImportJobNotFoundError) {
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+            if (error instanceof ImportJobStateError) {
+                return reply.status(409).send({ error: 'Nothing to pause', message: error.message });
+            }
+            fastify.log.error('Error pausing processing:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while pausing processing'
+            });
+        }
+    });
+
+    // Resume paused imports
+    fastify.post('/customers/processing/resume', {
+        schema: {
+            description: 'Resume a paused import, or every paused import when no jobId is given',
+            tags: ['customers'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    jobId: { type: 'string', format: 'uuid', description: 'The import job to resume' }
+                }
+            },
+            response: {
+                200: processingControlResponse,
+                ...processingControlErrors
+            }
+        }
+    }, async (request: FastifyRequest<{ Querystring: { jobId?: string } }>, reply: FastifyReply) => {
+        try {
+            const { jobId } = request.query;
+            const imports = jobId
+                ? [await importJobService.resumePausedImport(jobId)]
+                : await importJobService.resumePausedImports();
+
+            if (imports.length === 0) {
+                return reply.status(409).send({ error: 'Nothing to resume', message: 'No import is paused' });
+            }
+
+            return reply.status(200).send({
+                message: `Resumed ${imports.length} import(s)`,
+                imports
+            });
+        } catch (error) {
+            if (error instanceof ImportJobNotFoundError) {
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+            if (error instanceof ImportJobStateError) {
+                return reply.status(409).send({ error: 'Nothing to resume', message: error.message });
+            }
+            fastify.log.error('Error resuming processing:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while resuming processing'
+            });
+        }
+    });
+}
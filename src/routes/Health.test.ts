@@ -0,0 +1,56 @@
+import fastify from 'fastify';
+import healthRoutes from './Health';
+import { container } from '../config/container';
+import { TYPES } from '../types/inversify';
+
+const checks = {
+  database: { status: 'pass', responseTimeMs: 3 },
+  disk: { status: 'pass', path: '/app/uploads', freeBytes: 5e9, totalBytes: 1e10, minFreeBytes: 104857600 },
+  imports: { available: true, capacity: 2, activeImports: 1, activeWorkers: 4, queuedChunks: 12 }
+};
+
+// Mock implementation of IHealthService
+const mockHealthService = {
+  checkReadiness: jest.fn(),
+  getImportCapacity: jest.fn()
+};
+
+describe('Health routes', () => {
+  let app: ReturnType<typeof fastify>;
+
+  beforeAll(async () => {
+    const rebinding = await (container as any).rebind(TYPES.HealthService);
+    rebinding.toConstantValue(mockHealthService);
+    app = fastify();
+    await app.register(healthRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should report the process alive', async () => {
+    const response = await app.inject({ method: 'GET', url: '/health/live' });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual(expect.objectContaining({
+      status: 'OK',
+      eventLoopTurnMs: expect.any(Number),
+      eventLoopDelayMs: { p99: expect.any(Number), max: expect.any(Number) }
+    }));
+  });
+
+  it('should report ready with the checks', async () => {
+    mockHealthService.checkReadiness.mockResolvedValue({ ready: true, checks });
+    const response = await app.inject({ method: 'GET', url: '/health/ready' });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual(expect.objectContaining({ status: 'READY', checks }));
+  });
+
+  it('should answer 503 when a check fails', async () => {
+    const failing = { ...checks, database: { status: 'fail', responseTimeMs: 2001, error: 'No answer within 2000ms' } };
+    mockHealthService.checkReadiness.mockResolvedValue({ ready: false, checks: failing });
+    const response = await app.inject({ method: 'GET', url: '/health/ready' });
+    expect(response.statusCode).toBe(503);
+    expect(JSON.parse(response.body)).toEqual(expect.objectContaining({ status: 'NOT_READY', checks: failing }));
+  });
+});
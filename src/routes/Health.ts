@@ -0,0 +1,117 @@
+import { container } from "../config/container";
+import { IHealthService } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { performanceMonitor } from "../middleware/performance";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+
+// Above this p99 event loop delay the process counts as hung and Kubernetes restarts it
+const MAX_EVENT_LOOP_DELAY_MS = parseInt(process.env.LIVENESS_MAX_EVENT_LOOP_DELAY_MS || '5000');
+
+const checkSchema = (properties: Record<string, object>) => ({
+    type: 'object',
+    properties: {
+        status: { type: 'string', enum: ['pass', 'fail'] },
+        error: { type: 'string' },
+        ...properties
+    }
+});
+
+const readinessSchema = {
+    type: 'object',
+    properties: {
+        status: { type: 'string' },
+        timestamp: { type: 'string' },
+        checks: {
+            type: 'object',
+            properties: {
+                database: checkSchema({
+                    responseTimeMs: { type: 'number' }
+                }),
+                disk: checkSchema({
+                    path: { type: 'string' },
+                    freeBytes: { type: 'number' },
+                    totalBytes: { type: 'number' },
+                    minFreeBytes: { type: 'number' }
+                }),
+                // Reported only; a busy replica stays ready
+                imports: {
+                    type: 'object',
+                    properties: {
+                        available: { type: 'boolean' },
+                        activeImports: { type: 'number' },
+                        capacity: { type: 'number' },
+                        activeWorkers: { type: 'number' },
+                        queuedChunks: { type: 'number' }
+                    }
+                }
+            }
+        }
+    }
+};
+
+const livenessSchema = {
+    type: 'object',
+    properties: {
+        status: { type: 'string' },
+        uptime: { type: 'number' },
+        // Time for the event loop to come round to a setImmediate queued by this request
+        eventLoopTurnMs: { type: 'number' },
+        eventLoopDelayMs: {
+            type: 'object',
+            properties: {
+                p99: { type: 'number' },
+                max: { type: 'number' }
+            }
+        },
+        timestamp: { type: 'string' }
+    }
+};
+
+export default async function healthRoutes (fastify: FastifyInstance) {
+    const healthService = container.get<IHealthService>(TYPES.HealthService);
+
+    // Liveness: only the process itself, so a database outage never gets the pod restarted
+    fastify.get('/health/live', {
+        schema: {
+            description: 'Liveness probe: the process answers and its event loop is not stuck. 503 means Kubernetes should restart the pod',
+            tags: ['health'],
+            response: {
+                200: livenessSchema,
+                503: livenessSchema
+            }
+        }
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const started = process.hrtime.bigint();
+        await new Promise(resolve => setImmediate(resolve));
+        const eventLoopTurnMs = Number(process.hrtime.bigint() - started) / 1e6;
+        const { p99, max } = performanceMonitor.getEventLoopDelay();
+        const responsive = p99 <= MAX_EVENT_LOOP_DELAY_MS;
+
+        return reply.status(responsive ? 200 : 503).send({
+            status: responsive ? 'OK' : 'UNRESPONSIVE',
+            uptime: process.uptime(),
+            eventLoopTurnMs: Number(eventLoopTurnMs.toFixed(2)),
+            eventLoopDelayMs: { p99, max },
+            timestamp: new Date().toISOString()
+        });
+    });
+
+    // Readiness: dependencies and spare capacity; failing only stops new traffic
+    fastify.get('/health/ready', {
+        schema: {
+            description: 'Readiness probe: database reachable and enough free disk for uploads, plus how many imports run here. 503 means Kubernetes should send traffic to other pods for now',
+            tags: ['health'],
+            response: {
+                200: readinessSchema,
+                503: readinessSchema
+            }
+        }
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const readiness = await healthService.checkReadiness();
+        return reply.status(readiness.ready ? 200 : 503).send({
+            status: readiness.ready ? 'READY' : 'NOT_READY',
+            timestamp: new Date().toISOString(),
+            checks: readiness.checks
+        });
+    });
+}
@@ -0,0 +1,320 @@
+import fastify from 'fastify';
+import importRoutes from './Import';
+import { container } from '../config/container';
+import { TYPES } from '../types/inversify';
+import { ImportJobNotFoundError, ImportJobStateError } from '../services/importJobService';
+import { IImportEventBus } from '../interfaces/services';
+
+const job = {
+  id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+  fileName: 'CLIENTES_IN_0425_FUSIONADO_PROD_1000.dat',
+  filePath: '/app/clients/CLIENTES_IN_0425_FUSIONADO_PROD_1000.dat',
+  status: 'completed',
+  duplicatePolicy: 'upsert',
+  processed: 1000,
+  inserted: 600,
+  updated: 400,
+  errors: 51,
+  errorsByReason: { TOO_FEW_FIELDS: 30, INVALID_EMAIL: 21 },
+  duplicates: 0,
+  totalLines: 1051,
+  errorMessage: null,
+  startedAt: new Date(),
+  finishedAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+// Mock implementation of IImportJobService
+const mockImportJobService = {
+  startImport: jest.fn(),
+  resumeImport: jest.fn(),
+  recoverInterruptedJobs: jest.fn(),
+  getJob: jest.fn().mockResolvedValue(job),
+  listJobs: jest.fn().mockResolvedValue([job]),
+  getRejectedLines: jest.fn(),
+  streamRejectedLines: jest.fn(),
+  getDryRunReport: jest.fn()
+};
+
+// Mock implementation of IHealthService
+const capacity = { available: true, capacity: 2, activeImports: 1, activeWorkers: 0, queuedChunks: 0 };
+const mockHealthService = {
+  checkReadiness: jest.fn(),
+  getImportCapacity: jest.fn().mockReturnValue(capacity)
+};
+
+const rejectedLines = [
+  { lineNumber: 25, rawLine: '001025|Ana|Rodríguez', reason: 'TOO_FEW_FIELDS', field: null, detail: 'Expected 5 fields, found 3', createdAt: new Date() },
+  { lineNumber: 28, rawLine: '001028|Ana|López|13050|age', reason: 'INVALID_EMAIL', field: 'email', detail: 'Invalid email: 13050', createdAt: new Date() }
+];
+
+describe('Import routes', () => {
+  let app: ReturnType<typeof fastify>;
+
+  beforeAll(async () => {
+    const rebinding = await (container as any).rebind(TYPES.ImportJobService);
+    rebinding.toConstantValue(mockImportJobService);
+    (await (container as any).rebind(TYPES.HealthService)).toConstantValue(mockHealthService);
+    app = fastify();
+    await app.register(importRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should list import jobs', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports?limit=10'
+    });
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.imports).toHaveLength(1);
+    expect(body.imports[0]).toEqual(expect.objectContaining({ id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', status: 'completed', processed: 1000, inserted: 600, updated: 400 }));
+    expect(mockImportJobService.listJobs).toHaveBeenCalledWith(10);
+  });
+
+  it('should return an import job by id', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).import).toEqual(expect.objectContaining({
+      id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+      totalLines: 1051,
+      errorsByReason: { TOO_FEW_FIELDS: 30, INVALID_EMAIL: 21 },
+      errorMessage: null
+    }));
+    expect(mockImportJobService.getJob).toHaveBeenCalledWith('6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f');
+  });
+
+  it('should return the report of a dry run', async () => {
+    mockImportJobService.getJob.mockResolvedValueOnce({ ...job, dryRun: true });
+    mockImportJobService.getDryRunReport.mockResolvedValueOnce({
+      wouldInsert: 600,
+      wouldUpdate: 400,
+      wouldDuplicate: 0,
+      wouldReject: 51,
+      rejectionsByReason: { TOO_FEW_FIELDS: 30, INVALID_EMAIL: 21 },
+      rejectedSample: rejectedLines
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+    });
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.import).toHaveProperty('dryRun', true);
+    expect(body.report).toEqual(expect.objectContaining({ wouldInsert: 600, wouldUpdate: 400, wouldDuplicate: 0, wouldReject: 51 }));
+    expect(body.report.rejectedSample.map((line: any) => line.lineNumber)).toEqual([25, 28]);
+  });
+
+  it('should return 404 if the import job does not exist', async () => {
+    mockImportJobService.getJob.mockResolvedValueOnce(null);
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/00000000-0000-4000-8000-000000000000'
+    });
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body)).toHaveProperty('error', 'Import job not found');
+  });
+
+  it('should reject an id that is not a GUID before it reaches the database', async () => {
+    mockImportJobService.getJob.mockClear();
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/not-a-job'
+    });
+    expect(response.statusCode).toBe(400);
+    expect(mockImportJobService.getJob).not.toHaveBeenCalled();
+  });
+
+  it('should resume an interrupted import job', async () => {
+    mockImportJobService.resumeImport.mockResolvedValueOnce({
+      ...job,
+      status: 'queued',
+      checkpoint: { mode: 'sequential', byteOffset: 4096, line: 80, processed: 70, errors: 10, duplicates: 0 }
+    });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/resume'
+    });
+    expect(response.statusCode).toBe(202);
+    const body = JSON.parse(response.body);
+    expect(body).toHaveProperty('message', 'Import resumed from last checkpoint');
+    expect(body.import).toEqual(expect.objectContaining({ id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', status: 'queued' }));
+    expect(mockImportJobService.resumeImport).toHaveBeenCalledWith('6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f');
+  });
+
+  it('should return 503 instead of restarting an import on a replica at capacity', async () => {
+    mockHealthService.getImportCapacity.mockReturnValueOnce({ ...capacity, available: false, activeImports: 2 });
+    mockImportJobService.getJob.mockResolvedValueOnce({ ...job, status: 'interrupted' });
+    mockImportJobService.resumeImport.mockClear();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/resume'
+    });
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['retry-after']).toBe('60');
+    expect(JSON.parse(response.body)).toEqual({
+      error: 'Import capacity reached',
+      message: 'This replica already runs 2 of 2 imports, try again later'
+    });
+    expect(mockImportJobService.resumeImport).not.toHaveBeenCalled();
+  });
+
+  it('should resume a paused import on a replica at capacity', async () => {
+    mockHealthService.getImportCapacity.mockReturnValueOnce({ ...capacity, available: false, activeImports: 2 });
+    mockImportJobService.getJob.mockResolvedValueOnce({ ...job, status: 'paused' });
+    mockImportJobService.resumeImport.mockResolvedValueOnce({ ...job, status: 'running' });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/resume'
+    });
+    expect(response.statusCode).toBe(202);
+    expect(mockImportJobService.resumeImport).toHaveBeenCalledWith('6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f');
+  });
+
+  it('should return 404 when resuming an unknown import job', async () => {
+    mockImportJobService.resumeImport.mockRejectedValueOnce(new ImportJobNotFoundError('missing'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/imports/00000000-0000-4000-8000-000000000000/resume'
+    });
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should return 409 when the import job cannot be resumed', async () => {
+    mockImportJobService.resumeImport.mockRejectedValueOnce(new ImportJobStateError('Import job 6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f is completed and cannot be resumed'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/resume'
+    });
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toHaveProperty('message', 'Import job 6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f is completed and cannot be resumed');
+  });
+
+  it('should page through rejected lines with a cursor', async () => {
+    mockImportJobService.getRejectedLines.mockResolvedValueOnce(rejectedLines);
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/rejected?afterLine=10&limit=2'
+    });
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.rejected).toHaveLength(2);
+    expect(body.rejected[0]).toEqual(expect.objectContaining({ lineNumber: 25, rawLine: '001025|Ana|Rodríguez', reason: 'TOO_FEW_FIELDS', field: null }));
+    expect(body.rejected[1]).toEqual(expect.objectContaining({ reason: 'INVALID_EMAIL', field: 'email', detail: 'Invalid email: 13050' }));
+    expect(body.nextCursor).toBe(28);
+    expect(mockImportJobService.getRejectedLines).toHaveBeenCalledWith('6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', 10, 2);
+  });
+
+  it('should return a null cursor on the last page of rejected lines', async () => {
+    mockImportJobService.getRejectedLines.mockResolvedValueOnce(rejectedLines);
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/rejected'
+    });
+    expect(JSON.parse(response.body).nextCursor).toBeNull();
+  });
+
+  it('should download rejected lines as a .dat file', async () => {
+    mockImportJobService.streamRejectedLines.mockImplementationOnce(async function* () {
+      yield* rejectedLines;
+    });
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/rejected/download'
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-disposition']).toBe('attachment; filename="CLIENTES_IN_0425_FUSIONADO_PROD_1000.rejected.dat"');
+    expect(response.body).toBe('001025|Ana|Rodríguez\n001028|Ana|López|13050|age\n');
+  });
+
+  it('should sanitize the name of the rejected lines download', async () => {
+    mockImportJobService.getJob.mockResolvedValueOnce({ ...job, fileName: 'Clientes "Ñu"\r\nX-Injected: 1.dat' });
+    mockImportJobService.streamRejectedLines.mockImplementationOnce(async function* () {
+      yield* rejectedLines;
+    });
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/rejected/download'
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['x-injected']).toBeUndefined();
+    expect(response.headers['content-disposition']).toBe(
+      'attachment; filename="Clientes __u___X-Injected: 1.rejected.dat"; ' +
+      "filename*=UTF-8''Clientes%20%22%C3%91u%22%0D%0AX-Injected%3A%201.rejected.dat"
+    );
+  });
+
+  it('should return 404 for rejected lines of an unknown import job', async () => {
+    mockImportJobService.getJob.mockResolvedValueOnce(null);
+    const response = await app.inject({
+      method: 'GET',
+      url: '/imports/00000000-0000-4000-8000-000000000000/rejected/download'
+    });
+    expect(response.statusCode).toBe(404);
+  });
+
+  describe('GET /imports/:id/events', () => {
+    const events = () => container.get<IImportEventBus>(TYPES.ImportEventBus);
+
+    // Parse an SSE body into [event, data] pairs
+    const parse = (body: string) => body.trim().split('\n\n').map(frame => {
+      const [event, data] = frame.split('\n');
+      return [event.replace('event: ', ''), JSON.parse(data.replace('data: ', ''))];
+    });
+
+    it('should stream a running import until its summary', async () => {
+      mockImportJobService.getJob.mockImplementationOnce(async () => {
+        // Published while the stream is being set up: held back until the current status is sent
+        events().publish({ type: 'progress', jobId: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d', progress: { processed: 100, inserted: 100, updated: 0, errors: 2, errorsByReason: { INVALID_EMAIL: 2 }, duplicates: 0, totalLines: 4000, progress: 2.5 } });
+        setImmediate(() => {
+          events().publish({ type: 'chunk', jobId: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d', chunk: { chunkId: 0, startLine: 0, endLine: 1000, processed: 990, inserted: 990, updated: 0, errors: 10, errorsByReason: { INVALID_EMAIL: 10 }, duplicates: 0, completedChunks: 1, totalChunks: 4 } });
+          events().publish({ type: 'summary', jobId: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d', summary: { ...job, status: 'completed' } as any });
+        });
+        return { ...job, id: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d', status: 'running' };
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/imports/a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d/events'
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+
+      const frames = parse(response.body);
+      expect(frames.map(([event]) => event)).toEqual(['status', 'progress', 'chunk', 'summary']);
+      expect(frames[0][1]).toEqual({ type: 'status', jobId: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d', status: 'running' });
+      expect(frames[1][1].progress).toEqual(expect.objectContaining({ errors: 2, errorsByReason: { INVALID_EMAIL: 2 } }));
+      expect(frames[3][1].summary).toEqual(expect.objectContaining({ status: 'completed', processed: 1000 }));
+    });
+
+    it('should send only the summary of a finished import', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/imports/6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f/events'
+      });
+      const frames = parse(response.body);
+      expect(frames).toHaveLength(1);
+      expect(frames[0][1]).toEqual(expect.objectContaining({
+        type: 'summary',
+        summary: expect.objectContaining({ status: 'completed', inserted: 600, updated: 400, errors: 51 })
+      }));
+    });
+
+    it('should return 404 for an unknown import job', async () => {
+      mockImportJobService.getJob.mockResolvedValueOnce(null);
+      const response = await app.inject({
+        method: 'GET',
+        url: '/imports/00000000-0000-4000-8000-000000000000/events'
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
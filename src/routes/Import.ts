@@ -0,0 +1,414 @@
+import { container } from "../config/container";
+import { IHealthService, IImportEventBus, IImportJobService, ImportEvent } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { ImportJobNotFoundError, ImportJobStateError } from "../services/importJobService";
+import { toImportSummary } from "../services/importEventBus";
+import { IMPORT_RETRY_AFTER_SECONDS, importCapacityReached } from "../services/healthService";
+import { PassThrough, Readable } from 'stream';
+import * as path from 'path';
+
+const importJobSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        fileName: { type: 'string' },
+        filePath: { type: 'string' },
+        status: { type: 'string' },
+        format: { type: ['string', 'null'] },
+        duplicatePolicy: { type: 'string' },
+        dryRun: { type: 'boolean' },
+        processed: { type: 'number' },
+        inserted: { type: 'number' },
+        updated: { type: 'number' },
+        errors: { type: 'number' },
+        errorsByReason: { type: ['object', 'null'], additionalProperties: { type: 'number' } },
+        duplicates: { type: 'number' },
+        totalLines: { type: 'number' },
+        errorMessage: { type: ['string', 'null'] },
+        checkpointAt: { type: ['string', 'null'], format: 'date-time' },
+        startedAt: { type: ['string', 'null'], format: 'date-time' },
+        finishedAt: { type: ['string', 'null'], format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+    }
+};
+
+const rejectedLineSchema = {
+    type: 'object',
+    properties: {
+        lineNumber: { type: 'number' },
+        rawLine: { type: 'string' },
+        reason: { type: 'string' },
+        field: { type: ['string', 'null'] },
+        detail: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' }
+    }
+};
+
+// Returned with dry-run jobs
+const dryRunReportSchema = {
+    type: 'object',
+    properties: {
+        wouldInsert: { type: 'number' },
+        wouldUpdate: { type: 'number' },
+        wouldDuplicate: { type: 'number' },
+        wouldReject: { type: 'number' },
+        rejectionsByReason: { type: 'object', additionalProperties: { type: 'number' } },
+        rejectedSample: { type: 'array', items: rejectedLineSchema }
+    }
+};
+
+// Statuses after which an import sends no more events
+const ACTIVE_STATUSES = ['queued', 'running', 'paused'];
+// Comment line sent while an import is quiet, so proxies keep the stream open
+const HEARTBEAT_MS = 15000;
+
+function serverSentEvent(event: ImportEvent): string {
+    return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Content-Disposition for a name taken from an upload: quotes, control and
+// non-ASCII characters are replaced in filename, and the exact name goes
+// percent-encoded in filename* (RFC 6266) for clients that read it
+function attachment(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    if (fallback === fileName) {
+        return `attachment; filename="${fileName}"`;
+    }
+    const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+export default async function importRoutes (fastify: FastifyInstance) {
+    const importJobService = container.get<IImportJobService>(TYPES.ImportJobService);
+    const importEvents = container.get<IImportEventBus>(TYPES.ImportEventBus);
+    const healthService = container.get<IHealthService>(TYPES.HealthService);
+
+    // List import jobs, newest first
+    fastify.get('/imports', {
+        schema: {
+            description: 'List import jobs, newest first',
+            tags: ['imports'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        imports: { type: 'array', items: importJobSchema }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Querystring: { limit?: number } }>, reply: FastifyReply) => {
+        try {
+            const imports = await importJobService.listJobs(request.query.limit);
+            return reply.status(200).send({ imports });
+        } catch (error) {
+            fastify.log.error('Error listing import jobs:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while listing import jobs'
+            });
+        }
+    });
+
+    // Get a single import job
+    fastify.get('/imports/:id', {
+        schema: {
+            description: 'Get an import job by id. Dry runs also return a report of what the import would do, with a sample of the rejected lines',
+            tags: ['imports'],
+            params: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', format: 'uuid', description: 'The import job id' }
+                },
+                required: ['id']
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        import: importJobSchema,
+                        report: dryRunReportSchema
+                    }
+                },
+                404: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        try {
+            const job = await importJobService.getJob(request.params.id);
+
+            if (!job) {
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+
+            if (job.dryRun) {
+                return reply.status(200).send({ import: job, report: await importJobService.getDryRunReport(job) });
+            }
+            return reply.status(200).send({ import: job });
+        } catch (error) {
+            fastify.log.error('Error getting import job:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while getting the import job'
+            });
+        }
+    });
+
+    // Resume an interrupted or failed import from its last checkpoint
+    fastify.post('/imports/:id/resume', {
+        schema: {
+            description: 'Resume an interrupted or failed import from its last checkpoint',
+            tags: ['imports'],
+            params: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', format: 'uuid', description: 'The import job id' }
+                },
+                required: ['id']
+            },
+            response: {
+                202: {
+                    type: 'object',
+                    properties: {
+                        message: { type: 'string' },
+                        import: importJobSchema
+                    }
+                },
+                404: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' }
+                    }
+                },
+                409: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' },
+                        message: { type: 'string' }
+                    }
+                },
+                503: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' },
+                        message: { type: 'string' }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        try {
+            // A paused import already counts against the capacity; only a restarted one needs room
+            const current = await importJobService.getJob(request.params.id);
+            const capacity = healthService.getImportCapacity();
+            if (current && current.status !== 'paused' && !capacity.available) {
+                return reply.status(503).header('Retry-After', IMPORT_RETRY_AFTER_SECONDS).send(importCapacityReached(capacity));
+            }
+
+            const job = await importJobService.resumeImport(request.params.id);
+            return reply.status(202).send({
+                message: job.checkpoint ? 'Import resumed from last checkpoint' : 'Import restarted from the beginning',
+                import: job
+            });
+        } catch (error) {
+            if (error instanceof ImportJobNotFoundError) {
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+            if (error instanceof ImportJobStateError) {
+                return reply.status(409).send({ error: 'Import job cannot be resumed', message: error.message });
+            }
+            fastify.log.error('Error resuming import job:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while resuming the import job'
+            });
+        }
+    });
+
+    // Follow an import without polling
+    fastify.get('/imports/:id/events', {
+        schema: {
+            description: 'Stream an import as Server-Sent Events: status changes, progress, finished chunks and a final summary, after which the stream ends',
+            tags: ['imports'],
+            produces: ['text/event-stream'],
+            params: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', format: 'uuid', description: 'The import job id' }
+                },
+                required: ['id']
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const { id } = request.params;
+        const stream = new PassThrough();
+        const send = (event: ImportEvent) => {
+            if (stream.writableEnded) {
+                return;
+            }
+            stream.write(serverSentEvent(event));
+            if (event.type === 'summary') {
+                stream.end();
+            }
+        };
+
+        // Subscribe before reading the job so nothing published in between is lost;
+        // those events are held back until the current state has been sent
+        let backlog: ImportEvent[] | null = [];
+        const unsubscribe = importEvents.subscribe(id, event => (backlog ? backlog.push(event) : send(event)));
+        const heartbeat = setInterval(() => stream.write(': keep-alive\n\n'), HEARTBEAT_MS);
+        const close = () => {
+            unsubscribe();
+            clearInterval(heartbeat);
+        };
+        stream.on('close', close);
+        reply.raw.on('close', () => stream.destroy());
+
+        try {
+            const job = await importJobService.getJob(id);
+            if (!job) {
+                close();
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+
+            if (ACTIVE_STATUSES.includes(job.status)) {
+                send({ type: 'status', jobId: id, status: job.status });
+            } else {
+                send({ type: 'summary', jobId: id, summary: toImportSummary(job) });
+            }
+            const held = backlog;
+            backlog = null;
+            held.forEach(send);
+
+            return reply
+                .status(200)
+                .header('Content-Type', 'text/event-stream; charset=utf-8')
+                .header('Cache-Control', 'no-cache')
+                .header('X-Accel-Buffering', 'no')
+                .send(stream);
+        } catch (error) {
+            close();
+            fastify.log.error('Error streaming import events:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while streaming import events'
+            });
+        }
+    });
+
+    // Page through the lines an import rejected
+    fastify.get('/imports/:id/rejected', {
+        schema: {
+            description: 'Page through the lines an import rejected, in file order',
+            tags: ['imports'],
+            params: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', format: 'uuid', description: 'The import job id' }
+                },
+                required: ['id']
+            },
+            querystring: {
+                type: 'object',
+                properties: {
+                    afterLine: { type: 'integer', minimum: 0, default: 0, description: 'Cursor: return lines after this line number' },
+                    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        rejected: { type: 'array', items: rejectedLineSchema },
+                        nextCursor: { type: ['number', 'null'] }
+                    }
+                },
+                404: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string }, Querystring: { afterLine?: number, limit?: number } }>, reply: FastifyReply) => {
+        try {
+            const { id } = request.params;
+            const { afterLine = 0, limit = 100 } = request.query;
+
+            const job = await importJobService.getJob(id);
+            if (!job) {
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+
+            const rejected = await importJobService.getRejectedLines(id, afterLine, limit);
+            const nextCursor = rejected.length === limit ? rejected[rejected.length - 1].lineNumber : null;
+
+            return reply.status(200).send({ rejected, nextCursor });
+        } catch (error) {
+            fastify.log.error('Error getting rejected lines:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while getting rejected lines'
+            });
+        }
+    });
+
+    // Download the rejected lines as a .dat file to send back upstream
+    fastify.get('/imports/:id/rejected/download', {
+        schema: {
+            description: 'Download the lines an import rejected as a .dat file, unchanged and in file order',
+            tags: ['imports'],
+            produces: ['text/plain'],
+            params: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', format: 'uuid', description: 'The import job id' }
+                },
+                required: ['id']
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        try {
+            const { id } = request.params;
+
+            const job = await importJobService.getJob(id);
+            if (!job) {
+                return reply.status(404).send({ error: 'Import job not found' });
+            }
+
+            const rejectedLines = importJobService.streamRejectedLines(id);
+            const body = Readable.from((async function* () {
+                for await (const rejected of rejectedLines) {
+                    yield `${rejected.rawLine}\n`;
+                }
+            })());
+
+            const downloadName = `${path.parse(job.fileName).name}.rejected.dat`;
+            return reply
+                .status(200)
+                .header('Content-Type', 'text/plain; charset=utf-8')
+                .header('Content-Disposition', attachment(downloadName))
+                .send(body);
+        } catch (error) {
+            fastify.log.error('Error downloading rejected lines:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while downloading rejected lines'
+            });
+        }
+    });
+}
@@ -0,0 +1,57 @@
+import fastify from 'fastify';
+import inboxRoutes from './Inbox';
+import { container } from '../config/container';
+import { TYPES } from '../types/inversify';
+
+const inboxFile = {
+  id: 1,
+  fileName: 'CLIENTES_IN_0425.dat',
+  size: 52428800,
+  checksum: '848de363b8ff0a4aae9b1fc4405ddf0063af3f2906e340faf7a27254ba155782',
+  status: 'importing',
+  importJobId: 'job-1',
+  detail: null,
+  finishedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+// Mock implementation of IInboxWatcher
+const mockInboxWatcher = {
+  start: jest.fn(),
+  stop: jest.fn(),
+  isRunning: jest.fn().mockReturnValue(true),
+  scan: jest.fn().mockResolvedValue([inboxFile]),
+  listFiles: jest.fn().mockResolvedValue([inboxFile])
+};
+
+describe('Inbox routes', () => {
+  let app: ReturnType<typeof fastify>;
+
+  beforeAll(async () => {
+    const rebinding = await (container as any).rebind(TYPES.InboxWatcher);
+    rebinding.toConstantValue(mockInboxWatcher);
+    app = fastify();
+    await app.register(inboxRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should list the files picked up from the inbox', async () => {
+    const response = await app.inject({ method: 'GET', url: '/inbox?limit=10' });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({
+      watching: true,
+      files: [expect.objectContaining({ fileName: 'CLIENTES_IN_0425.dat', status: 'importing', importJobId: 'job-1' })]
+    });
+    expect(mockInboxWatcher.listFiles).toHaveBeenCalledWith(10);
+  });
+
+  it('should scan the inbox on demand', async () => {
+    const response = await app.inject({ method: 'POST', url: '/inbox/scan' });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).message).toBe('Picked up 1 file(s)');
+  });
+});
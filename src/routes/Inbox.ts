@@ -0,0 +1,86 @@
+import { container } from "../config/container";
+import { IInboxWatcher } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+
+const inboxFileSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'number' },
+        fileName: { type: 'string' },
+        size: { type: 'number' },
+        checksum: { type: 'string' },
+        status: { type: 'string' },
+        importJobId: { type: ['string', 'null'] },
+        detail: { type: ['string', 'null'] },
+        finishedAt: { type: ['string', 'null'], format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+    }
+};
+
+export default async function inboxRoutes (fastify: FastifyInstance) {
+    const inboxWatcher = container.get<IInboxWatcher>(TYPES.InboxWatcher);
+
+    // Files picked up from the inbox, newest first
+    fastify.get('/inbox', {
+        schema: {
+            description: 'Files picked up from the inbox directory, newest first, with the import they started and its outcome',
+            tags: ['inbox'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        watching: { type: 'boolean' },
+                        files: { type: 'array', items: inboxFileSchema }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Querystring: { limit?: number } }>, reply: FastifyReply) => {
+        try {
+            const files = await inboxWatcher.listFiles(request.query.limit);
+            return reply.status(200).send({ watching: inboxWatcher.isRunning(), files });
+        } catch (error) {
+            fastify.log.error('Error listing inbox files:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while listing inbox files'
+            });
+        }
+    });
+
+    // Scan the inbox now instead of waiting for the next poll
+    fastify.post('/inbox/scan', {
+        schema: {
+            description: 'Scan the inbox directory now. A new file is only imported once its size has not changed since the previous scan, so it may take two scans',
+            tags: ['inbox'],
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        message: { type: 'string' },
+                        files: { type: 'array', items: inboxFileSchema }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const files = await inboxWatcher.scan();
+            return reply.status(200).send({ message: `Picked up ${files.length} file(s)`, files });
+        } catch (error) {
+            fastify.log.error('Error scanning the inbox:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while scanning the inbox'
+            });
+        }
+    });
+}
@@ -0,0 +1,111 @@
+import fastify from 'fastify';
+import scheduleRoutes from './Schedule';
+import { container } from '../config/container';
+import { TYPES } from '../types/inversify';
+import { InvalidScheduleError, NoMatchingFileError, ScheduleNotFoundError } from '../services/importScheduler';
+
+const schedule = {
+  id: 'schedule-1',
+  name: 'Daily customers',
+  cron: '0 2 * * *',
+  pattern: 'CLIENTES_IN_*.dat',
+  format: null,
+  duplicatePolicy: 'skip',
+  enabled: true,
+  nextRunAt: new Date('2026-04-26T02:00:00Z'),
+  lastRunAt: null,
+  lastImportJobId: null,
+  lastError: null,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+// Mock implementation of IImportScheduler
+const mockImportScheduler = {
+  start: jest.fn(),
+  stop: jest.fn(),
+  listSchedules: jest.fn().mockResolvedValue([schedule]),
+  createSchedule: jest.fn().mockResolvedValue(schedule),
+  setScheduleEnabled: jest.fn().mockImplementation(async (id: string, enabled: boolean) => ({ ...schedule, enabled })),
+  triggerSchedule: jest.fn(),
+  runDueSchedules: jest.fn()
+};
+
+describe('Schedule routes', () => {
+  let app: ReturnType<typeof fastify>;
+
+  beforeAll(async () => {
+    const rebinding = await (container as any).rebind(TYPES.ImportScheduler);
+    rebinding.toConstantValue(mockImportScheduler);
+    app = fastify();
+    await app.register(scheduleRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should create a schedule', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/schedules',
+      payload: { name: 'Daily customers', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat' }
+    });
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).schedule).toEqual(expect.objectContaining({ id: 'schedule-1', nextRunAt: '2026-04-26T02:00:00.000Z' }));
+    expect(mockImportScheduler.createSchedule).toHaveBeenCalledWith({
+      name: 'Daily customers', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat', duplicatePolicy: 'skip', enabled: true
+    });
+  });
+
+  it('should return 400 for an invalid cron expression', async () => {
+    mockImportScheduler.createSchedule.mockRejectedValueOnce(new InvalidScheduleError('Invalid cron expression "0 25 * * *"'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/schedules',
+      payload: { name: 'Broken', cron: '0 25 * * *', pattern: 'CLIENTES_IN_*.dat' }
+    });
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).message).toBe('Invalid cron expression "0 25 * * *"');
+  });
+
+  it('should list schedules', async () => {
+    const response = await app.inject({ method: 'GET', url: '/schedules' });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).schedules).toHaveLength(1);
+  });
+
+  it('should enable and disable a schedule', async () => {
+    const disabled = await app.inject({ method: 'POST', url: '/schedules/schedule-1/disable' });
+    expect(disabled.statusCode).toBe(200);
+    expect(JSON.parse(disabled.body).schedule.enabled).toBe(false);
+    expect(mockImportScheduler.setScheduleEnabled).toHaveBeenCalledWith('schedule-1', false);
+
+    const enabled = await app.inject({ method: 'POST', url: '/schedules/schedule-1/enable' });
+    expect(JSON.parse(enabled.body).schedule.enabled).toBe(true);
+  });
+
+  it('should return 404 for an unknown schedule', async () => {
+    mockImportScheduler.setScheduleEnabled.mockRejectedValueOnce(new ScheduleNotFoundError('missing'));
+    const response = await app.inject({ method: 'POST', url: '/schedules/missing/enable' });
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should trigger a schedule and return the import job', async () => {
+    mockImportScheduler.triggerSchedule.mockResolvedValueOnce({ id: 'job-1', status: 'queued', filePath: '/app/clients/CLIENTES_IN_0425.dat' });
+    const response = await app.inject({ method: 'POST', url: '/schedules/schedule-1/trigger' });
+    expect(response.statusCode).toBe(202);
+    expect(JSON.parse(response.body)).toEqual({
+      message: 'Import accepted',
+      jobId: 'job-1',
+      status: 'queued',
+      filePath: '/app/clients/CLIENTES_IN_0425.dat'
+    });
+  });
+
+  it('should return 409 when no file matches', async () => {
+    mockImportScheduler.triggerSchedule.mockRejectedValueOnce(new NoMatchingFileError('CLIENTES_IN_*.dat', '/app/clients'));
+    const response = await app.inject({ method: 'POST', url: '/schedules/schedule-1/trigger' });
+    expect(response.statusCode).toBe(409);
+  });
+});
@@ -0,0 +1,196 @@
+import { container } from "../config/container";
+import { CreateScheduleOptions, IImportScheduler } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { INPUT_FORMATS } from "../services/customerParsers";
+import { DUPLICATE_POLICIES } from "../services/customerBulkWriter";
+import { InvalidScheduleError, NoMatchingFileError, ScheduleNotFoundError } from "../services/importScheduler";
+
+const scheduleSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        cron: { type: 'string' },
+        pattern: { type: 'string' },
+        format: { type: ['string', 'null'] },
+        duplicatePolicy: { type: 'string' },
+        enabled: { type: 'boolean' },
+        nextRunAt: { type: ['string', 'null'], format: 'date-time' },
+        lastRunAt: { type: ['string', 'null'], format: 'date-time' },
+        lastImportJobId: { type: ['string', 'null'] },
+        lastError: { type: ['string', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+    }
+};
+
+const scheduleParams = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', description: 'The schedule id' }
+    },
+    required: ['id']
+};
+
+const errorSchema = {
+    type: 'object',
+    properties: {
+        error: { type: 'string' },
+        message: { type: 'string' }
+    }
+};
+
+export default async function scheduleRoutes (fastify: FastifyInstance) {
+    const importScheduler = container.get<IImportScheduler>(TYPES.ImportScheduler);
+
+    // List schedules
+    fastify.get('/schedules', {
+        schema: {
+            description: 'List the recurring imports with their next run and the outcome of their last one',
+            tags: ['schedules'],
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        schedules: { type: 'array', items: scheduleSchema }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const schedules = await importScheduler.listSchedules();
+            return reply.status(200).send({ schedules });
+        } catch (error) {
+            fastify.log.error('Error listing schedules:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while listing schedules'
+            });
+        }
+    });
+
+    // Create a schedule
+    fastify.post('/schedules', {
+        schema: {
+            description: 'Create a recurring import. On every tick of the cron expression (server local time), the newest file in clients/ matching the pattern is imported as a regular import job',
+            tags: ['schedules'],
+            body: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', minLength: 1, maxLength: 100 },
+                    cron: { type: 'string', maxLength: 100, description: 'Five-field cron expression, e.g. "0 2 * * *" for every day at 02:00, or @hourly/@daily/@weekly/@monthly' },
+                    pattern: { type: 'string', minLength: 1, maxLength: 255, description: 'File name glob, e.g. CLIENTES_IN_*.dat' },
+                    format: { type: 'string', enum: INPUT_FORMATS, description: 'Input format; detected when omitted' },
+                    duplicatePolicy: { type: 'string', enum: DUPLICATE_POLICIES, default: 'skip' },
+                    enabled: { type: 'boolean', default: true }
+                },
+                required: ['name', 'cron', 'pattern']
+            },
+            response: {
+                201: {
+                    type: 'object',
+                    properties: {
+                        schedule: scheduleSchema
+                    }
+                },
+                400: errorSchema
+            }
+        }
+    }, async (request: FastifyRequest<{ Body: CreateScheduleOptions }>, reply: FastifyReply) => {
+        try {
+            const schedule = await importScheduler.createSchedule(request.body);
+            return reply.status(201).send({ schedule });
+        } catch (error) {
+            if (error instanceof InvalidScheduleError) {
+                return reply.status(400).send({ error: 'Invalid schedule', message: error.message });
+            }
+            fastify.log.error('Error creating schedule:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while creating the schedule'
+            });
+        }
+    });
+
+    // Enable or disable a schedule
+    for (const action of ['enable', 'disable'] as const) {
+        fastify.post(`/schedules/:id/${action}`, {
+            schema: {
+                description: action === 'enable'
+                    ? 'Enable a schedule. It runs at its next tick from now; ticks missed while disabled are not caught up'
+                    : 'Disable a schedule. Imports it already started keep running',
+                tags: ['schedules'],
+                params: scheduleParams,
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            schedule: scheduleSchema
+                        }
+                    },
+                    404: errorSchema
+                }
+            }
+        }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            try {
+                const schedule = await importScheduler.setScheduleEnabled(request.params.id, action === 'enable');
+                return reply.status(200).send({ schedule });
+            } catch (error) {
+                if (error instanceof ScheduleNotFoundError) {
+                    return reply.status(404).send({ error: 'Schedule not found' });
+                }
+                fastify.log.error(`Error trying to ${action} schedule:`, error);
+                return reply.status(500).send({
+                    error: 'Internal server error',
+                    message: `An error occurred while trying to ${action} the schedule`
+                });
+            }
+        });
+    }
+
+    // Run a schedule now
+    fastify.post('/schedules/:id/trigger', {
+        schema: {
+            description: 'Run a schedule now, enabled or not, without changing its next run. Returns the import job to follow on /imports/:id',
+            tags: ['schedules'],
+            params: scheduleParams,
+            response: {
+                202: {
+                    type: 'object',
+                    properties: {
+                        message: { type: 'string' },
+                        jobId: { type: 'string' },
+                        status: { type: 'string' },
+                        filePath: { type: 'string' }
+                    }
+                },
+                404: errorSchema,
+                409: errorSchema
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        try {
+            const job = await importScheduler.triggerSchedule(request.params.id);
+            return reply.status(202).send({
+                message: 'Import accepted',
+                jobId: job.id,
+                status: job.status,
+                filePath: job.filePath
+            });
+        } catch (error) {
+            if (error instanceof ScheduleNotFoundError) {
+                return reply.status(404).send({ error: 'Schedule not found' });
+            }
+            if (error instanceof NoMatchingFileError) {
+                return reply.status(409).send({ error: 'No file to import', message: error.message });
+            }
+            fastify.log.error('Error triggering schedule:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while triggering the schedule'
+            });
+        }
+    });
+}
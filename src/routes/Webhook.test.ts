@@ -0,0 +1,113 @@
+import fastify from 'fastify';
+import webhookRoutes from './Webhook';
+import { container } from '../config/container';
+import { TYPES } from '../types/inversify';
+import { InvalidWebhookError, WebhookNotFoundError } from '../services/webhookService';
+
+const webhook = {
+  id: 'hook-1',
+  url: 'https://downstream.example.com/hooks/imports',
+  secret: 'a-shared-secret-value',
+  events: ['import.completed', 'import.failed', 'import.cancelled'],
+  description: 'Nightly load',
+  active: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+// Mock implementation of IWebhookService
+const mockWebhookService = {
+  createWebhook: jest.fn().mockResolvedValue(webhook),
+  listWebhooks: jest.fn().mockResolvedValue([webhook]),
+  deleteWebhook: jest.fn().mockResolvedValue(undefined),
+  getDeliveries: jest.fn(),
+  notifyImportFinished: jest.fn(),
+  retryPendingDeliveries: jest.fn()
+};
+
+describe('Webhook routes', () => {
+  let app: ReturnType<typeof fastify>;
+
+  beforeAll(async () => {
+    const rebinding = await (container as any).rebind(TYPES.WebhookService);
+    rebinding.toConstantValue(mockWebhookService);
+    app = fastify();
+    await app.register(webhookRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should register a webhook and return its secret once', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks',
+      payload: { url: webhook.url, events: ['import.completed'] }
+    });
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).webhook).toEqual(expect.objectContaining({ id: 'hook-1', secret: 'a-shared-secret-value' }));
+    expect(mockWebhookService.createWebhook).toHaveBeenCalledWith({ url: webhook.url, events: ['import.completed'] });
+  });
+
+  it('should return 400 for an unknown event', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks',
+      payload: { url: webhook.url, events: ['import.started'] }
+    });
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return 400 for a URL the service refuses', async () => {
+    mockWebhookService.createWebhook.mockRejectedValueOnce(new InvalidWebhookError('Webhook URL must use http or https: ftp://example.com'));
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks',
+      payload: { url: 'ftp://example.com' }
+    });
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toHaveProperty('error', 'Invalid webhook');
+  });
+
+  it('should list webhooks without their secrets', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/webhooks'
+    });
+    expect(response.statusCode).toBe(200);
+    const [listed] = JSON.parse(response.body).webhooks;
+    expect(listed).toEqual(expect.objectContaining({ id: 'hook-1', url: webhook.url }));
+    expect(listed).not.toHaveProperty('secret');
+  });
+
+  it('should list the deliveries of a webhook', async () => {
+    mockWebhookService.getDeliveries.mockResolvedValueOnce([
+      { id: 'delivery-1', importJobId: 'job-1', event: 'import.completed', status: 'pending', attempts: 2, lastStatusCode: 503, lastError: 'HTTP 503', createdAt: new Date() }
+    ]);
+    const response = await app.inject({
+      method: 'GET',
+      url: '/webhooks/hook-1/deliveries?limit=10'
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).deliveries[0]).toEqual(expect.objectContaining({ status: 'pending', attempts: 2, lastStatusCode: 503 }));
+    expect(mockWebhookService.getDeliveries).toHaveBeenCalledWith('hook-1', 10);
+  });
+
+  it('should delete a webhook', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: '/webhooks/hook-1'
+    });
+    expect(response.statusCode).toBe(204);
+  });
+
+  it('should return 404 for an unknown webhook', async () => {
+    mockWebhookService.deleteWebhook.mockRejectedValueOnce(new WebhookNotFoundError('missing'));
+    const response = await app.inject({
+      method: 'DELETE',
+      url: '/webhooks/missing'
+    });
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,205 @@
+import { container } from "../config/container";
+import { CreateWebhookOptions, IWebhookService } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { WEBHOOK_EVENTS } from "../entities/Webhook";
+import { InvalidWebhookError, WebhookNotFoundError } from "../services/webhookService";
+
+// The secret is only returned once, when the webhook is created
+const webhookSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        url: { type: 'string' },
+        events: { type: 'array', items: { type: 'string' } },
+        description: { type: ['string', 'null'] },
+        active: { type: 'boolean' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+    }
+};
+
+const deliverySchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        importJobId: { type: 'string' },
+        event: { type: 'string' },
+        status: { type: 'string' },
+        attempts: { type: 'number' },
+        lastStatusCode: { type: ['number', 'null'] },
+        lastError: { type: ['string', 'null'] },
+        lastAttemptAt: { type: ['string', 'null'], format: 'date-time' },
+        nextAttemptAt: { type: ['string', 'null'], format: 'date-time' },
+        deliveredAt: { type: ['string', 'null'], format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' }
+    }
+};
+
+export default async function webhookRoutes (fastify: FastifyInstance) {
+    const webhookService = container.get<IWebhookService>(TYPES.WebhookService);
+
+    // List registered webhooks
+    fastify.get('/webhooks', {
+        schema: {
+            description: 'List the webhooks notified when imports finish',
+            tags: ['webhooks'],
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        webhooks: { type: 'array', items: webhookSchema }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const webhooks = await webhookService.listWebhooks();
+            return reply.status(200).send({ webhooks });
+        } catch (error) {
+            fastify.log.error('Error listing webhooks:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while listing webhooks'
+            });
+        }
+    });
+
+    // Register a webhook
+    fastify.post('/webhooks', {
+        schema: {
+            description: 'Register a URL to receive a signed JSON POST when an import completes, fails or is cancelled. The secret used for the X-Webhook-Signature header is only returned here',
+            tags: ['webhooks'],
+            body: {
+                type: 'object',
+                properties: {
+                    url: { type: 'string', format: 'uri', description: 'http(s) URL to POST to' },
+                    secret: { type: 'string', minLength: 16, description: 'Signing secret; generated when omitted' },
+                    events: {
+                        type: 'array',
+                        items: { type: 'string', enum: WEBHOOK_EVENTS },
+                        minItems: 1,
+                        uniqueItems: true,
+                        description: 'Events to receive; all of them when omitted'
+                    },
+                    description: { type: 'string', maxLength: 255 }
+                },
+                required: ['url']
+            },
+            response: {
+                201: {
+                    type: 'object',
+                    properties: {
+                        webhook: {
+                            ...webhookSchema,
+                            properties: {
+                                ...webhookSchema.properties,
+                                secret: { type: 'string' }
+                            }
+                        }
+                    }
+                },
+                400: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' },
+                        message: { type: 'string' }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Body: CreateWebhookOptions }>, reply: FastifyReply) => {
+        try {
+            const webhook = await webhookService.createWebhook(request.body);
+            return reply.status(201).send({ webhook });
+        } catch (error) {
+            if (error instanceof InvalidWebhookError) {
+                return reply.status(400).send({ error: 'Invalid webhook', message: error.message });
+            }
+            fastify.log.error('Error creating webhook:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while creating the webhook'
+            });
+        }
+    });
+
+    // Remove a webhook
+    fastify.delete('/webhooks/:id', {
+        schema: {
+            description: 'Remove a webhook. Its delivery history is kept',
+            tags: ['webhooks'],
+            params: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: 'The webhook id' }
+                },
+                required: ['id']
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        try {
+            await webhookService.deleteWebhook(request.params.id);
+            return reply.status(204).send();
+        } catch (error) {
+            if (error instanceof WebhookNotFoundError) {
+                return reply.status(404).send({ error: 'Webhook not found' });
+            }
+            fastify.log.error('Error deleting webhook:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while deleting the webhook'
+            });
+        }
+    });
+
+    // Delivery history of a webhook
+    fastify.get('/webhooks/:id/deliveries', {
+        schema: {
+            description: 'Recent deliveries of a webhook, newest first, with the outcome of their last attempt',
+            tags: ['webhooks'],
+            params: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: 'The webhook id' }
+                },
+                required: ['id']
+            },
+            querystring: {
+                type: 'object',
+                properties: {
+                    limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        deliveries: { type: 'array', items: deliverySchema }
+                    }
+                },
+                404: {
+                    type: 'object',
+                    properties: {
+                        error: { type: 'string' }
+                    }
+                }
+            }
+        }
+    }, async (request: FastifyRequest<{ Params: { id: string }, Querystring: { limit?: number } }>, reply: FastifyReply) => {
+        try {
+            const deliveries = await webhookService.getDeliveries(request.params.id, request.query.limit);
+            return reply.status(200).send({ deliveries });
+        } catch (error) {
+            if (error instanceof WebhookNotFoundError) {
+                return reply.status(404).send({ error: 'Webhook not found' });
+            }
+            fastify.log.error('Error getting webhook deliveries:', error);
+            return reply.status(500).send({
+                error: 'Internal server error',
+                message: 'An error occurred while getting webhook deliveries'
+            });
+        }
+    });
+}
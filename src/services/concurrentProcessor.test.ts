@@ -0,0 +1,86 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConcurrentProcessor, WorkerMessage } from './concurrentProcessor';
+
+// Stands in for a worker thread: the test sends its messages and exit
+class FakeWorker extends EventEmitter {
+  postMessage = jest.fn();
+  terminate = jest.fn(async () => {
+    this.emit('exit', 1);
+    return 1;
+  });
+
+  report(message: WorkerMessage) {
+    this.emit('message', message);
+  }
+}
+
+const result = (chunkId: number, stopped: boolean) => ({
+  type: 'result' as const,
+  result: { chunkId, stopped, processed: 0, inserted: 0, updated: 0, errors: 0, errorsByReason: {}, duplicates: 0, startLine: 0, endLine: 2 }
+});
+
+describe('ConcurrentProcessor workers', () => {
+  let dir: string;
+  let filePath: string;
+  let processor: ConcurrentProcessor;
+  let workers: FakeWorker[];
+
+  const nextWorker = async () => {
+    for (let i = 0; i < 100 && workers.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    return workers.shift() as FakeWorker;
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'concurrent-processor-'));
+    filePath = path.join(dir, 'clients.dat');
+    fs.writeFileSync(filePath, '001001|Ana|López|ana@example.com|30\n001002|Luis|Pérez|luis@example.com|41\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    processor = new ConcurrentProcessor(1, 1000);
+    workers = [];
+    jest.spyOn(processor as any, 'createWorker').mockImplementation(() => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should fail a chunk whose worker exits without reporting it', async () => {
+    const run = processor.processFileConcurrently(filePath);
+    (await nextWorker()).emit('exit', 0);
+
+    await expect(run).rejects.toThrow('Worker exited with code 0 without reporting chunk 0');
+  });
+
+  it('should not terminate the workers of a later run once a stopped run ended', async () => {
+    (processor as any).STOP_GRACE_MS = 30;
+
+    const stopped = processor.processFileConcurrently(filePath);
+    const first = await nextWorker();
+    processor.stopProcessing();
+    first.report(result(0, true));
+    await expect(stopped).resolves.toHaveProperty('cancelled', true);
+
+    const next = processor.processFileConcurrently(filePath);
+    const second = await nextWorker();
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(second.terminate).not.toHaveBeenCalled();
+
+    second.report(result(0, false));
+    await expect(next).resolves.toHaveProperty('cancelled', false);
+  });
+});
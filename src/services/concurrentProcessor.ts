@@ -2,26 +2,117 @@ import { Worker } from 'worker_threads';
 import * as path from 'path';
 import * as fs from 'fs';
 import { EventEmitter } from 'events';
-
+import { randomUUID } from 'crypto';
+import type { config as SqlConfig } from 'mssql';
+import { CheckpointTotals, ConcurrentCheckpoint } from '../interfaces/services';
+import { ErrorCounts, mergeErrorCounts } from './customerLine';
+import { ParserConfig } from './customerParsers';
+import { DuplicatePolicy } from './customerBulkWriter';
+import { PauseGate } from './pauseGate';
+import { ImportTuner } from './importTuner';
+
+/**
+ * A slice of the input file. Byte offsets are aligned to newline boundaries
+ * so a worker can stream its slice directly; line numbers are zero-based
+ * (endLine/endByte exclusive) and only used for reporting.
+ */
 export interface ProcessingChunk {
+    chunkId: number;
+    startByte: number;
+    endByte: number;
     startLine: number;
     endLine: number;
-    chunkId: number;
+}
+
+export interface WorkerData {
+    jobId: string;
+    filePath: string;
+    chunk: ProcessingChunk;
+    parser: ParserConfig;
+    duplicatePolicy: DuplicatePolicy;
+    dryRun: boolean;
+    // Rows per bulk insert / transaction, as tuned when the chunk was dispatched
+    batchSize: number;
+    databaseConfig: SqlConfig;
 }
 
 export interface WorkerResult {
     chunkId: number;
+    // Stopped before the end of the chunk; what it committed was reported as progress
+    stopped: boolean;
     processed: number;
+    inserted: number;
+    updated: number;
     errors: number;
+    errorsByReason: ErrorCounts;
     duplicates: number;
     startLine: number;
     endLine: number;
 }
 
+/**
+ * Posted by a worker after each committed batch. Counts are cumulative for
+ * this worker run; byteOffset/line point at the first uncommitted line.
+ */
+export interface WorkerProgress {
+    chunkId: number;
+    byteOffset: number;
+    line: number;
+    processed: number;
+    inserted: number;
+    updated: number;
+    errors: number;
+    errorsByReason: ErrorCounts;
+    duplicates: number;
+    // How long committing the batch took
+    writeMs: number;
+}
+
+// 'failed': the chunk hit an error that must fail the whole import
+export type WorkerMessage =
+    | { type: 'progress'; progress: WorkerProgress }
+    | { type: 'result'; result: WorkerResult }
+    | { type: 'failed'; error: string };
+
+// Sent to a worker: finish the current batch and stop reading
+export type WorkerCommand = { type: 'stop' };
+
+// Rows per worker batch when no tuner sets it
+const DEFAULT_BATCH_SIZE = 500;
+
+// Per-import settings every worker of the run receives
+type ChunkSettings = Pick<WorkerData, 'parser' | 'duplicatePolicy' | 'dryRun'>;
+
+export interface ConcurrentProcessingOptions {
+    jobId?: string;
+    // Defaults to the pipe-delimited format
+    parser?: ParserConfig;
+    duplicatePolicy?: DuplicatePolicy;
+    // Workers count what they would write instead of writing customers
+    dryRun?: boolean;
+    resumeFrom?: ConcurrentCheckpoint | null;
+    onCheckpoint?: (checkpoint: ConcurrentCheckpoint) => void;
+    // Aborting it stops the run like stopProcessing()
+    signal?: AbortSignal;
+    // While paused no new chunk is dispatched; running ones finish
+    pause?: PauseGate;
+    // Sets the worker count and batch size as the run goes, and holds dispatching while memory is short
+    tuner?: ImportTuner;
+}
+
+export type ConcurrentProcessingResult = CheckpointTotals & {
+    totalLines: number;
+    // Stopped before every chunk was done
+    cancelled: boolean;
+};
+
 export interface ConcurrentProcessingStats {
     totalLines: number;
     processed: number;
+    inserted: number;
+    updated: number;
     errors: number;
+    errorsByReason: ErrorCounts;
     duplicates: number;
     activeWorkers: number;
     completedChunks: number;
@@ -31,13 +122,29 @@ export interface ConcurrentProcessingStats {
     rate: number;
 }
 
+// Emits 'progress' (ConcurrentProcessingStats) after every committed batch and 'chunk' (WorkerResult) when a chunk is done
 export class ConcurrentProcessor extends EventEmitter {
-    private readonly maxWorkers: number;
+    private maxWorkers: number;
     private readonly chunkSize: number;
+    // How long stopped workers get to commit their current batch before being terminated
+    private readonly STOP_GRACE_MS = 30000;
     private activeWorkers: Map<number, Worker> = new Map();
     private completedResults: WorkerResult[] = [];
     private processingStats: ConcurrentProcessingStats;
     private isProcessing: boolean = false;
+    private stopping: boolean = false;
+    // Terminates the workers a stop asked to wind down, unless the run ends first
+    private stopTimer?: NodeJS.Timeout;
+    private pauseGate?: PauseGate;
+    private tuner?: ImportTuner;
+    // Fills free worker slots again after a resume or stop (set while chunks are being dispatched)
+    private wakeDispatcher?: () => void;
+    // Checkpoint bookkeeping for the current run
+    private onCheckpoint?: (checkpoint: ConcurrentCheckpoint) => void;
+    private committedTotals: CheckpointTotals = { processed: 0, inserted: 0, updated: 0, errors: 0, errorsByReason: {}, duplicates: 0 };
+    private completedBelow: number = 0;
+    private completedChunkIds: Set<number> = new Set();
+    private partialChunks: Map<number, WorkerProgress> = new Map();
 
     constructor(maxWorkers: number = 4, chunkSize: number = 1000) {
         super();
@@ -50,7 +157,10 @@ export class ConcurrentProcessor extends EventEmitter {
         return {
             totalLines: 0,
             processed: 0,
+            inserted: 0,
+            updated: 0,
             errors: 0,
+            errorsByReason: {},
             duplicates: 0,
             activeWorkers: 0,
             completedChunks: 0,
@@ -61,107 +171,245 @@ export class ConcurrentProcessor extends EventEmitter {
         };
     }
 
-    async processFileConcurrently(filePath: string): Promise<{ processed: number; errors: number; duplicates: number }> {
+    async processFileConcurrently(filePath: string, options: ConcurrentProcessingOptions = {}): Promise<ConcurrentProcessingResult> {
         if (this.isProcessing) {
             throw new Error('Already processing a file');
         }
 
+        const { jobId = randomUUID(), duplicatePolicy = 'skip', dryRun = false, resumeFrom, onCheckpoint, signal, pause, tuner } = options;
+        const parser = options.parser ?? { format: 'pipe', dataStartByte: 0, dataStartLine: 0 };
+        if (resumeFrom && resumeFrom.chunkSize !== this.chunkSize) {
+            throw new Error(`Checkpoint was taken with ${resumeFrom.chunkSize} lines per chunk, processor uses ${this.chunkSize}`);
+        }
+
         this.isProcessing = true;
+        this.stopping = false;
         this.processingStats = this.initializeStats();
         this.processingStats.startTime = new Date();
+        this.onCheckpoint = onCheckpoint;
+        this.committedTotals = {
+            processed: resumeFrom?.processed ?? 0,
+            inserted: resumeFrom?.inserted ?? 0,
+            updated: resumeFrom?.updated ?? 0,
+            errors: resumeFrom?.errors ?? 0,
+            errorsByReason: { ...resumeFrom?.errorsByReason },
+            duplicates: resumeFrom?.duplicates ?? 0
+        };
+        this.completedBelow = resumeFrom?.completedBelow ?? 0;
+        this.completedChunkIds = new Set(resumeFrom?.completedChunks ?? []);
+        // Carry partial chunk positions over (their counts are already in the totals) until they report again
+        this.partialChunks = new Map((resumeFrom?.partialChunks ?? []).map(partial => [partial.chunkId, {
+            ...partial,
+            processed: 0,
+            inserted: 0,
+            updated: 0,
+            errors: 0,
+            errorsByReason: {},
+            duplicates: 0,
+            writeMs: 0
+        }]));
+
+        const stop = () => this.stopProcessing();
+        signal?.addEventListener('abort', stop);
+        this.pauseGate = pause;
+        const onPause = () => console.log(`⏸️  Concurrent processing paused: ${this.activeWorkers.size} running chunk(s) will finish`);
+        const onResume = () => {
+            console.log('▶️  Concurrent processing resumed');
+            this.wakeDispatcher?.();
+        };
+        pause?.on('pause', onPause);
+        pause?.on('resume', onResume);
+        this.tuner = tuner;
+        // Fewer workers take effect as running chunks finish, more right away
+        const onTuned = () => {
+            this.maxWorkers = tuner?.workers ?? this.maxWorkers;
+            this.wakeDispatcher?.();
+        };
+        onTuned();
+        tuner?.on('adjust', onTuned);
+        tuner?.on('release', onTuned);
 
         try {
-            // Count total lines
-            this.processingStats.totalLines = await this.countLines(filePath);
-            console.log(`📊 Total lines to process: ${this.processingStats.totalLines}`);
-
-            // Create chunks
-            const chunks = this.createChunks(this.processingStats.totalLines);
+            // Split the file into newline-aligned byte ranges (single pass, also counts lines)
+            const { chunks, totalLines } = await this.createChunks(filePath, parser.dataStartByte, parser.dataStartLine);
+            const pendingChunks = this.pendingChunks(chunks, resumeFrom);
+            this.processingStats.totalLines = totalLines;
             this.processingStats.totalChunks = chunks.length;
+            this.processingStats.completedChunks = chunks.length - pendingChunks.length;
+            this.updateTotals();
+            console.log(`📊 Total lines to process: ${this.processingStats.totalLines}`);
             console.log(`🔧 Created ${chunks.length} chunks with ${this.chunkSize} lines each`);
+            if (resumeFrom) {
+                console.log(`⏯️  Resuming: ${this.processingStats.completedChunks} chunks already committed`);
+            }
 
             // Process chunks with worker threads
-            const results = await this.processChunksWithWorkers(filePath, chunks);
-
-            // Aggregate results
-            const finalStats = this.aggregateResults(results);
-            this.logFinalStats(finalStats);
+            if (signal?.aborted) {
+                this.stopping = true;
+            }
+            await this.processChunksWithWorkers(jobId, filePath, { parser, duplicatePolicy, dryRun }, pendingChunks);
+
+            // Stopped chunks count what they committed, so the live totals are the final ones
+            const finalStats = { ...this.processingStats, errorsByReason: { ...this.processingStats.errorsByReason } };
+            if (this.stopping) {
+                console.log(`🛑 Concurrent processing stopped: ${finalStats.processed} processed, ${finalStats.errors} errors, ${finalStats.duplicates} duplicates`);
+            } else {
+                this.logFinalStats(finalStats);
+            }
 
-            return finalStats;
+            return {
+                processed: finalStats.processed,
+                inserted: finalStats.inserted,
+                updated: finalStats.updated,
+                errors: finalStats.errors,
+                errorsByReason: finalStats.errorsByReason,
+                duplicates: finalStats.duplicates,
+                totalLines: finalStats.totalLines,
+                cancelled: this.stopping
+            };
 
         } catch (error) {
             console.error('Error in concurrent processing:', error);
+            // Don't leave the other chunks writing for an import that already failed
+            this.activeWorkers.forEach(worker => worker.terminate());
             throw error;
         } finally {
+            signal?.removeEventListener('abort', stop);
+            pause?.off('pause', onPause);
+            pause?.off('resume', onResume);
+            tuner?.off('adjust', onTuned);
+            tuner?.off('release', onTuned);
+            this.pauseGate = undefined;
+            this.tuner = undefined;
+            this.wakeDispatcher = undefined;
+            clearTimeout(this.stopTimer);
+            this.stopTimer = undefined;
             this.isProcessing = false;
             this.activeWorkers.clear();
         }
     }
 
-    private createChunks(totalLines: number): ProcessingChunk[] {
+    // Chunks cover the file from startByte (past any header line), which is line startLine
+    private async createChunks(filePath: string, startByte: number = 0, startLine: number = 0): Promise<{ chunks: ProcessingChunk[]; totalLines: number }> {
         const chunks: ProcessingChunk[] = [];
-        let chunkId = 0;
+        let bytesRead = startByte;
+        let totalLines = startLine;
+        let lastByte = -1;
+        let chunkStartByte = startByte;
+        let chunkStartLine = startLine;
+
+        for await (const buffer of fs.createReadStream(filePath, { start: startByte }) as AsyncIterable<Buffer>) {
+            let newline = buffer.indexOf(0x0a);
+
+            while (newline !== -1) {
+                totalLines++;
+
+                if (totalLines - chunkStartLine >= this.chunkSize) {
+                    const endByte = bytesRead + newline + 1;
+                    chunks.push({
+                        chunkId: chunks.length,
+                        startByte: chunkStartByte,
+                        endByte,
+                        startLine: chunkStartLine,
+                        endLine: totalLines
+                    });
+                    chunkStartByte = endByte;
+                    chunkStartLine = totalLines;
+                }
+
+                newline = buffer.indexOf(0x0a, newline + 1);
+            }
+
+            if (buffer.length > 0) {
+                lastByte = buffer[buffer.length - 1];
+            }
+            bytesRead += buffer.length;
+        }
+
+        // A last line without a trailing newline still counts, as it does for readline
+        if (bytesRead > startByte && lastByte !== 0x0a) {
+            totalLines++;
+        }
 
-        for (let startLine = 0; startLine < totalLines; startLine += this.chunkSize) {
-            const endLine = Math.min(startLine + this.chunkSize, totalLines);
+        if (bytesRead > chunkStartByte) {
             chunks.push({
-                startLine,
-                endLine,
-                chunkId: chunkId++
+                chunkId: chunks.length,
+                startByte: chunkStartByte,
+                endByte: bytesRead,
+                startLine: chunkStartLine,
+                endLine: totalLines
             });
         }
 
-        return chunks;
+        return { chunks, totalLines };
     }
 
-    private async processChunksWithWorkers(filePath: string, chunks: ProcessingChunk[]): Promise<WorkerResult[]> {
+    private async processChunksWithWorkers(jobId: string, filePath: string, settings: ChunkSettings, chunks: ProcessingChunk[]): Promise<WorkerResult[]> {
         return new Promise((resolve, reject) => {
             const results: WorkerResult[] = [];
             let completedChunks = 0;
             let nextChunkIndex = 0;
+            let inFlight = 0;
+
+            // Done when every chunk finished, or when stopping and the running ones wound down
+            // (a paused run with nothing in flight just waits for the resume)
+            const resolveWhenDone = () => {
+                if (inFlight === 0 && (this.stopping || nextChunkIndex >= chunks.length)) {
+                    resolve(results);
+                }
+            };
 
             const processNextChunk = () => {
-                if (nextChunkIndex >= chunks.length) {
+                if (this.stopping || nextChunkIndex >= chunks.length) {
                     return; // No more chunks to process
                 }
 
+                if (this.pauseGate?.paused) {
+                    return; // Dispatched again on resume
+                }
+
+                if (this.tuner?.readingHeld) {
+                    return; // Memory is short; dispatched again on release
+                }
+
                 if (this.activeWorkers.size >= this.maxWorkers) {
                     return; // Max workers reached
                 }
 
                 const chunk = chunks[nextChunkIndex++];
-                this.processChunk(filePath, chunk)
+                inFlight++;
+                this.processChunk(jobId, filePath, settings, chunk)
                     .then(result => {
+                        inFlight--;
                         results.push(result);
-                        completedChunks++;
-                        this.processingStats.completedChunks = completedChunks;
-                        this.processingStats.processed += result.processed;
-                        this.processingStats.errors += result.errors;
-                        this.processingStats.duplicates += result.duplicates;
-
-                        // Calculate progress
-                        const progress = (completedChunks / chunks.length) * 100;
-                        this.processingStats.progress = Math.round(progress * 100) / 100;
-
-                        // Calculate rate
-                        const elapsed = Date.now() - this.processingStats.startTime.getTime();
-                        this.processingStats.rate = this.processingStats.processed / (elapsed / 1000);
-
-                        // Log progress every 10 chunks
-                        if (completedChunks % 10 === 0 || completedChunks === chunks.length) {
-                            this.logProgress();
-                        }
 
-                        // Emit progress event
-                        this.emit('progress', this.processingStats);
+                        // A stopped chunk stays pending; its committed part is already in partialChunks
+                        if (!result.stopped) {
+                            completedChunks++;
+                            this.recordChunkCompleted(result);
+                            this.processingStats.completedChunks++;
 
-                        // Process next chunk
-                        processNextChunk();
+                            // Calculate progress
+                            const progress = (this.processingStats.completedChunks / this.processingStats.totalChunks) * 100;
+                            this.processingStats.progress = Math.round(progress * 100) / 100;
+
+                            // Calculate rate
+                            const elapsed = Date.now() - this.processingStats.startTime.getTime();
+                            this.processingStats.rate = this.processingStats.processed / (elapsed / 1000);
+
+                            // Log progress every 10 chunks
+                            if (this.processingStats.completedChunks % 10 === 0 || completedChunks === chunks.length) {
+                                this.logProgress();
+                            }
 
-                        // Check if all chunks are completed
-                        if (completedChunks === chunks.length) {
-                            resolve(results);
+                            // Emit chunk and progress events
+                            this.emit('chunk', result);
+                            this.emit('progress', this.processingStats);
                         }
+
+                        // Process next chunk
+                        processNextChunk();
+                        resolveWhenDone();
                     })
                     .catch(error => {
                         console.error(`Error processing chunk ${chunk.chunkId}:`, error);
@@ -170,89 +418,192 @@ export class ConcurrentProcessor extends EventEmitter {
             };
 
             // Start processing chunks
-            for (let i = 0; i < Math.min(this.maxWorkers, chunks.length); i++) {
-                processNextChunk();
-            }
+            this.wakeDispatcher = () => {
+                for (let i = 0; i < this.maxWorkers; i++) {
+                    processNextChunk();
+                }
+                resolveWhenDone();
+            };
+            this.wakeDispatcher(); // Empty file or stopped before starting: nothing is dispatched
         });
     }
 
-    private async processChunk(filePath: string, chunk: ProcessingChunk): Promise<WorkerResult> {
+    private async processChunk(jobId: string, filePath: string, settings: ChunkSettings, chunk: ProcessingChunk): Promise<WorkerResult> {
         return new Promise((resolve, reject) => {
-            const worker = new Worker(path.join(__dirname, 'fileProcessorWorker.js'), {
-                workerData: {
-                    filePath,
-                    chunk,
-                    databaseConfig: {
-                        server: process.env.DB_HOST || 'localhost',
-                        port: parseInt(process.env.DB_PORT || '1433'),
-                        user: process.env.DB_USERNAME || 'sa',
-                        password: process.env.DB_PASSWORD || '',
-                        database: process.env.DB_NAME || 'master',
-                        options: {
-                            encrypt: process.env.NODE_ENV === 'production',
-                            trustServerCertificate: process.env.NODE_ENV !== 'production',
-                            enableArithAbort: true
-                        }
+            const worker = this.createWorker({
+                jobId,
+                filePath,
+                chunk,
+                ...settings,
+                batchSize: this.tuner?.batchSize ?? DEFAULT_BATCH_SIZE,
+                databaseConfig: {
+                    server: process.env.DB_HOST || 'localhost',
+                    port: parseInt(process.env.DB_PORT || '1433'),
+                    user: process.env.DB_USERNAME || 'sa',
+                    password: process.env.DB_PASSWORD || '',
+                    database: process.env.DB_NAME || 'master',
+                    options: {
+                        encrypt: process.env.NODE_ENV === 'production',
+                        trustServerCertificate: process.env.NODE_ENV !== 'production',
+                        enableArithAbort: true
                     }
                 }
             });
 
             this.activeWorkers.set(chunk.chunkId, worker);
             this.processingStats.activeWorkers = this.activeWorkers.size;
+            // Set once the worker reported how the chunk ended (or failed to start)
+            let reported = false;
+
+            worker.on('message', (message: WorkerMessage) => {
+                if (message.type === 'progress') {
+                    this.recordChunkProgress(message.progress);
+                    return;
+                }
 
-            worker.on('message', (result: WorkerResult) => {
+                reported = true;
                 this.activeWorkers.delete(chunk.chunkId);
                 this.processingStats.activeWorkers = this.activeWorkers.size;
-                resolve(result);
+                if (message.type === 'failed') {
+                    reject(new Error(message.error));
+                    return;
+                }
+                resolve(message.result);
             });
 
             worker.on('error', (error) => {
+                reported = true;
                 this.activeWorkers.delete(chunk.chunkId);
                 this.processingStats.activeWorkers = this.activeWorkers.size;
                 reject(error);
             });
 
             worker.on('exit', (code) => {
-                if (code !== 0) {
-                    reject(new Error(`Worker stopped with exit code ${code}`));
+                if (reported) {
+                    return;
+                }
+                this.activeWorkers.delete(chunk.chunkId);
+                this.processingStats.activeWorkers = this.activeWorkers.size;
+                if (this.stopping && code !== 0) {
+                    // Terminated after the grace period: its open transaction was rolled back
+                    resolve(this.stoppedResult(chunk));
+                    return;
                 }
+                // Even with code 0: nothing else would ever settle the chunk
+                reject(new Error(`Worker exited with code ${code} without reporting chunk ${chunk.chunkId}`));
             });
         });
     }
 
-    private async countLines(filePath: string): Promise<number> {
-        return new Promise((resolve, reject) => {
-            let lineCount = 0;
-            const stream = fs.createReadStream(filePath);
-            const readline = require('readline');
-
-            const rl = readline.createInterface({
-                input: stream,
-                crlfDelay: Infinity
+    /**
+     * Spawn the worker from whichever build we are running: the compiled
+     * fileProcessorWorker.js next to this file in dist/, or the .ts source
+     * (registered through tsx) when running with tsx in development.
+     */
+    private createWorker(workerData: WorkerData): Worker {
+        const extension = path.extname(__filename);
+        const workerPath = path.join(__dirname, `fileProcessorWorker${extension}`);
+
+        if (extension === '.ts') {
+            return new Worker(`require('tsx/cjs'); require(${JSON.stringify(workerPath)});`, {
+                eval: true,
+                workerData
             });
+        }
 
-            rl.on('line', () => {
-                lineCount++;
-            });
+        return new Worker(workerPath, { workerData });
+    }
+
+    /**
+     * Drop the chunks a checkpoint marks as committed and move partially
+     * committed ones to their first uncommitted line.
+     */
+    private pendingChunks(chunks: ProcessingChunk[], resumeFrom?: ConcurrentCheckpoint | null): ProcessingChunk[] {
+        if (!resumeFrom) {
+            return chunks;
+        }
+
+        const partials = new Map(resumeFrom.partialChunks.map(partial => [partial.chunkId, partial]));
 
-            rl.on('close', () => {
-                resolve(lineCount);
+        return chunks
+            .filter(chunk => chunk.chunkId >= this.completedBelow && !this.completedChunkIds.has(chunk.chunkId))
+            .map(chunk => {
+                const partial = partials.get(chunk.chunkId);
+                return partial
+                    ? { ...chunk, startByte: partial.byteOffset, startLine: partial.line }
+                    : chunk;
             });
+    }
+
+    private recordChunkProgress(progress: WorkerProgress): void {
+        this.tuner?.recordBatch(progress.writeMs);
+        this.partialChunks.set(progress.chunkId, progress);
+        this.updateTotals();
+        this.emitCheckpoint();
+        this.emit('progress', this.processingStats);
+    }
+
+    private recordChunkCompleted(result: WorkerResult): void {
+        this.partialChunks.delete(result.chunkId);
+        this.committedTotals.processed += result.processed;
+        this.committedTotals.inserted += result.inserted;
+        this.committedTotals.updated += result.updated;
+        this.committedTotals.errors += result.errors;
+        mergeErrorCounts(this.committedTotals.errorsByReason, result.errorsByReason);
+        this.committedTotals.duplicates += result.duplicates;
+
+        // Chunks are dispatched in order, so completed ids collapse into a watermark
+        this.completedChunkIds.add(result.chunkId);
+        while (this.completedChunkIds.delete(this.completedBelow)) {
+            this.completedBelow++;
+        }
+
+        this.updateTotals();
+        this.emitCheckpoint();
+    }
 
-            rl.on('error', reject);
+    // Live totals: finished chunks plus whatever in-flight workers already committed
+    private updateTotals(): void {
+        let { processed, inserted, updated, errors, duplicates } = this.committedTotals;
+        const errorsByReason = { ...this.committedTotals.errorsByReason };
+        this.partialChunks.forEach(partial => {
+            processed += partial.processed;
+            inserted += partial.inserted;
+            updated += partial.updated;
+            errors += partial.errors;
+            mergeErrorCounts(errorsByReason, partial.errorsByReason);
+            duplicates += partial.duplicates;
         });
+        this.processingStats.processed = processed;
+        this.processingStats.inserted = inserted;
+        this.processingStats.updated = updated;
+        this.processingStats.errors = errors;
+        this.processingStats.errorsByReason = errorsByReason;
+        this.processingStats.duplicates = duplicates;
     }
 
-    private aggregateResults(results: WorkerResult[]): { processed: number; errors: number; duplicates: number } {
-        const totalProcessed = results.reduce((sum, result) => sum + result.processed, 0);
-        const totalErrors = results.reduce((sum, result) => sum + result.errors, 0);
-        const totalDuplicates = results.reduce((sum, result) => sum + result.duplicates, 0);
+    private emitCheckpoint(): void {
+        if (!this.onCheckpoint) {
+            return;
+        }
 
-        return {
-            processed: totalProcessed,
-            errors: totalErrors,
-            duplicates: totalDuplicates
-        };
+        this.onCheckpoint({
+            mode: 'concurrent',
+            chunkSize: this.chunkSize,
+            processed: this.processingStats.processed,
+            inserted: this.processingStats.inserted,
+            updated: this.processingStats.updated,
+            errors: this.processingStats.errors,
+            errorsByReason: { ...this.processingStats.errorsByReason },
+            duplicates: this.processingStats.duplicates,
+            completedBelow: this.completedBelow,
+            completedChunks: Array.from(this.completedChunkIds),
+            partialChunks: Array.from(this.partialChunks.values()).map(partial => ({
+                chunkId: partial.chunkId,
+                byteOffset: partial.byteOffset,
+                line: partial.line
+            }))
+        });
     }
 
     private logProgress(): void {
@@ -262,14 +613,14 @@ export class ConcurrentProcessor extends EventEmitter {
         console.log(`   Active Workers: ${this.processingStats.activeWorkers}, Rate: ${this.processingStats.rate.toFixed(2)} records/sec`);
     }
 
-    private logFinalStats(finalStats: { processed: number; errors: number; duplicates: number }): void {
+    private logFinalStats(finalStats: CheckpointTotals): void {
         const elapsed = Date.now() - this.processingStats.startTime.getTime();
         const rate = this.processingStats.processed / (elapsed / 1000);
 
         console.log('\n🎉 Concurrent processing completed!');
         console.log(`📊 Final Stats:`);
-        console.log(`   Total processed: ${finalStats.processed}`);
-        console.log(`   Total errors: ${finalStats.errors}`);
+        console.log(`   Total processed: ${finalStats.processed} (${finalStats.inserted} inserted, ${finalStats.updated} updated)`);
+        console.log(`   Total errors: ${finalStats.errors} ${JSON.stringify(finalStats.errorsByReason)}`);
         console.log(`   Total duplicates: ${finalStats.duplicates}`);
         console.log(`   Total time: ${(elapsed / 1000).toFixed(2)} seconds`);
         console.log(`   Average rate: ${rate.toFixed(2)} records/sec`);
@@ -280,12 +631,40 @@ export class ConcurrentProcessor extends EventEmitter {
         return this.isProcessing ? this.processingStats : null;
     }
 
+    /**
+     * Stop dispatching chunks and ask the running workers to commit their
+     * current batch and stop. processFileConcurrently then resolves with
+     * cancelled: true; workers that don't stop in time are terminated.
+     */
     stopProcessing(): void {
-        if (this.isProcessing) {
-            console.log('🛑 Stopping concurrent processing...');
-            this.activeWorkers.forEach(worker => worker.terminate());
-            this.activeWorkers.clear();
-            this.isProcessing = false;
+        if (!this.isProcessing || this.stopping) {
+            return;
         }
+
+        console.log('🛑 Stopping concurrent processing...');
+        this.stopping = true;
+        const command: WorkerCommand = { type: 'stop' };
+        this.activeWorkers.forEach(worker => worker.postMessage(command));
+        this.wakeDispatcher?.(); // Paused with nothing in flight: finish right away
+
+        const stopped = Array.from(this.activeWorkers.values());
+        this.stopTimer = setTimeout(() => {
+            stopped.forEach(worker => worker.terminate());
+        }, this.STOP_GRACE_MS).unref();
+    }
+
+    private stoppedResult(chunk: ProcessingChunk): WorkerResult {
+        return {
+            chunkId: chunk.chunkId,
+            stopped: true,
+            processed: 0,
+            inserted: 0,
+            updated: 0,
+            errors: 0,
+            errorsByReason: {},
+            duplicates: 0,
+            startLine: chunk.startLine,
+            endLine: chunk.endLine
+        };
     }
 } 
\ No newline at end of file
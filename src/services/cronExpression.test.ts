@@ -0,0 +1,62 @@
+import { InvalidCronExpressionError, nextCronRun, parseCronExpression } from './cronExpression';
+
+// Local time, like the schedules
+const at = (year: number, month: number, day: number, hour: number = 0, minute: number = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+const next = (expression: string, after: Date) => nextCronRun(parseCronExpression(expression), after);
+
+describe('parseCronExpression', () => {
+  it('should expand lists, ranges, steps and names', () => {
+    const cron = parseCronExpression('0,30 8-10 */10 JAN-MAR mon-fri');
+    expect(Array.from(cron.minutes)).toEqual([0, 30]);
+    expect(Array.from(cron.hours)).toEqual([8, 9, 10]);
+    expect(Array.from(cron.daysOfMonth)).toEqual([1, 11, 21, 31]);
+    expect(Array.from(cron.months)).toEqual([1, 2, 3]);
+    expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect(Array.from(parseCronExpression('0 0 * * 5-7').daysOfWeek)).toEqual([5, 6, 0]);
+  });
+
+  it.each([
+    ['0 2 * *', 'expected 5 fields, got 4'],
+    ['60 2 * * *', 'minute "60" must be between 0 and 59'],
+    ['0 2 * * MON-XYZ', 'day of week "XYZ" must be between 0 and 7'],
+    ['0 10-2 * * *', 'invalid range in hour "10-2"'],
+    ['*/0 * * * *', 'invalid step in minute "*/0"']
+  ])('should reject "%s"', (expression, reason) => {
+    expect(() => parseCronExpression(expression)).toThrow(new InvalidCronExpressionError(expression, reason));
+  });
+});
+
+describe('nextCronRun', () => {
+  it('should find the next daily run', () => {
+    expect(next('0 2 * * *', at(2026, 4, 25, 1, 59))).toEqual(at(2026, 4, 25, 2, 0));
+    expect(next('0 2 * * *', at(2026, 4, 25, 2, 0))).toEqual(at(2026, 4, 26, 2, 0));
+    expect(next('@daily', at(2026, 12, 31, 23, 30))).toEqual(at(2027, 1, 1, 0, 0));
+  });
+
+  it('should always be a whole minute after the given time', () => {
+    const after = new Date(at(2026, 4, 25, 2, 0).getTime() + 12345);
+    expect(next('* * * * *', after)).toEqual(at(2026, 4, 25, 2, 1));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    expect(next('0 0 13 * 5', at(2026, 4, 1))).toEqual(at(2026, 4, 3));
+    expect(next('0 0 13 * 5', at(2026, 4, 10))).toEqual(at(2026, 4, 13));
+    // Only Fridays when the day of month is *
+    expect(next('0 0 * * 5', at(2026, 4, 10))).toEqual(at(2026, 4, 17));
+  });
+
+  it('should skip months without the day', () => {
+    expect(next('0 0 31 * *', at(2026, 4, 1))).toEqual(at(2026, 5, 31));
+    expect(next('0 0 29 2 *', at(2026, 3, 1))).toEqual(at(2028, 2, 29));
+  });
+
+  it('should return null when the expression never matches', () => {
+    expect(next('0 0 30 2 *', at(2026, 1, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+export class InvalidCronExpressionError extends Error {
+    constructor(expression: string, reason: string) {
+        super(`Invalid cron expression "${expression}": ${reason}`);
+        this.name = 'InvalidCronExpressionError';
+    }
+}
+
+/**
+ * Standard five-field cron expression (minute hour day-of-month month
+ * day-of-week) in the server's local time. Fields take *, lists, ranges and
+ * steps (`0 2 * * *`, `0,30 8-18 * * MON-FRI`); day-of-week 0 and 7 are
+ * Sunday. As in Vixie cron, when both day fields are restricted a day
+ * matching either one fires.
+ */
+export interface CronExpression {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+}
+
+const FIELDS: CronField[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+    { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const MACROS: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *'
+};
+
+// Give up looking for the next run after this many years
+const MAX_YEARS_AHEAD = 5;
+
+export function parseCronExpression(expression: string): CronExpression {
+    const fields = (MACROS[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+        throw new InvalidCronExpressionError(expression, `expected ${FIELDS.length} fields, got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(expression, field, FIELDS[index]));
+    // Sunday is both 0 and 7
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        // Like Vixie cron, `*/2` counts as unrestricted here too
+        anyDayOfMonth: fields[2].startsWith('*'),
+        anyDayOfWeek: fields[4].startsWith('*')
+    };
+}
+
+/**
+ * The first minute strictly after `after` that the expression matches, or
+ * null when it never matches (e.g. `0 0 30 2 *`).
+ */
+export function nextCronRun(cron: CronExpression, after: Date): Date | null {
+    const next = new Date(after.getTime());
+    next.setSeconds(0, 0);
+    next.setMinutes(next.getMinutes() + 1);
+    const lastYear = next.getFullYear() + MAX_YEARS_AHEAD;
+
+    while (next.getFullYear() <= lastYear) {
+        if (!cron.months.has(next.getMonth() + 1)) {
+            next.setMonth(next.getMonth() + 1, 1);
+            next.setHours(0, 0);
+        } else if (!matchesDay(cron, next)) {
+            next.setDate(next.getDate() + 1);
+            next.setHours(0, 0);
+        } else if (!cron.hours.has(next.getHours())) {
+            next.setHours(next.getHours() + 1, 0);
+        } else if (!cron.minutes.has(next.getMinutes())) {
+            next.setMinutes(next.getMinutes() + 1);
+        } else {
+            return next;
+        }
+    }
+    return null;
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+    const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+    const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+    if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+        return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+}
+
+function parseField(expression: string, field: string, spec: CronField): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText, ...rest] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+            throw new InvalidCronExpressionError(expression, `invalid step in ${spec.name} "${part}"`);
+        }
+
+        let from: number;
+        let to: number;
+        if (range === '*') {
+            [from, to] = [spec.min, spec.max];
+        } else {
+            const bounds = range.split('-');
+            if (bounds.length > 2) {
+                throw new InvalidCronExpressionError(expression, `invalid range in ${spec.name} "${part}"`);
+            }
+            from = parseValue(expression, bounds[0], spec);
+            // `5/10` means from 5 to the end of the field
+            to = bounds.length === 2 ? parseValue(expression, bounds[1], spec) : stepText === undefined ? from : spec.max;
+            if (from > to) {
+                throw new InvalidCronExpressionError(expression, `invalid range in ${spec.name} "${part}"`);
+            }
+        }
+
+        for (let value = from; value <= to; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+function parseValue(expression: string, text: string, spec: CronField): number {
+    const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + (spec.name === 'month' ? 1 : 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+        throw new InvalidCronExpressionError(expression, `${spec.name} "${text}" must be between ${spec.min} and ${spec.max}`);
+    }
+    return value;
+}
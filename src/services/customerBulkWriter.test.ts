@@ -0,0 +1,297 @@
+import { BatchOptions, checkCustomerBatch, DuplicateCustomerError, writeCustomerBatch, writeRejectedLines } from './customerBulkWriter';
+
+// Minimal in-memory stand-in for the mssql API used by the bulk writer
+const stored = new Map<string, { importJobId?: string; sourceLine?: number; firstName?: string }>();
+// dry_run_customer_ids of job-1
+const staged = new Set<string>();
+// rejected_lines by `${importJobId}:${lineNumber}`
+const rejectedLines = new Map<string, { rawLine: string }>();
+const bulk = jest.fn();
+const rollback = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('mssql', () => {
+  const request = () => {
+    const inputs: Record<string, any> = {};
+    const req: any = {
+      input: (name: string, _type: any, value: any) => {
+        inputs[name] = value;
+        return req;
+      },
+      query: async (text: string) => {
+        const keepNewest = text.includes('sourceLine <');
+        const canUpdate = (row: any) => {
+          const current = stored.get(row.customerId);
+          return !!current && (!keepNewest || current.importJobId !== inputs.importJobId || (current.sourceLine ?? 0) < row.sourceLine);
+        };
+        const update = (row: any) => stored.set(row.customerId, { importJobId: inputs.importJobId, sourceLine: row.sourceLine, firstName: row.firstName });
+
+        if (text.includes('OPENJSON(@customerIds)')) {
+          const ids: string[] = JSON.parse(inputs.customerIds);
+          const dryRun = text.includes('dry_run_customer_ids');
+          return { recordset: ids.filter(id => stored.has(id) || (dryRun && staged.has(id))).map(customerId => ({ customerId })) };
+        }
+        if (text.includes('INSERT INTO rejected_lines')) {
+          const rows = JSON.parse(inputs.rows).filter((row: any) => !rejectedLines.has(`${inputs.importJobId}:${row.lineNumber}`));
+          rows.forEach((row: any) => rejectedLines.set(`${inputs.importJobId}:${row.lineNumber}`, { rawLine: row.rawLine }));
+          return { rowsAffected: [rows.length] };
+        }
+        if (text.includes('OPENJSON(@rows)')) {
+          const rows = JSON.parse(inputs.rows).filter(canUpdate);
+          rows.forEach(update);
+          return { rowsAffected: [rows.length] };
+        }
+        if (text.includes('UPDATE customers')) {
+          if (canUpdate(inputs)) {
+            update(inputs);
+            return { rowsAffected: [1] };
+          }
+          if (stored.has(inputs.customerId)) {
+            return { rowsAffected: [0] };
+          }
+          update(inputs);
+          return { rowsAffected: [0, 1] };
+        }
+        if (stored.has(inputs.customerId)) {
+          return { rowsAffected: [0] };
+        }
+        update(inputs);
+        return { rowsAffected: [1] };
+      },
+      bulk: (table: any) => bulk(table)
+    };
+    return req;
+  };
+
+  class Table {
+    create = true;
+    columns = { add: jest.fn() };
+    rows: any = [];
+    constructor(public name: string) {
+      this.rows.add = (...values: any[]) => this.rows.push(values);
+    }
+  }
+
+  class Transaction {
+    begin = jest.fn().mockResolvedValue(undefined);
+    commit = jest.fn().mockResolvedValue(undefined);
+    rollback = rollback;
+    request = request;
+  }
+
+  const type = () => 'type';
+  return {
+    Transaction,
+    Table,
+    MAX: -1,
+    NVarChar: type,
+    VarChar: type,
+    UniqueIdentifier: 'uniqueidentifier',
+    Int: 'int',
+    DateTime2: 'datetime2'
+  };
+});
+
+const pool: any = {
+  request: () => new (require('mssql').Transaction)().request()
+};
+
+const customer = (customerId: string, sourceLine: number = 1, firstName: string = 'Test') => ({
+  customerId,
+  firstName,
+  lastName: 'User',
+  email: `${customerId}@example.com`,
+  age: 30,
+  sourceLine
+});
+
+const options = (duplicatePolicy: BatchOptions['duplicatePolicy']): BatchOptions => ({ importJobId: 'job-1', duplicatePolicy });
+
+describe('writeCustomerBatch', () => {
+  beforeEach(() => {
+    stored.clear();
+    bulk.mockReset();
+    rollback.mockClear();
+  });
+
+  it('bulk inserts new rows and counts existing and repeated ids as duplicates', async () => {
+    stored.set('002', {});
+    bulk.mockResolvedValue({ rowsAffected: 2 });
+
+    const result = await writeCustomerBatch(pool, [customer('001'), customer('002'), customer('003'), customer('001')], options('skip'));
+
+    expect(result).toEqual({ processed: 2, inserted: 2, updated: 0, errors: 0, duplicates: 2 });
+    expect(bulk).toHaveBeenCalledTimes(1);
+    expect(bulk.mock.calls[0][0].rows.map((row: any[]) => row[0])).toEqual(['001', '003']);
+  });
+
+  it('stores the search text of every inserted row', async () => {
+    bulk.mockResolvedValue({ rowsAffected: 1 });
+
+    await writeCustomerBatch(pool, [{ ...customer('001'), firstName: 'María', lastName: 'Núñez' }], options('skip'));
+
+    expect(bulk.mock.calls[0][0].rows[0]).toContain('maria nunez 001@example.com');
+  });
+
+  it('falls back to row by row inserts when the bulk insert fails', async () => {
+    bulk.mockImplementation(async () => {
+      stored.set('001', {}); // Inserted concurrently by another worker
+      throw new Error('Violation of UNIQUE KEY constraint');
+    });
+
+    const result = await writeCustomerBatch(pool, [customer('001'), customer('002')], options('skip'));
+
+    expect(rollback).toHaveBeenCalled();
+    expect(result).toEqual({ processed: 1, inserted: 1, updated: 0, errors: 0, duplicates: 1 });
+  });
+
+  it('updates existing customers on upsert, the last repeat in the batch winning', async () => {
+    stored.set('002', {});
+    bulk.mockResolvedValue({ rowsAffected: 1 });
+
+    const result = await writeCustomerBatch(pool, [customer('002', 1, 'Old'), customer('001', 2), customer('002', 3, 'New')], options('upsert'));
+
+    expect(result).toEqual({ processed: 3, inserted: 1, updated: 2, errors: 0, duplicates: 0 });
+    expect(stored.get('002')).toEqual({ importJobId: 'job-1', sourceLine: 3, firstName: 'New' });
+    expect(bulk.mock.calls[0][0].rows.map((row: any[]) => row[0])).toEqual(['001']);
+  });
+
+  it('counts a repeat within the batch like a repeat in a later batch', async () => {
+    bulk.mockImplementation(async (table: any) => table.rows.forEach((row: any[]) => stored.set(row[0], { importJobId: 'job-1', sourceLine: row[7] })));
+    const repeated = [customer('001', 1), customer('002', 2), customer('001', 3)];
+
+    for (const policy of ['upsert', 'keep-newest-by-line', 'skip'] as const) {
+      stored.clear();
+      const inOneBatch = await writeCustomerBatch(pool, repeated, options(policy));
+      stored.clear();
+      const inTwoBatches = [
+        await writeCustomerBatch(pool, repeated.slice(0, 2), options(policy)),
+        await writeCustomerBatch(pool, repeated.slice(2), options(policy))
+      ].reduce((total, result) => ({
+        processed: total.processed + result.processed,
+        inserted: total.inserted + result.inserted,
+        updated: total.updated + result.updated,
+        errors: total.errors + result.errors,
+        duplicates: total.duplicates + result.duplicates
+      }));
+
+      expect(inOneBatch).toEqual(inTwoBatches);
+    }
+  });
+
+  it('never overwrites a later line of the same import with keep-newest-by-line', async () => {
+    stored.set('001', { importJobId: 'job-1', sourceLine: 50 }); // Written by a worker further down the file
+    stored.set('002', { importJobId: 'job-0', sourceLine: 90 }); // Written by an earlier import
+
+    const result = await writeCustomerBatch(pool, [customer('001', 10), customer('002', 11)], options('keep-newest-by-line'));
+
+    expect(result).toEqual({ processed: 1, inserted: 0, updated: 1, errors: 0, duplicates: 1 });
+    expect(stored.get('001')).toEqual({ importJobId: 'job-1', sourceLine: 50 });
+    expect(stored.get('002')).toEqual(expect.objectContaining({ importJobId: 'job-1', sourceLine: 11 }));
+  });
+
+  it('applies the policy on the row by row fallback too', async () => {
+    bulk.mockImplementation(async () => {
+      stored.set('001', { importJobId: 'job-1', sourceLine: 1 });
+      throw new Error('Violation of UNIQUE KEY constraint');
+    });
+
+    const result = await writeCustomerBatch(pool, [customer('001', 5), customer('002', 6)], options('keep-newest-by-line'));
+
+    expect(result).toEqual({ processed: 2, inserted: 1, updated: 1, errors: 0, duplicates: 0 });
+  });
+
+  it('fails the batch on an existing customer with the fail policy', async () => {
+    stored.set('002', {});
+
+    await expect(writeCustomerBatch(pool, [customer('001', 1), customer('002', 2)], options('fail')))
+      .rejects.toThrow(new DuplicateCustomerError('002', 2));
+    expect(rollback).toHaveBeenCalled();
+    expect(bulk).not.toHaveBeenCalled();
+  });
+
+  it('fails on a customerId repeated within the batch with the fail policy', async () => {
+    await expect(writeCustomerBatch(pool, [customer('001', 1), customer('001', 7)], options('fail')))
+      .rejects.toThrow('Duplicate customerId 001 at line 7');
+  });
+});
+
+describe('checkCustomerBatch', () => {
+  const stage = async (table: any) => table.rows.forEach((row: any[]) => staged.add(row[1]));
+
+  beforeEach(() => {
+    stored.clear();
+    staged.clear();
+    bulk.mockReset();
+    bulk.mockImplementation(stage);
+    rollback.mockClear();
+  });
+
+  it('counts what the batch would write and stages new ids instead of writing customers', async () => {
+    stored.set('002', {});
+
+    const result = await checkCustomerBatch(pool, [customer('001'), customer('002'), customer('003'), customer('001')], options('skip'));
+
+    expect(result).toEqual({ processed: 2, inserted: 2, updated: 0, errors: 0, duplicates: 2 });
+    expect(bulk.mock.calls[0][0].name).toBe('dry_run_customer_ids');
+    expect(Array.from(staged)).toEqual(['001', '003']);
+    expect(Array.from(stored.keys())).toEqual(['002']);
+  });
+
+  it('sees ids from earlier batches of the dry run as existing', async () => {
+    await checkCustomerBatch(pool, [customer('001', 1)], options('skip'));
+
+    const result = await checkCustomerBatch(pool, [customer('001', 2), customer('002', 3)], options('skip'));
+    expect(result).toEqual({ processed: 1, inserted: 1, updated: 0, errors: 0, duplicates: 1 });
+  });
+
+  it('counts existing customers as updates when the policy overwrites', async () => {
+    stored.set('002', { firstName: 'Stored' });
+
+    const result = await checkCustomerBatch(pool, [customer('001'), customer('002', 2, 'New')], options('upsert'));
+
+    expect(result).toEqual({ processed: 2, inserted: 1, updated: 1, errors: 0, duplicates: 0 });
+    expect(stored.get('002')).toEqual({ firstName: 'Stored' });
+  });
+
+  it('counts an id repeated within the batch as an update when the policy overwrites', async () => {
+    const result = await checkCustomerBatch(pool, [customer('001', 1), customer('002', 2), customer('001', 3)], options('keep-newest-by-line'));
+
+    expect(result).toEqual({ processed: 3, inserted: 2, updated: 1, errors: 0, duplicates: 0 });
+  });
+
+  it('counts the batch again when another worker staged one of its ids first', async () => {
+    bulk.mockImplementationOnce(async () => {
+      staged.add('001');
+      throw new Error('Violation of PRIMARY KEY constraint');
+    });
+
+    const result = await checkCustomerBatch(pool, [customer('001'), customer('002')], options('skip'));
+
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ processed: 1, inserted: 1, updated: 0, errors: 0, duplicates: 1 });
+  });
+
+  it('reports the duplicate that would fail the import with the fail policy', async () => {
+    stored.set('002', {});
+
+    await expect(checkCustomerBatch(pool, [customer('001', 1), customer('002', 2)], options('fail')))
+      .rejects.toThrow(new DuplicateCustomerError('002', 2));
+    expect(staged.size).toBe(0);
+  });
+});
+
+describe('writeRejectedLines', () => {
+  const rejected = (lineNumber: number) => ({
+    lineNumber, rawLine: `00${lineNumber}|Ana`, reason: 'TOO_FEW_FIELDS' as const, field: null, detail: 'Expected 5 fields, got 2'
+  });
+
+  beforeEach(() => rejectedLines.clear());
+
+  it('stores each line of an import once when a resumed import rejects it again', async () => {
+    await writeRejectedLines(pool, 'job-1', [rejected(3), rejected(7)]);
+    await writeRejectedLines(pool, 'job-1', [rejected(7), rejected(9)]);
+    await writeRejectedLines(pool, 'job-2', [rejected(3)]);
+
+    expect(Array.from(rejectedLines.keys())).toEqual(['job-1:3', 'job-1:7', 'job-1:9', 'job-2:3']);
+  });
+});
@@ -0,0 +1,447 @@
+import * as sql from 'mssql';
+import { Customer } from "../entities/Customer";
+import { CustomerField, RejectionReason } from "./customerLine";
+import { customerSearchText, SEARCH_TEXT_LENGTH } from "./customerSearch";
+
+/**
+ * What to do with a row whose customerId already exists:
+ * - skip: keep the stored customer (first occurrence wins)
+ * - upsert: overwrite the stored customer
+ * - fail: fail the import
+ * - keep-newest-by-line: overwrite, except with an earlier line of the same
+ *   import, so the last line of the file wins even when workers race
+ */
+export type DuplicatePolicy = 'skip' | 'upsert' | 'fail' | 'keep-newest-by-line';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['skip', 'upsert', 'fail', 'keep-newest-by-line'];
+
+export class DuplicateCustomerError extends Error {
+    constructor(public readonly customerId: string, public readonly lineNumber?: number) {
+        super(`Duplicate customerId ${customerId}${lineNumber ? ` at line ${lineNumber}` : ''}`);
+        this.name = 'DuplicateCustomerError';
+    }
+}
+
+// A parsed customer plus the file line it came from
+export type CustomerRow = Partial<Customer> & { sourceLine: number };
+
+export interface BatchOptions {
+    importJobId: string;
+    duplicatePolicy: DuplicatePolicy;
+}
+
+export interface BatchResult {
+    // inserted + updated
+    processed: number;
+    inserted: number;
+    updated: number;
+    errors: number;
+    duplicates: number;
+}
+
+export const emptyBatchResult = (): BatchResult => ({ processed: 0, inserted: 0, updated: 0, errors: 0, duplicates: 0 });
+
+const overwrites = (policy: DuplicatePolicy) => policy === 'upsert' || policy === 'keep-newest-by-line';
+
+/**
+ * Set-based write path used by both the sequential import and the workers.
+ *
+ * A batch costs one duplicate lookup, one bulk insert and, when the policy
+ * overwrites, one set-based update inside a single transaction. If the
+ * transaction is rejected (e.g. another worker inserted the same customerId
+ * in the meantime) the batch is rolled back and replayed row by row, so one
+ * bad row never turns a whole batch into errors.
+ */
+export async function writeCustomerBatch(pool: sql.ConnectionPool, batch: CustomerRow[], options: BatchOptions): Promise<BatchResult> {
+    const { duplicatePolicy } = options;
+    const result = emptyBatchResult();
+    const unique = dedupeBatch(batch, duplicatePolicy, result);
+
+    if (unique.size === 0) {
+        return result;
+    }
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+        const existing = await findExistingCustomerIds(transaction, Array.from(unique.keys()));
+        const rows = Array.from(unique.values()).filter(customerData => !existing.has(customerData.customerId as string));
+        const matches = Array.from(unique.values()).filter(customerData => existing.has(customerData.customerId as string));
+
+        if (duplicatePolicy === 'fail' && matches.length > 0) {
+            throw new DuplicateCustomerError(matches[0].customerId as string, matches[0].sourceLine);
+        }
+
+        const updated = overwrites(duplicatePolicy) && matches.length > 0
+            ? await updateCustomers(transaction, matches, options)
+            : 0;
+        if (rows.length > 0) {
+            await transaction.request().bulk(buildCustomerTable(rows, options.importJobId));
+        }
+
+        await transaction.commit();
+
+        result.inserted += rows.length;
+        result.updated += updated;
+        result.processed += rows.length + updated;
+        result.duplicates += matches.length - updated;
+        return result;
+    } catch (error) {
+        await transaction.rollback().catch(() => undefined);
+        if (error instanceof DuplicateCustomerError) {
+            throw error;
+        }
+        console.error('Bulk insert failed, retrying batch row by row:', error);
+    }
+
+    const fallback = await writeRowByRow(pool, Array.from(unique.values()), options);
+    result.processed += fallback.processed;
+    result.inserted += fallback.inserted;
+    result.updated += fallback.updated;
+    result.errors += fallback.errors;
+    result.duplicates += fallback.duplicates;
+    return result;
+}
+
+/**
+ * Repeated customerIds within the batch: the first occurrence wins, or the
+ * last one when the policy overwrites. Repeats are counted as if they came in
+ * a later batch (a duplicate, or an update of the earlier line), so the totals
+ * don't depend on where the batches end.
+ */
+function dedupeBatch(batch: CustomerRow[], duplicatePolicy: DuplicatePolicy, result: BatchResult): Map<string, CustomerRow> {
+    const unique = new Map<string, CustomerRow>();
+    for (const customerData of batch) {
+        const customerId = customerData.customerId as string;
+        if (unique.has(customerId)) {
+            if (duplicatePolicy === 'fail') {
+                throw new DuplicateCustomerError(customerId, customerData.sourceLine);
+            }
+            if (!overwrites(duplicatePolicy)) {
+                result.duplicates++;
+                continue;
+            }
+            result.updated++;
+            result.processed++;
+            unique.delete(customerId); // Re-insert so the map keeps file order
+        }
+        unique.set(customerId, customerData);
+    }
+    return unique;
+}
+
+// With dryRunJobId, the ids that dry run would already have inserted count as existing too
+async function findExistingCustomerIds(transaction: sql.Transaction, customerIds: string[], dryRunJobId?: string): Promise<Set<string>> {
+    // A single JSON parameter keeps us clear of the 2100 parameters limit;
+    // the CAST lets SQL Server seek the varchar customerId index.
+    const request = transaction.request()
+        .input('customerIds', sql.NVarChar(sql.MAX), JSON.stringify(customerIds));
+    if (dryRunJobId) {
+        request.input('importJobId', sql.UniqueIdentifier, dryRunJobId);
+    }
+
+    const existing = await request.query<{ customerId: string }>(`
+            SELECT customerId
+            FROM customers
+            WHERE customerId IN (
+                SELECT CAST(value AS VARCHAR(255)) FROM OPENJSON(@customerIds)
+            )
+            ${dryRunJobId ? `
+            UNION
+            SELECT customerId
+            FROM dry_run_customer_ids
+            WHERE importJobId = @importJobId AND customerId IN (
+                SELECT CAST(value AS VARCHAR(255)) FROM OPENJSON(@customerIds)
+            )` : ''}
+        `);
+
+    return new Set(existing.recordset.map(row => row.customerId));
+}
+
+// Skip rows already written from a later line of this same import
+const KEEP_NEWEST_CONDITION = `
+    (customers.importJobId IS NULL OR customers.importJobId <> @importJobId
+        OR customers.sourceLine IS NULL OR customers.sourceLine < source.sourceLine)`;
+
+async function updateCustomers(transaction: sql.Transaction, rows: CustomerRow[], options: BatchOptions): Promise<number> {
+    const source = rows.map(row => ({
+        customerId: row.customerId,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        email: row.email,
+        age: row.age,
+        searchText: customerSearchText(row),
+        sourceLine: row.sourceLine
+    }));
+
+    const updated = await transaction.request()
+        .input('rows', sql.NVarChar(sql.MAX), JSON.stringify(source))
+        .input('importJobId', sql.UniqueIdentifier, options.importJobId)
+        .query(`
+            UPDATE customers
+            SET firstName = source.firstName,
+                lastName = source.lastName,
+                email = source.email,
+                age = source.age,
+                searchText = source.searchText,
+                importJobId = @importJobId,
+                sourceLine = source.sourceLine,
+                updatedAt = GETDATE()
+            FROM customers
+            INNER JOIN OPENJSON(@rows) WITH (
+                customerId VARCHAR(255),
+                firstName VARCHAR(255),
+                lastName VARCHAR(255),
+                email VARCHAR(255),
+                age INT,
+                searchText NVARCHAR(${SEARCH_TEXT_LENGTH}),
+                sourceLine INT
+            ) AS source ON customers.customerId = source.customerId
+            ${options.duplicatePolicy === 'keep-newest-by-line' ? `WHERE ${KEEP_NEWEST_CONDITION}` : ''}
+        `);
+
+    return updated.rowsAffected[0];
+}
+
+function buildCustomerTable(rows: CustomerRow[], importJobId: string): sql.Table {
+    const table = new sql.Table('customers');
+    table.create = false;
+    table.columns.add('customerId', sql.VarChar(255), { nullable: false });
+    table.columns.add('firstName', sql.VarChar(255), { nullable: false });
+    table.columns.add('lastName', sql.VarChar(255), { nullable: false });
+    table.columns.add('email', sql.VarChar(255), { nullable: false });
+    table.columns.add('age', sql.Int, { nullable: false });
+    table.columns.add('searchText', sql.NVarChar(SEARCH_TEXT_LENGTH), { nullable: true });
+    table.columns.add('importJobId', sql.UniqueIdentifier, { nullable: true });
+    table.columns.add('sourceLine', sql.Int, { nullable: true });
+    table.columns.add('createdAt', sql.DateTime2, { nullable: false });
+
+    const createdAt = new Date();
+    for (const row of rows) {
+        table.rows.add(row.customerId, row.firstName, row.lastName, row.email, row.age, customerSearchText(row), importJobId, row.sourceLine, createdAt);
+    }
+
+    return table;
+}
+
+async function writeRowByRow(pool: sql.ConnectionPool, rows: CustomerRow[], options: BatchOptions): Promise<BatchResult> {
+    const result = emptyBatchResult();
+
+    for (const customerData of rows) {
+        try {
+            const request = pool.request()
+                .input('customerId', sql.VarChar, customerData.customerId)
+                .input('firstName', sql.VarChar, customerData.firstName)
+                .input('lastName', sql.VarChar, customerData.lastName)
+                .input('email', sql.VarChar, customerData.email)
+                .input('age', sql.Int, customerData.age)
+                .input('searchText', sql.NVarChar(SEARCH_TEXT_LENGTH), customerSearchText(customerData))
+                .input('importJobId', sql.UniqueIdentifier, options.importJobId)
+                .input('sourceLine', sql.Int, customerData.sourceLine);
+
+            if (overwrites(options.duplicatePolicy)) {
+                // rowsAffected: [updated] or [0, inserted]
+                const written = await request.query(`
+                    UPDATE customers
+                    SET firstName = @firstName, lastName = @lastName, email = @email, age = @age, searchText = @searchText,
+                        importJobId = @importJobId, sourceLine = @sourceLine, updatedAt = GETDATE()
+                    FROM customers
+                    CROSS APPLY (SELECT @sourceLine AS sourceLine) AS source
+                    WHERE customers.customerId = @customerId
+                    ${options.duplicatePolicy === 'keep-newest-by-line' ? `AND ${KEEP_NEWEST_CONDITION}` : ''};
+
+                    IF @@ROWCOUNT = 0
+                        INSERT INTO customers (customerId, firstName, lastName, email, age, searchText, importJobId, sourceLine)
+                        SELECT @customerId, @firstName, @lastName, @email, @age, @searchText, @importJobId, @sourceLine
+                        WHERE NOT EXISTS (SELECT 1 FROM customers WHERE customerId = @customerId)
+                `);
+
+                if (written.rowsAffected[0] > 0) {
+                    result.updated++;
+                    result.processed++;
+                } else if (written.rowsAffected[1] > 0) {
+                    result.inserted++;
+                    result.processed++;
+                } else {
+                    result.duplicates++; // Stored from a later line of this import
+                }
+                continue;
+            }
+
+            const inserted = await request.query(`
+                INSERT INTO customers (customerId, firstName, lastName, email, age, searchText, importJobId, sourceLine)
+                SELECT @customerId, @firstName, @lastName, @email, @age, @searchText, @importJobId, @sourceLine
+                WHERE NOT EXISTS (SELECT 1 FROM customers WHERE customerId = @customerId)
+            `);
+
+            if (inserted.rowsAffected[0] === 0) {
+                if (options.duplicatePolicy === 'fail') {
+                    throw new DuplicateCustomerError(customerData.customerId as string, customerData.sourceLine);
+                }
+                result.duplicates++;
+                console.log(`⚠️  Duplicate customerId found: ${customerData.customerId}`);
+            } else {
+                result.inserted++;
+                result.processed++;
+            }
+        } catch (error) {
+            if (error instanceof DuplicateCustomerError) {
+                throw error;
+            }
+            result.errors++;
+            console.error(`Error processing customer ${customerData.customerId}:`, error);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Dry-run counterpart of writeCustomerBatch: counts what the batch would
+ * insert, update or skip as a duplicate without touching customers. The ids
+ * it would insert go to dry_run_customer_ids instead, so later batches and
+ * the other workers see them as existing, like they would see the rows of a
+ * real import. Under upsert and keep-newest-by-line every repeated id counts
+ * as an update, in the batch or across batches: a dry run doesn't compare the
+ * lines that workers of a real import could write out of order.
+ */
+export async function checkCustomerBatch(pool: sql.ConnectionPool, batch: CustomerRow[], options: BatchOptions): Promise<BatchResult> {
+    const { duplicatePolicy, importJobId } = options;
+    const result = emptyBatchResult();
+    const unique = dedupeBatch(batch, duplicatePolicy, result);
+
+    if (unique.size === 0) {
+        return result;
+    }
+
+    // Another worker staging one of our ids first breaks the primary key; the batch is then counted again
+    for (let attempt = 1; ; attempt++) {
+        const transaction = new sql.Transaction(pool);
+        await transaction.begin();
+
+        try {
+            const existing = await findExistingCustomerIds(transaction, Array.from(unique.keys()), importJobId);
+            const rows = Array.from(unique.values()).filter(customerData => !existing.has(customerData.customerId as string));
+            const matches = Array.from(unique.values()).filter(customerData => existing.has(customerData.customerId as string));
+
+            if (duplicatePolicy === 'fail' && matches.length > 0) {
+                throw new DuplicateCustomerError(matches[0].customerId as string, matches[0].sourceLine);
+            }
+
+            if (rows.length > 0) {
+                await transaction.request().bulk(buildDryRunTable(rows, importJobId));
+            }
+            await transaction.commit();
+
+            const updated = overwrites(duplicatePolicy) ? matches.length : 0;
+            result.inserted += rows.length;
+            result.updated += updated;
+            result.processed += rows.length + updated;
+            result.duplicates += matches.length - updated;
+            return result;
+        } catch (error) {
+            await transaction.rollback().catch(() => undefined);
+            if (error instanceof DuplicateCustomerError || attempt >= 3) {
+                throw error;
+            }
+        }
+    }
+}
+
+function buildDryRunTable(rows: CustomerRow[], importJobId: string): sql.Table {
+    const table = new sql.Table('dry_run_customer_ids');
+    table.create = false;
+    table.columns.add('importJobId', sql.UniqueIdentifier, { nullable: false });
+    table.columns.add('customerId', sql.VarChar(255), { nullable: false });
+
+    for (const row of rows) {
+        table.rows.add(importJobId, row.customerId);
+    }
+
+    return table;
+}
+
+// Drop the ids a dry run staged; they are kept until then so a failed dry run can be resumed
+export async function clearDryRunCustomerIds(pool: sql.ConnectionPool, importJobId: string): Promise<void> {
+    await pool.request()
+        .input('importJobId', sql.UniqueIdentifier, importJobId)
+        .query('DELETE FROM dry_run_customer_ids WHERE importJobId = @importJobId');
+}
+
+/**
+ * Fill in searchText for up to batchSize customers stored without it (rows
+ * written before the column existed). Returns how many were filled in.
+ */
+export async function fillMissingSearchText(pool: sql.ConnectionPool, batchSize: number): Promise<number> {
+    const missing = await pool.request()
+        .input('batchSize', sql.Int, batchSize)
+        .query<{ id: number; firstName: string; lastName: string; email: string }>(`
+            SELECT TOP (@batchSize) id, firstName, lastName, email
+            FROM customers
+            WHERE searchText IS NULL
+            ORDER BY id
+        `);
+    if (missing.recordset.length === 0) {
+        return 0;
+    }
+
+    const rows = missing.recordset.map(row => ({ id: row.id, searchText: customerSearchText(row) }));
+    await pool.request()
+        .input('rows', sql.NVarChar(sql.MAX), JSON.stringify(rows))
+        .query(`
+            UPDATE customers
+            SET searchText = source.searchText
+            FROM customers
+            INNER JOIN OPENJSON(@rows) WITH (
+                id INT,
+                searchText NVARCHAR(${SEARCH_TEXT_LENGTH})
+            ) AS source ON customers.id = source.id
+        `);
+    return rows.length;
+}
+
+export interface RejectedLineRecord {
+    lineNumber: number;
+    rawLine: string;
+    reason: RejectionReason;
+    field: CustomerField | null;
+    detail: string;
+}
+
+/**
+ * Insert rejected lines for an import, skipping the ones it already stored:
+ * they are written before the batch they belong to, so a resumed import
+ * replays lines after its checkpoint that may be stored already. A failure
+ * here is logged but never fails the import: the quarantine is a diagnostic
+ * aid, the customers are the data.
+ */
+export async function writeRejectedLines(pool: sql.ConnectionPool, importJobId: string, lines: RejectedLineRecord[]): Promise<void> {
+    if (lines.length === 0) {
+        return;
+    }
+
+    const rows = lines.map(line => ({ ...line, detail: line.detail.slice(0, 255) }));
+    try {
+        await pool.request()
+            .input('importJobId', sql.UniqueIdentifier, importJobId)
+            .input('rows', sql.NVarChar(sql.MAX), JSON.stringify(rows))
+            .query(`
+                INSERT INTO rejected_lines (importJobId, lineNumber, rawLine, reason, field, detail, createdAt)
+                SELECT @importJobId, source.lineNumber, source.rawLine, source.reason, source.field, source.detail, GETDATE()
+                FROM OPENJSON(@rows) WITH (
+                    lineNumber INT,
+                    rawLine NVARCHAR(MAX),
+                    reason VARCHAR(50),
+                    field VARCHAR(50),
+                    detail VARCHAR(255)
+                ) AS source
+                WHERE NOT EXISTS (
+                    SELECT 1 FROM rejected_lines
+                    WHERE rejected_lines.importJobId = @importJobId AND rejected_lines.lineNumber = source.lineNumber
+                )
+            `);
+    } catch (error) {
+        console.error(`Error saving ${lines.length} rejected lines for import ${importJobId}:`, error);
+    }
+}
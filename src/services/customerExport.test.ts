@@ -0,0 +1,72 @@
+import { exportCustomers, formatCustomerLine } from './customerExport';
+import { createLineParser } from './customerParsers';
+
+const customer = (customerId: string, overrides: any = {}): any => ({
+  id: 1,
+  customerId,
+  firstName: 'María',
+  lastName: 'Rodríguez',
+  email: `${customerId}@example.com`,
+  age: 34,
+  createdAt: new Date(),
+  ...overrides
+});
+
+async function* from(customers: any[]) {
+  yield* customers;
+}
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  const collected: string[] = [];
+  for await (const chunk of chunks) {
+    collected.push(chunk);
+  }
+  return collected;
+};
+
+describe('formatCustomerLine', () => {
+  it('should write the .dat layout the importer reads', () => {
+    const line = formatCustomerLine('dat', customer('001001'));
+    expect(line).toBe('001001|María|Rodríguez|001001@example.com|34\n');
+    expect(createLineParser({ format: 'pipe', dataStartByte: 0, dataStartLine: 0 }).parse(line.trimEnd()))
+      .toEqual({ valid: true, customer: expect.objectContaining({ customerId: '001001', lastName: 'Rodríguez', age: 34 }) });
+  });
+
+  it('should keep pipes and line breaks from shifting .dat fields', () => {
+    expect(formatCustomerLine('dat', customer('001001', { lastName: 'Rodríguez|López\r\n' }))).toBe('001001|María|Rodríguez López |001001@example.com|34\n');
+  });
+
+  it('should quote CSV values that need it', () => {
+    expect(formatCustomerLine('csv', customer('001001', { lastName: 'Rodríguez, "Mari"' })))
+      .toBe('001001,María,"Rodríguez, ""Mari""",001001@example.com,34\n');
+  });
+
+  it('should write one JSON object per NDJSON line', () => {
+    expect(JSON.parse(formatCustomerLine('ndjson', customer('001001')))).toEqual({
+      customerId: '001001', firstName: 'María', lastName: 'Rodríguez', email: '001001@example.com', age: 34
+    });
+  });
+});
+
+describe('exportCustomers', () => {
+  it('should start CSV exports with a header the importer reads', async () => {
+    const text = (await collect(exportCustomers(from([customer('001001'), customer('001002')]), 'csv'))).join('');
+    const [header, ...lines] = text.trimEnd().split('\n');
+
+    expect(header).toBe('customerId,firstName,lastName,email,age');
+    expect(lines).toHaveLength(2);
+  });
+
+  it('should send the lines in chunks', async () => {
+    const customers = Array.from({ length: 3000 }, (_, index) => customer(String(index).padStart(6, '0')));
+    const chunks = await collect(exportCustomers(from(customers), 'dat'));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('').split('\n').filter(Boolean)).toHaveLength(3000);
+  });
+
+  it('should export nothing but the header when no customer matches', async () => {
+    expect(await collect(exportCustomers(from([]), 'dat'))).toEqual([]);
+    expect(await collect(exportCustomers(from([]), 'csv'))).toEqual(['customerId,firstName,lastName,email,age\n']);
+  });
+});
@@ -0,0 +1,59 @@
+import { Customer } from "../entities/Customer";
+
+/**
+ * Layouts a customer export can be written in:
+ * - dat: the pipe-delimited customerId|firstName|lastName|email|age the importer reads
+ * - csv: the same columns with a header line (RFC 4180 quoting)
+ * - ndjson: one JSON object per line
+ */
+export type ExportFormat = 'dat' | 'csv' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['dat', 'csv', 'ndjson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    dat: 'text/plain; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson'
+};
+
+const EXPORT_FIELDS = ['customerId', 'firstName', 'lastName', 'email', 'age'] as const;
+
+// Lines are sent in chunks of about this many characters rather than one write each
+const CHUNK_SIZE = 64 * 1024;
+
+// A pipe or line break inside a value would shift the fields of the .dat line
+const datValue = (value: string) => value.replace(/[|\r\n]+/g, ' ');
+
+const csvValue = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function formatCustomerLine(format: ExportFormat, customer: Customer): string {
+    const values = EXPORT_FIELDS.map(field => String(customer[field] ?? ''));
+    switch (format) {
+        case 'dat':
+            return `${values.map(datValue).join('|')}\n`;
+        case 'csv':
+            return `${values.map(csvValue).join(',')}\n`;
+        case 'ndjson':
+            return `${JSON.stringify(Object.fromEntries(EXPORT_FIELDS.map(field => [field, customer[field]])))}\n`;
+    }
+}
+
+/**
+ * The export file as text chunks. Customers are pulled only as fast as the
+ * chunks are consumed, so a slow client never makes the export buffer.
+ */
+export async function* exportCustomers(customers: AsyncIterable<Customer>, format: ExportFormat): AsyncGenerator<string> {
+    let chunk = format === 'csv' ? `${EXPORT_FIELDS.join(',')}\n` : '';
+
+    for await (const customer of customers) {
+        chunk += formatCustomerLine(format, customer);
+        if (chunk.length >= CHUNK_SIZE) {
+            yield chunk;
+            chunk = '';
+        }
+    }
+
+    if (chunk.length > 0) {
+        yield chunk;
+    }
+}
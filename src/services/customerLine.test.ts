@@ -0,0 +1,50 @@
+import { countError, CustomerFields, ErrorCounts, mergeErrorCounts, toCustomer, validateCustomerFields } from './customerLine';
+
+const fields: CustomerFields = {
+  customerId: '001001',
+  firstName: 'María',
+  lastName: 'Rodríguez',
+  email: 'maria@example.com',
+  age: '34'
+};
+
+describe('validateCustomerFields', () => {
+  it('should accept a complete record', () => {
+    expect(validateCustomerFields(fields)).toEqual({ valid: true });
+  });
+
+  it('should accept a record without email and age', () => {
+    expect(validateCustomerFields({ ...fields, email: '', age: '' })).toEqual({ valid: true });
+  });
+
+  it.each([
+    [{ customerId: ' ' }, 'MISSING_CUSTOMER_ID', 'customerId'],
+    [{ firstName: '' }, 'MISSING_FIRST_NAME', 'firstName'],
+    [{ lastName: '' }, 'MISSING_LAST_NAME', 'lastName'],
+    [{ email: '13050' }, 'INVALID_EMAIL', 'email'],
+    [{ age: 'age' }, 'INVALID_AGE', 'age'],
+    [{ age: '151' }, 'AGE_OUT_OF_RANGE', 'age']
+  ])('should reject %p with %s', (override, reason, field) => {
+    expect(validateCustomerFields({ ...fields, ...override })).toEqual(expect.objectContaining({ valid: false, reason, field }));
+  });
+
+  it('should describe the offending value', () => {
+    expect(validateCustomerFields({ ...fields, email: '13050' })).toHaveProperty('message', 'Invalid email: 13050');
+  });
+});
+
+describe('toCustomer', () => {
+  it('should convert the age to a number', () => {
+    expect(toCustomer(fields)).toEqual({ ...fields, age: 34 });
+  });
+});
+
+describe('error counts', () => {
+  it('should count and merge errors per reason', () => {
+    const counts: ErrorCounts = {};
+    countError(counts, 'INVALID_EMAIL');
+    countError(counts, 'WRITE_FAILED', 0);
+    mergeErrorCounts(counts, { INVALID_EMAIL: 2, INVALID_AGE: 1 });
+    expect(counts).toEqual({ INVALID_EMAIL: 3, INVALID_AGE: 1 });
+  });
+});
@@ -0,0 +1,100 @@
+import { Customer } from "../entities/Customer";
+
+/**
+ * Machine-readable reasons a line is counted as an error. The validation
+ * codes come from the line parsers and validateCustomerFields; WRITE_FAILED
+ * and PROCESSING_ERROR cover valid lines that still could not be stored.
+ */
+export type RejectionReason =
+    | 'EMPTY_LINE'
+    | 'TOO_FEW_FIELDS'
+    | 'MALFORMED_RECORD'
+    | 'MISSING_CUSTOMER_ID'
+    | 'MISSING_FIRST_NAME'
+    | 'MISSING_LAST_NAME'
+    | 'INVALID_EMAIL'
+    | 'INVALID_AGE'
+    | 'AGE_OUT_OF_RANGE'
+    | 'WRITE_FAILED'
+    | 'PROCESSING_ERROR';
+
+export type CustomerField = 'customerId' | 'firstName' | 'lastName' | 'email' | 'age';
+
+// Raw field values as extracted by a parser, before validation
+export type CustomerFields = Record<CustomerField, string>;
+
+export type LineRejection = { valid: false; reason: RejectionReason; field: CustomerField | null; message: string };
+
+export type LineValidationResult = { valid: true } | LineRejection;
+
+// Error count per reason; reasons that never occurred are left out
+export type ErrorCounts = Partial<Record<RejectionReason, number>>;
+
+export const rejectLine = (reason: RejectionReason, field: CustomerField | null, message: string): LineRejection =>
+    ({ valid: false, reason, field, message });
+
+/**
+ * Record rules shared by every input format and by both the sequential path
+ * (CustomerService) and the worker threads, so they all accept and reject
+ * exactly the same records.
+ */
+export function validateCustomerFields(fields: CustomerFields): LineValidationResult {
+    const { customerId, firstName, lastName, email, age } = fields;
+
+    // Basic validation for required fields (customerId may not be blank either)
+    if (!customerId || customerId.trim().length === 0) {
+        return rejectLine('MISSING_CUSTOMER_ID', 'customerId', 'customerId is required');
+    }
+    if (!firstName) {
+        return rejectLine('MISSING_FIRST_NAME', 'firstName', 'firstName is required');
+    }
+    if (!lastName) {
+        return rejectLine('MISSING_LAST_NAME', 'lastName', 'lastName is required');
+    }
+
+    // Validate email if present
+    if (email && email.trim().length > 0) {
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!emailRegex.test(email.trim())) {
+            return rejectLine('INVALID_EMAIL', 'email', `Invalid email: ${email.trim()}`);
+        }
+    }
+
+    // Validate age if present
+    if (age && age.trim().length > 0) {
+        const parsedAge = parseInt(age.trim());
+        if (isNaN(parsedAge)) {
+            return rejectLine('INVALID_AGE', 'age', `Age is not a number: ${age.trim()}`);
+        }
+        if (parsedAge < 0 || parsedAge > 150) {
+            return rejectLine('AGE_OUT_OF_RANGE', 'age', `Age out of range (0-150): ${parsedAge}`);
+        }
+    }
+
+    return { valid: true };
+}
+
+export function countError(counts: ErrorCounts, reason: RejectionReason, amount: number = 1): void {
+    if (amount > 0) {
+        counts[reason] = (counts[reason] ?? 0) + amount;
+    }
+}
+
+export function mergeErrorCounts(target: ErrorCounts, source: ErrorCounts): ErrorCounts {
+    for (const [reason, amount] of Object.entries(source) as [RejectionReason, number][]) {
+        countError(target, reason, amount);
+    }
+    return target;
+}
+
+export function toCustomer(fields: CustomerFields): Partial<Customer> {
+    const { customerId, firstName, lastName, email, age } = fields;
+
+    return {
+        customerId,
+        firstName,
+        lastName,
+        email,
+        age: parseInt(age)
+    }
+}
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLineParser, InputFormatError, ParserConfig, parserConfigFor, resolveParserConfig, sniffFormat, splitCsvLine } from './customerParsers';
+
+const config = (overrides: Partial<ParserConfig>): ParserConfig => ({
+  format: 'pipe',
+  dataStartByte: 0,
+  dataStartLine: 0,
+  ...overrides
+});
+
+const maria = { customerId: '001001', firstName: 'María', lastName: 'Rodríguez', email: 'maria@example.com', age: 34 };
+
+describe('line parsers', () => {
+  it('should parse pipe-delimited lines', () => {
+    const parser = createLineParser(config({ format: 'pipe' }));
+    expect(parser.parse('001001|María|Rodríguez|maria@example.com|34')).toEqual({ valid: true, customer: maria });
+    expect(parser.parse('001025|Ana|Rodríguez')).toEqual(expect.objectContaining({ valid: false, reason: 'TOO_FEW_FIELDS' }));
+    expect(parser.parse('  ')).toEqual(expect.objectContaining({ valid: false, reason: 'EMPTY_LINE' }));
+  });
+
+  it('should map CSV columns by header name, with quoting', () => {
+    const parser = createLineParser(config({
+      format: 'csv',
+      header: ['age', 'Email', 'last_name', 'first name', 'customer_id'],
+      delimiter: ','
+    }));
+    expect(parser.parse('34,maria@example.com,Rodríguez,María,001001')).toEqual({ valid: true, customer: maria });
+    expect(parser.parse('40,,"García, Jr.",Pedro,001002')).toEqual({
+      valid: true,
+      customer: { customerId: '001002', firstName: 'Pedro', lastName: 'García, Jr.', email: '', age: 40 }
+    });
+    expect(parser.parse('34,"maria@example.com,Rodríguez')).toEqual(expect.objectContaining({ valid: false, reason: 'MALFORMED_RECORD' }));
+    expect(parser.parse('34,maria@example.com')).toEqual(expect.objectContaining({ valid: false, reason: 'TOO_FEW_FIELDS' }));
+  });
+
+  it('should refuse a CSV header without the required columns', () => {
+    expect(() => createLineParser(config({ format: 'csv', header: ['id', 'name'] })))
+      .toThrow(new InputFormatError('CSV header is missing column(s): customerId, firstName, lastName'));
+  });
+
+  it('should slice fixed-width lines by the layout', () => {
+    const parser = createLineParser(config({
+      format: 'fixed-width',
+      layout: [
+        { field: 'customerId', width: 6 },
+        { field: 'firstName', width: 8 },
+        { field: 'lastName', width: 10 },
+        { field: 'email', width: 20 },
+        { field: 'age', width: 3 }
+      ]
+    }));
+    expect(parser.parse('001001María   Rodríguez maria@example.com   34')).toEqual({ valid: true, customer: maria });
+    expect(parser.parse('001001María')).toEqual(expect.objectContaining({ valid: false, reason: 'TOO_FEW_FIELDS' }));
+  });
+
+  it('should parse NDJSON records', () => {
+    const parser = createLineParser(config({ format: 'ndjson' }));
+    expect(parser.parse(JSON.stringify(maria))).toEqual({ valid: true, customer: maria });
+    expect(parser.parse('{"customerId": "001001"')).toEqual(expect.objectContaining({ valid: false, reason: 'MALFORMED_RECORD' }));
+    expect(parser.parse('[1, 2]')).toEqual(expect.objectContaining({ valid: false, reason: 'MALFORMED_RECORD' }));
+    expect(parser.parse('{"customerId": "001002"}')).toEqual(expect.objectContaining({ valid: false, reason: 'MISSING_FIRST_NAME' }));
+  });
+});
+
+describe('splitCsvLine', () => {
+  it('should unescape doubled quotes and honour the delimiter', () => {
+    expect(splitCsvLine('"say ""hi""";b;', ';')).toEqual(['say "hi"', 'b', '']);
+  });
+});
+
+describe('sniffFormat', () => {
+  it.each([
+    ['001001|María|Rodríguez|maria@example.com|34', 'pipe'],
+    ['customerId,firstName,lastName,email,age', 'csv'],
+    ['customer_id;first_name;last_name', 'csv'],
+    ['{"customerId":"001001"}', 'ndjson'],
+    ['001001    María                    Rodríguez                maria@example.com', 'fixed-width'],
+    ['', 'pipe']
+  ])('should read %p as %s', (line, format) => {
+    expect(sniffFormat(line)).toBe(format);
+  });
+});
+
+describe('resolveParserConfig', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'customer-parsers-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('should start CSV records after the header line', async () => {
+    const filePath = write('customers.csv', 'customerId;firstName;lastName\n001001;María;Rodríguez\n');
+    await expect(resolveParserConfig(filePath)).resolves.toEqual({
+      format: 'csv',
+      header: ['customerId', 'firstName', 'lastName'],
+      delimiter: ';',
+      dataStartByte: 30,
+      dataStartLine: 1
+    });
+  });
+
+  it('should prefer the requested format over the extension and content', async () => {
+    const filePath = write('customers.dat', '{"customerId":"001001"}\n');
+    await expect(resolveParserConfig(filePath)).resolves.toEqual(expect.objectContaining({ format: 'ndjson' }));
+    await expect(resolveParserConfig(filePath, 'pipe')).resolves.toEqual(expect.objectContaining({ format: 'pipe' }));
+  });
+
+  it('should use the extension before sniffing', async () => {
+    const filePath = write('customers.jsonl', '001001|María|Rodríguez|maria@example.com|34\n');
+    await expect(resolveParserConfig(filePath)).resolves.toEqual(expect.objectContaining({ format: 'ndjson' }));
+  });
+});
+
+describe('parserConfigFor', () => {
+  it('should read the CSV header from a first line already at hand', () => {
+    expect(parserConfigFor({ text: 'customerId,firstName,lastName', endByte: 30 }, 'csv')).toEqual({
+      format: 'csv',
+      header: ['customerId', 'firstName', 'lastName'],
+      delimiter: ',',
+      dataStartByte: 30,
+      dataStartLine: 1
+    });
+  });
+
+  it('should sniff the format when none is requested', () => {
+    expect(parserConfigFor({ text: '{"customerId":"001001"}', endByte: 24 })).toEqual(expect.objectContaining({ format: 'ndjson', dataStartLine: 0 }));
+  });
+});
@@ -0,0 +1,354 @@
+import * as path from 'path';
+import { Customer } from "../entities/Customer";
+import { CustomerField, CustomerFields, LineRejection, rejectLine, toCustomer, validateCustomerFields } from './customerLine';
+import { FileLine, readLines } from './lineReader';
+
+export type InputFormat = 'pipe' | 'csv' | 'fixed-width' | 'ndjson';
+
+export const INPUT_FORMATS: InputFormat[] = ['pipe', 'csv', 'fixed-width', 'ndjson'];
+
+export interface FixedWidthColumn {
+    field: CustomerField;
+    width: number;
+}
+
+/**
+ * How to read one import. Resolved once per file in the main thread and sent
+ * to the workers as is, so it must stay plain (structured-clone) data.
+ */
+export interface ParserConfig {
+    format: InputFormat;
+    // CSV only: header columns in file order and the delimiter they use
+    header?: string[];
+    delimiter?: string;
+    // Fixed-width only: columns in file order
+    layout?: FixedWidthColumn[];
+    // Where the records start, after any header line (zero-based line)
+    dataStartByte: number;
+    dataStartLine: number;
+}
+
+export type ParsedLine = { valid: true; customer: Partial<Customer> } | LineRejection;
+
+export interface LineParser {
+    readonly format: InputFormat;
+    parse(line: string): ParsedLine;
+}
+
+export class InputFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InputFormatError';
+    }
+}
+
+const CUSTOMER_FIELDS: CustomerField[] = ['customerId', 'firstName', 'lastName', 'email', 'age'];
+const REQUIRED_COLUMNS: CustomerField[] = ['customerId', 'firstName', 'lastName'];
+
+// Layout of the mainframe extracts; override with FIXED_WIDTH_LAYOUT=customerId:10,firstName:25,...
+export const DEFAULT_FIXED_WIDTH_LAYOUT: FixedWidthColumn[] = [
+    { field: 'customerId', width: 10 },
+    { field: 'firstName', width: 25 },
+    { field: 'lastName', width: 25 },
+    { field: 'email', width: 50 },
+    { field: 'age', width: 3 }
+];
+
+const EXTENSION_FORMATS: Record<string, InputFormat> = {
+    '.csv': 'csv',
+    '.ndjson': 'ndjson',
+    '.jsonl': 'ndjson',
+    '.fwf': 'fixed-width'
+};
+
+const MIME_TYPE_FORMATS: Record<string, InputFormat> = {
+    'text/csv': 'csv',
+    'application/x-ndjson': 'ndjson'
+};
+
+/**
+ * Pick the format of a file: an explicit request wins, then the file extension,
+ * then a look at the first line. For CSV the first line is the header, so the
+ * returned config also tells where the records start.
+ */
+export async function resolveParserConfig(filePath: string, requested?: InputFormat | null): Promise<ParserConfig> {
+    return parserConfigFor(await readFirstLine(filePath), requested ?? formatFromExtension(filePath));
+}
+
+// resolveParserConfig for input whose first line is already at hand, such as a streamed upload
+export function parserConfigFor(firstLine: FileLine | null, requested?: InputFormat | null): ParserConfig {
+    const layout = parseFixedWidthLayout(process.env.FIXED_WIDTH_LAYOUT);
+    const format = requested ?? sniffFormat(firstLine?.text ?? '', layout);
+
+    let config: ParserConfig = { format, dataStartByte: 0, dataStartLine: 0 };
+    if (format === 'csv') {
+        if (!firstLine) {
+            throw new InputFormatError('CSV file has no header line');
+        }
+        const delimiter = sniffCsvDelimiter(firstLine.text);
+        config = {
+            ...config,
+            header: splitCsvLine(firstLine.text, delimiter) ?? [],
+            delimiter,
+            dataStartByte: firstLine.endByte,
+            dataStartLine: 1
+        };
+    } else if (format === 'fixed-width') {
+        config.layout = layout;
+    }
+
+    // Build it once here so a bad header fails the import before any worker starts
+    createLineParser(config);
+    return config;
+}
+
+export function formatFromExtension(filePath: string): InputFormat | null {
+    return EXTENSION_FORMATS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+export function formatFromMimeType(mimeType?: string): InputFormat | null {
+    return mimeType ? MIME_TYPE_FORMATS[mimeType.toLowerCase()] ?? null : null;
+}
+
+/**
+ * Guess the format from the first line. Anything without a recognizable shape
+ * is read as the original pipe-delimited layout.
+ */
+export function sniffFormat(firstLine: string, layout: FixedWidthColumn[] = DEFAULT_FIXED_WIDTH_LAYOUT): InputFormat {
+    const trimmed = firstLine.trim();
+
+    if (trimmed.startsWith('{')) {
+        return 'ndjson';
+    }
+    if (trimmed.includes('|')) {
+        return 'pipe';
+    }
+
+    const header = splitCsvLine(trimmed, sniffCsvDelimiter(trimmed)) ?? [];
+    if (header.map(normalizeColumnName).includes(normalizeColumnName('customerId'))) {
+        return 'csv';
+    }
+
+    if (firstLine.length >= fixedWidthOffsets(layout).minimumLength) {
+        return 'fixed-width';
+    }
+
+    return 'pipe';
+}
+
+export function createLineParser(config: ParserConfig): LineParser {
+    const extractFields = fieldExtractor(config);
+
+    return {
+        format: config.format,
+        parse(line: string): ParsedLine {
+            // Skip empty lines
+            if (!line || line.trim().length === 0) {
+                return rejectLine('EMPTY_LINE', null, 'Empty line');
+            }
+
+            const fields = extractFields(line);
+            if ('valid' in fields) {
+                return fields;
+            }
+
+            const validation = validateCustomerFields(fields);
+            return validation.valid ? { valid: true, customer: toCustomer(fields) } : validation;
+        }
+    };
+}
+
+type FieldExtractor = (line: string) => CustomerFields | LineRejection;
+
+function fieldExtractor(config: ParserConfig): FieldExtractor {
+    switch (config.format) {
+        case 'pipe':
+            return extractPipeFields;
+        case 'csv':
+            return csvFieldExtractor(config.header ?? [], config.delimiter ?? ',');
+        case 'fixed-width':
+            return fixedWidthFieldExtractor(config.layout ?? DEFAULT_FIXED_WIDTH_LAYOUT);
+        case 'ndjson':
+            return extractNdjsonFields;
+        default:
+            throw new InputFormatError(`Unsupported input format: ${config.format}`);
+    }
+}
+
+// customerId|firstName|lastName|email|age
+function extractPipeFields(line: string): CustomerFields | LineRejection {
+    const parts = line.split('|');
+
+    if (parts.length < 5) {
+        return rejectLine('TOO_FEW_FIELDS', null, `Expected 5 fields, found ${parts.length}`);
+    }
+
+    const [customerId, firstName, lastName, email, age] = parts;
+    return { customerId, firstName, lastName, email, age };
+}
+
+function csvFieldExtractor(header: string[], delimiter: string): FieldExtractor {
+    // Column index of each customer field; columns are matched ignoring case, spaces and underscores
+    const normalizedHeader = header.map(normalizeColumnName);
+    const columns = new Map<CustomerField, number>();
+    for (const field of CUSTOMER_FIELDS) {
+        const index = normalizedHeader.indexOf(normalizeColumnName(field));
+        if (index !== -1) {
+            columns.set(field, index);
+        }
+    }
+
+    const missing = REQUIRED_COLUMNS.filter(field => !columns.has(field));
+    if (missing.length > 0) {
+        throw new InputFormatError(`CSV header is missing column(s): ${missing.join(', ')}`);
+    }
+    const expectedFields = Math.max(...Array.from(columns.values())) + 1;
+
+    return (line: string) => {
+        const values = splitCsvLine(line, delimiter);
+        if (!values) {
+            return rejectLine('MALFORMED_RECORD', null, 'Unterminated quoted field');
+        }
+        if (values.length < expectedFields) {
+            return rejectLine('TOO_FEW_FIELDS', null, `Expected ${expectedFields} fields, found ${values.length}`);
+        }
+
+        return fieldsFrom(field => {
+            const index = columns.get(field);
+            return index === undefined ? '' : values[index];
+        });
+    };
+}
+
+function fixedWidthFieldExtractor(layout: FixedWidthColumn[]): FieldExtractor {
+    const { offsets, minimumLength } = fixedWidthOffsets(layout);
+
+    return (line: string) => {
+        if (line.length < minimumLength) {
+            return rejectLine('TOO_FEW_FIELDS', null, `Expected at least ${minimumLength} characters, found ${line.length}`);
+        }
+
+        return fieldsFrom(field => {
+            const offset = offsets.get(field);
+            return offset ? line.slice(offset.start, offset.end).trim() : '';
+        });
+    };
+}
+
+function fixedWidthOffsets(layout: FixedWidthColumn[]) {
+    const offsets = new Map<CustomerField, { start: number; end: number }>();
+    let position = 0;
+    for (const column of layout) {
+        offsets.set(column.field, { start: position, end: position + column.width });
+        position += column.width;
+    }
+
+    // A record needs the required columns; trailing optional ones are often trimmed away
+    const minimumLength = Math.max(...REQUIRED_COLUMNS.map(field => offsets.get(field)?.end ?? 0));
+    return { offsets, minimumLength };
+}
+
+function extractNdjsonFields(line: string): CustomerFields | LineRejection {
+    let record: unknown;
+    try {
+        record = JSON.parse(line);
+    } catch (error) {
+        return rejectLine('MALFORMED_RECORD', null, `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        return rejectLine('MALFORMED_RECORD', null, 'Expected a JSON object');
+    }
+
+    // Same key matching as CSV columns: customerId, customer_id and CustomerID all work
+    const values = new Map<string, unknown>();
+    for (const [key, value] of Object.entries(record)) {
+        values.set(normalizeColumnName(key), value);
+    }
+
+    return fieldsFrom(field => {
+        const value = values.get(normalizeColumnName(field));
+        return value === undefined || value === null ? '' : String(value);
+    });
+}
+
+function fieldsFrom(valueOf: (field: CustomerField) => string): CustomerFields {
+    return {
+        customerId: valueOf('customerId'),
+        firstName: valueOf('firstName'),
+        lastName: valueOf('lastName'),
+        email: valueOf('email'),
+        age: valueOf('age')
+    };
+}
+
+function normalizeColumnName(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Semicolons are the usual CSV delimiter in Spanish-locale spreadsheet exports
+function sniffCsvDelimiter(headerLine: string): string {
+    const commas = headerLine.split(',').length;
+    const semicolons = headerLine.split(';').length;
+    return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Split one CSV line (RFC 4180 quoting). Quoted fields may not span lines,
+ * since files are chunked on newlines. Returns null on an unterminated quote.
+ */
+export function splitCsvLine(line: string, delimiter: string = ','): string[] | null {
+    const values: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            values.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+
+    if (inQuotes) {
+        return null;
+    }
+
+    values.push(current);
+    return values;
+}
+
+function parseFixedWidthLayout(spec?: string): FixedWidthColumn[] {
+    if (!spec) {
+        return DEFAULT_FIXED_WIDTH_LAYOUT;
+    }
+
+    return spec.split(',').map(entry => {
+        const [field, width] = entry.split(':').map(part => part.trim());
+        if (!CUSTOMER_FIELDS.includes(field as CustomerField) || !(parseInt(width) > 0)) {
+            throw new InputFormatError(`Invalid FIXED_WIDTH_LAYOUT entry: ${entry}`);
+        }
+        return { field: field as CustomerField, width: parseInt(width) };
+    });
+}
+
+async function readFirstLine(filePath: string) {
+    for await (const line of readLines(filePath)) {
+        return line;
+    }
+    return null;
+}
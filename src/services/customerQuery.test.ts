@@ -0,0 +1,51 @@
+import { Brackets } from 'typeorm';
+import { applyCursor, decodeCursor, encodeCursor, escapeLike, InvalidCursorError } from './customerQuery';
+
+describe('customer cursors', () => {
+  it('should round-trip a position', () => {
+    const position = { sort: 'createdAt' as const, order: 'desc' as const, value: '2026-04-25 10:15:30.1233333', id: 42 };
+    const cursor = encodeCursor(position);
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, 'createdAt', 'desc')).toEqual(position);
+  });
+
+  it('should reject a cursor issued for another sort or order', () => {
+    const cursor = encodeCursor({ sort: 'lastName', order: 'asc', value: 'Lopez', id: 7 });
+    expect(() => decodeCursor(cursor, 'email', 'asc')).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(cursor, 'lastName', 'desc')).toThrow(InvalidCursorError);
+  });
+
+  it.each([
+    ['not base64 json', 'garbage!'],
+    ['a wrong shape', Buffer.from(JSON.stringify({ id: 1 })).toString('base64url')],
+    ['a value of the wrong type', Buffer.from(JSON.stringify(['age', 'asc', 'thirty', 1])).toString('base64url')],
+    ['a non-integer id', Buffer.from(JSON.stringify(['age', 'asc', 30, 1.5])).toString('base64url')]
+  ])('should reject %s', (_, cursor) => {
+    expect(() => decodeCursor(cursor, 'age', 'asc')).toThrow(new InvalidCursorError('Malformed cursor'));
+  });
+});
+
+describe('applyCursor', () => {
+  // The SQL of the keyset condition applyCursor adds
+  const condition = (position: Parameters<typeof applyCursor>[1]) => {
+    const clauses: string[] = [];
+    const where: any = { where: (clause: string) => (clauses.push(clause), where), orWhere: (clause: string) => (clauses.push(clause), where) };
+    const query: any = { andWhere: (brackets: Brackets) => brackets.whereFactory(where) };
+    applyCursor(query, position);
+    return clauses.join(' OR ');
+  };
+
+  it('should compare text cursors as the varchar columns they come from', () => {
+    expect(condition({ sort: 'lastName', order: 'asc', value: 'López', id: 7 }))
+      .toBe('customer.lastName > CAST(:cursorValue AS varchar(255)) OR customer.lastName = CAST(:cursorValue AS varchar(255)) AND customer.id > :cursorId');
+    expect(condition({ sort: 'age', order: 'desc', value: 30, id: 7 }))
+      .toBe('customer.age < :cursorValue OR customer.age = :cursorValue AND customer.id < :cursorId');
+  });
+});
+
+describe('escapeLike', () => {
+  it('should escape the LIKE wildcards', () => {
+    expect(escapeLike('50%_off[1]\\x')).toBe('50\\%\\_off\\[1]\\\\x');
+    expect(escapeLike('example.com')).toBe('example.com');
+  });
+});
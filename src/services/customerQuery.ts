@@ -0,0 +1,117 @@
+import { Customer } from "../entities/Customer";
+import { CustomerFilters } from "../interfaces/services";
+import { Brackets, SelectQueryBuilder } from "typeorm";
+
+export const CUSTOMER_SORT_FIELDS = ['id', 'customerId', 'lastName', 'email', 'age', 'createdAt'] as const;
+export type CustomerSortField = typeof CUSTOMER_SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 1000;
+
+export class InvalidCursorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidCursorError';
+    }
+}
+
+/**
+ * Where a page ended: the sort value and id of its last customer. The cursor
+ * is only valid for the sort it was issued for, so it carries that too.
+ */
+export interface CursorPosition {
+    sort: CustomerSortField;
+    order: SortOrder;
+    // createdAt is kept as SQL Server's own text so datetime2 precision survives
+    value: string | number;
+    id: number;
+}
+
+export function encodeCursor(position: CursorPosition): string {
+    const { sort, order, value, id } = position;
+    return Buffer.from(JSON.stringify([sort, order, value, id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: CustomerSortField, order: SortOrder): CursorPosition {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new InvalidCursorError('Malformed cursor');
+    }
+    if (!Array.isArray(decoded) || decoded.length !== 4) {
+        throw new InvalidCursorError('Malformed cursor');
+    }
+
+    const [cursorSort, cursorOrder, value, id] = decoded;
+    if (cursorSort !== sort || cursorOrder !== order) {
+        throw new InvalidCursorError(`The cursor was issued for sort=${cursorSort}&order=${cursorOrder}, not sort=${sort}&order=${order}`);
+    }
+    const expected = sort === 'id' || sort === 'age' ? 'number' : 'string';
+    if (typeof value !== expected || !Number.isInteger(id)) {
+        throw new InvalidCursorError('Malformed cursor');
+    }
+    return { sort, order, value, id };
+}
+
+// LIKE pattern matching the value literally; used with ESCAPE '\'
+export function escapeLike(value: string): string {
+    return value.replace(/[\\%_[]/g, '\\$&');
+}
+
+export function applyCustomerFilters(query: SelectQueryBuilder<Customer>, filters: CustomerFilters): void {
+    if (filters.lastName !== undefined) {
+        query.andWhere('customer.lastName = :lastName', { lastName: filters.lastName });
+    }
+    if (filters.emailDomain !== undefined) {
+        query.andWhere("customer.email LIKE :emailDomain ESCAPE '\\'", {
+            emailDomain: `%@${escapeLike(filters.emailDomain.replace(/^@/, ''))}`
+        });
+    }
+    if (filters.customerIdPrefix !== undefined) {
+        query.andWhere("customer.customerId LIKE :customerIdPrefix ESCAPE '\\'", {
+            customerIdPrefix: `${escapeLike(filters.customerIdPrefix)}%`
+        });
+    }
+    if (filters.minAge !== undefined) {
+        query.andWhere('customer.age >= :minAge', { minAge: filters.minAge });
+    }
+    if (filters.maxAge !== undefined) {
+        query.andWhere('customer.age <= :maxAge', { maxAge: filters.maxAge });
+    }
+    if (filters.createdFrom !== undefined) {
+        query.andWhere('customer.createdAt >= :createdFrom', { createdFrom: filters.createdFrom });
+    }
+    if (filters.createdTo !== undefined) {
+        query.andWhere('customer.createdAt < :createdTo', { createdTo: filters.createdTo });
+    }
+}
+
+// Parameters are bound as nvarchar, and a varchar column compared to one
+// sorts by Unicode rules its ORDER BY doesn't use: cast them to the column's type
+const CURSOR_VALUE_TYPES: Record<Exclude<CustomerSortField, 'id' | 'age'>, string> = {
+    customerId: 'varchar(255)',
+    lastName: 'varchar(255)',
+    email: 'varchar(255)',
+    createdAt: 'datetime2'
+};
+
+/**
+ * Keyset condition for the rows after the cursor. id breaks ties, so rows
+ * with the same sort value are neither repeated nor skipped between pages.
+ */
+export function applyCursor(query: SelectQueryBuilder<Customer>, position: CursorPosition): void {
+    const operator = position.order === 'asc' ? '>' : '<';
+    if (position.sort === 'id') {
+        query.andWhere(`customer.id ${operator} :cursorId`, { cursorId: position.id });
+        return;
+    }
+
+    const column = `customer.${position.sort}`;
+    const value = position.sort === 'age' ? ':cursorValue' : `CAST(:cursorValue AS ${CURSOR_VALUE_TYPES[position.sort]})`;
+    query.andWhere(new Brackets(where => {
+        where.where(`${column} ${operator} ${value}`)
+            .orWhere(`${column} = ${value} AND customer.id ${operator} :cursorId`);
+    }), { cursorValue: position.value, cursorId: position.id });
+}
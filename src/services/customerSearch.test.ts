@@ -0,0 +1,67 @@
+import { customerSearchText, editDistance, normalizeSearchText, scoreCustomer, searchWords } from './customerSearch';
+
+const maria = { firstName: 'María', lastName: 'Rodríguez', email: 'maría.rodríguez@outlook.com' };
+const lucia = { firstName: 'Lucía', lastName: 'Fernández', email: 'lucia.fernandez@yahoo.com' };
+const mariano = { firstName: 'Mariano', lastName: 'Ruiz', email: 'mruiz@example.com' };
+
+describe('normalizeSearchText', () => {
+  it('should drop accents, case and repeated spaces', () => {
+    expect(normalizeSearchText('  María   RODRÍGUEZ Muñoz ')).toBe('maria rodriguez munoz');
+  });
+
+  it('should build the searchText column value', () => {
+    expect(customerSearchText(maria)).toBe('maria rodriguez maria.rodriguez@outlook.com');
+  });
+
+  it('should split names and emails into words', () => {
+    expect(searchWords('maría.rodríguez@outlook.com')).toEqual(['maria', 'rodriguez', 'outlook', 'com']);
+  });
+});
+
+describe('editDistance', () => {
+  it.each([
+    ['maria', 'maria', 0],
+    ['rodrigez', 'rodriguez', 1],
+    ['mraia', 'maria', 1],
+    ['fernandes', 'fernandez', 1],
+    ['lucia', 'maria', 3]
+  ])('should count %s -> %s as %i', (a, b, distance) => {
+    expect(editDistance(a, b)).toBe(distance);
+  });
+});
+
+describe('scoreCustomer', () => {
+  it('should match regardless of accents and case', () => {
+    expect(scoreCustomer('MARIA RODRIGUEZ', maria)).toBeGreaterThan(0);
+    expect(scoreCustomer('lucía fernández', lucia)).toBeGreaterThan(0);
+  });
+
+  it('should tolerate typos', () => {
+    expect(scoreCustomer('Maria Rodrigez', maria)).toBeGreaterThan(0);
+    expect(scoreCustomer('Lucia Fernandes', lucia)).toBeGreaterThan(0);
+  });
+
+  it('should need every query word to match', () => {
+    expect(scoreCustomer('Maria Fernandez', maria)).toBe(0);
+    expect(scoreCustomer('Maria Fernandez', lucia)).toBe(0);
+  });
+
+  it('should not tolerate typos in short words', () => {
+    expect(scoreCustomer('ruis', mariano)).toBeGreaterThan(0);
+    expect(scoreCustomer('rui', mariano)).toBeGreaterThan(0);
+    expect(scoreCustomer('ria', mariano)).toBe(0);
+  });
+
+  it('should rank prefix matches above other results', () => {
+    expect(scoreCustomer('mari', maria)).toBeGreaterThan(1);
+    expect(scoreCustomer('mari', mariano)).toBeGreaterThan(1);
+    expect(scoreCustomer('rodr', maria)).toBeGreaterThan(1);
+    // Both words match exactly, but not in name order
+    expect(scoreCustomer('rodriguez maria', maria)).toBeLessThanOrEqual(1);
+    expect(scoreCustomer('maria rod', maria)).toBeGreaterThan(scoreCustomer('rodriguez maria', maria));
+  });
+
+  it('should rank an exact word above a typo', () => {
+    expect(scoreCustomer('rodriguez', maria)).toBeGreaterThan(scoreCustomer('rodrigez', maria));
+  });
+});
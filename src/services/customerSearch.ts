@@ -0,0 +1,129 @@
+import { Customer } from "../entities/Customer";
+import { SelectQueryBuilder } from "typeorm";
+import { escapeLike } from "./customerQuery";
+
+// Length of customers.searchText
+export const SEARCH_TEXT_LENGTH = 800;
+
+// Customers fetched from SQL Server and ranked here for one search
+export const MAX_SEARCH_CANDIDATES = 1000;
+
+// Letters of a query word a candidate must contain; typos are only tolerated after them
+const CANDIDATE_PREFIX_LENGTH = 3;
+
+/**
+ * Lower case without accents or repeated spaces, so "María  RODRÍGUEZ" and
+ * "maria rodriguez" compare equal. Letters without a decomposition (ñ does
+ * have one and becomes n) are kept as they are.
+ */
+export function normalizeSearchText(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Value of customers.searchText, written with every insert and update of a customer
+export function customerSearchText(customer: Partial<Pick<Customer, 'firstName' | 'lastName' | 'email'>>): string {
+    const { firstName, lastName, email } = customer;
+    return normalizeSearchText(`${firstName ?? ''} ${lastName ?? ''} ${email ?? ''}`).slice(0, SEARCH_TEXT_LENGTH);
+}
+
+// Names and the parts of the email, e.g. ["maria", "rodriguez", "outlook", "com"]
+export function searchWords(text: string): string[] {
+    return normalizeSearchText(text).split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+}
+
+// Typos tolerated in a query word: none under 4 characters, one up to 7, two beyond
+const maxTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of adjacent characters ("marai" is one typo away from "maria").
+ */
+export function editDistance(a: string, b: string): number {
+    const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) {
+        rows[0][j] = j;
+    }
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return rows[a.length][b.length];
+}
+
+// How well one query word matches the best of the customer's words, 0 when none does
+function wordScore(token: string, words: string[]): number {
+    let best = 0;
+    for (const word of words) {
+        if (word === token) {
+            return 1;
+        }
+        if (word.startsWith(token)) {
+            best = Math.max(best, 0.8);
+            continue;
+        }
+        const distance = Math.abs(word.length - token.length) <= 2 ? editDistance(token, word) : Infinity;
+        if (distance <= maxTypos(token.length)) {
+            best = Math.max(best, distance === 1 ? 0.6 : 0.4);
+        }
+    }
+    return best;
+}
+
+/**
+ * Relevance of a customer for a query, 0 when it does not match. Every query
+ * word has to match a word of the name or email, exactly, as a prefix or
+ * within a few typos. When the whole query is a prefix of the full name, the
+ * last name or the email, the customer gets one more point, which ranks it
+ * above every customer matched word by word only.
+ */
+export function scoreCustomer(query: string, customer: Pick<Customer, 'firstName' | 'lastName' | 'email'>): number {
+    const tokens = searchWords(query);
+    if (tokens.length === 0) {
+        return 0;
+    }
+
+    const words = searchWords(`${customer.firstName} ${customer.lastName} ${customer.email}`);
+    let total = 0;
+    for (const token of tokens) {
+        const score = wordScore(token, words);
+        if (score === 0) {
+            return 0;
+        }
+        total += score;
+    }
+
+    const normalized = normalizeSearchText(query);
+    const prefixes = [`${customer.firstName} ${customer.lastName}`, customer.lastName, customer.email].map(normalizeSearchText);
+    const prefixMatch = prefixes.some(value => value.startsWith(normalized));
+    return (prefixMatch ? 1 : 0) + total / tokens.length;
+}
+
+/**
+ * Narrow a search down in SQL Server: customers whose searchText contains the
+ * first letters of any query word, those containing more of the words in
+ * full first, so the ones scoreCustomer ranks highest are not cut off. A typo
+ * within those first letters ("mraia") therefore finds nothing.
+ */
+export function applySearchCandidates(query: SelectQueryBuilder<Customer>, tokens: string[]): void {
+    const hits: string[] = [];
+    tokens.forEach((token, index) => {
+        query.orWhere(`customer.searchText LIKE :prefix${index} ESCAPE '\\'`, {
+            [`prefix${index}`]: `%${escapeLike(token.slice(0, CANDIDATE_PREFIX_LENGTH))}%`
+        });
+        query.setParameter(`word${index}`, `%${escapeLike(token)}%`);
+        hits.push(`CASE WHEN customer.searchText LIKE :word${index} ESCAPE '\\' THEN 1 ELSE 0 END`);
+    });
+    query.orderBy(hits.join(' + '), 'DESC')
+        .addOrderBy('customer.id', 'ASC')
+        .limit(MAX_SEARCH_CANDIDATES);
+}
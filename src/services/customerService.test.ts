@@ -0,0 +1,127 @@
+import { CustomerConflictError, CustomerNotFoundError, CustomerService, InvalidCustomerError } from './customerService';
+import { customerSearchText } from './customerSearch';
+
+// In-memory customers table
+const memoryRepository = () => {
+  const rows: any[] = [];
+  const matches = (row: any, where: any) => Object.entries(where).every(([key, value]) => row[key] === value);
+  return {
+    rows,
+    findOne: async ({ where }: any) => {
+      const row = rows.find(candidate => matches(candidate, where));
+      return row ? { ...row } : null;
+    },
+    update: async (id: number, values: any) => {
+      const updated = rows.filter(row => row.id === id);
+      updated.forEach(row => Object.assign(row, values));
+      return { affected: updated.length };
+    },
+    // Candidates for a search: the rows containing one of the LIKE fragments, the ranking is the service's
+    createQueryBuilder: () => {
+      const fragments: string[] = [];
+      const query: any = {
+        orWhere: (_clause: string, parameters: Record<string, string>) => {
+          fragments.push(...Object.values(parameters).map(pattern => pattern.replace(/%/g, '')));
+          return query;
+        },
+        setParameter: () => query,
+        orderBy: () => query,
+        addOrderBy: () => query,
+        limit: () => query,
+        getMany: async () => rows
+          .filter(row => fragments.some(fragment => customerSearchText(row).includes(fragment)))
+          .map(row => ({ ...row }))
+      };
+      return query;
+    },
+    delete: async (where: any) => {
+      const before = rows.length;
+      rows.splice(0, rows.length, ...rows.filter(row => !matches(row, where)));
+      return { affected: before - rows.length };
+    }
+  };
+};
+
+describe('CustomerService single customers', () => {
+  let repository: ReturnType<typeof memoryRepository>;
+  let service: CustomerService;
+
+  beforeEach(() => {
+    repository = memoryRepository();
+    repository.rows.push(
+      { id: 1, customerId: '001001', firstName: 'María', lastName: 'Rodríguez', email: 'maria@example.com', age: 34, importJobId: 'job-1', sourceLine: 12, updatedAt: null },
+      { id: 2, customerId: '001002', firstName: 'Lucía', lastName: 'Fernández', email: 'lucia@example.com', age: 28, importJobId: 'job-1', sourceLine: 13, updatedAt: null }
+    );
+    const databaseService: any = { getRepository: () => repository };
+    service = new CustomerService(databaseService, { publish: jest.fn(), subscribe: jest.fn() });
+  });
+
+  it('should update the given fields and detach the customer from its import', async () => {
+    const updated = await service.updateCustomer('001001', { email: ' maria.rodriguez@example.com ', age: 35 });
+
+    expect(updated).toEqual(expect.objectContaining({
+      customerId: '001001', firstName: 'María', email: 'maria.rodriguez@example.com', age: 35, importJobId: null, sourceLine: null
+    }));
+    expect(updated.updatedAt).toBeInstanceOf(Date);
+    expect(repository.rows[0]).toEqual(expect.objectContaining({
+      email: 'maria.rodriguez@example.com', age: 35, searchText: 'maria rodriguez maria.rodriguez@example.com'
+    }));
+  });
+
+  it.each([
+    [{ email: 'not-an-email' }, 'INVALID_EMAIL', 'email'],
+    [{ age: 151 }, 'AGE_OUT_OF_RANGE', 'age'],
+    [{ firstName: '  ' }, 'MISSING_FIRST_NAME', 'firstName']
+  ])('should apply the import rules to %p', async (changes, reason, field) => {
+    const update = service.updateCustomer('001001', changes);
+    await expect(update).rejects.toBeInstanceOf(InvalidCustomerError);
+    await expect(update).rejects.toHaveProperty('rejection', expect.objectContaining({ reason, field }));
+    expect(repository.rows[0].importJobId).toBe('job-1');
+  });
+
+  it('should not rename a customer to a customerId that is taken', async () => {
+    await expect(service.updateCustomer('001001', { customerId: '001002' })).rejects.toBeInstanceOf(CustomerConflictError);
+    expect((await service.updateCustomer('001001', { customerId: '001003' })).customerId).toBe('001003');
+  });
+
+  it('should report unknown customers', async () => {
+    await expect(service.updateCustomer('missing', { age: 40 })).rejects.toBeInstanceOf(CustomerNotFoundError);
+    await expect(service.deleteCustomer('missing')).rejects.toBeInstanceOf(CustomerNotFoundError);
+  });
+
+  it('should search names and emails regardless of accents, case and typos', async () => {
+    repository.rows.push({ id: 3, customerId: '001003', firstName: 'Mario', lastName: 'Rodriguez', email: 'mario@example.com', age: 51 });
+
+    const results = await service.searchCustomers('maria rodrigez');
+    expect(results.map(result => result.customer.customerId)).toEqual(['001001', '001003']);
+    expect(await service.searchCustomers('LUCÍA')).toEqual([expect.objectContaining({ customer: expect.objectContaining({ customerId: '001002' }) })]);
+    expect(await service.searchCustomers(' .. ')).toEqual([]);
+  });
+
+  it('should only tolerate typos after the first three letters of a word', async () => {
+    expect((await service.searchCustomers('marai')).map(result => result.customer.customerId)).toEqual(['001001']);
+    // No candidate contains "mra", so the distance to "maria" is never looked at
+    expect(await service.searchCustomers('mraia')).toEqual([]);
+  });
+
+  it('should stream every page of customers', async () => {
+    const getCustomers = jest.spyOn(service, 'getCustomers')
+      .mockResolvedValueOnce({ customers: [repository.rows[0]], nextCursor: 'page-2' })
+      .mockResolvedValueOnce({ customers: [repository.rows[1]], nextCursor: null });
+
+    const streamed = [];
+    for await (const customer of service.streamCustomers({ minAge: 18 })) {
+      streamed.push(customer.customerId);
+    }
+
+    expect(streamed).toEqual(['001001', '001002']);
+    expect(getCustomers).toHaveBeenNthCalledWith(1, { minAge: 18, cursor: undefined, limit: 1000 });
+    expect(getCustomers).toHaveBeenNthCalledWith(2, { minAge: 18, cursor: 'page-2', limit: 1000 });
+  });
+
+  it('should delete a customer', async () => {
+    await service.deleteCustomer('001002');
+    expect(await service.getCustomer('001002')).toBeNull();
+    expect(repository.rows).toHaveLength(1);
+  });
+});
@@ -1,207 +1,509 @@
 import { Customer } from "../entities/Customer";
-import { ICustomerService, IDatabaseService } from "../interfaces/services";
+import {
+    ConcurrentCheckpoint,
+    CustomerFilters,
+    CustomerPage,
+    CustomerQuery,
+    CustomerSearchResult,
+    CustomerUpdate,
+    ICustomerService,
+    IDatabaseService,
+    IImportEventBus,
+    ImportCheckpoint,
+    ImportOptions,
+    ImportResult,
+    ImportWorkload,
+    ProcessingStatus,
+    SequentialCheckpoint,
+    SequentialProcessingStats
+} from "../interfaces/services";
 import { TYPES } from "../types/inversify";
 import { inject, injectable } from "inversify";
 import { Repository } from "typeorm";
 import * as fs from 'fs';
 import * as readline from 'readline';
-import { ConcurrentProcessor, ConcurrentProcessingStats } from './concurrentProcessor';
-
-interface ProcessingStats {
-    processed: number;
-    errors: number;
-    duplicates: number;
-    totalLines: number;
-    currentLine: number;
-    startTime: Date;
-    estimatedTimeRemaining?: number;
+import { randomUUID } from 'crypto';
+import { ConcurrentProcessingStats, ConcurrentProcessor, WorkerResult } from './concurrentProcessor';
+import { countError, CustomerFields, ErrorCounts, LineRejection, toCustomer, validateCustomerFields } from './customerLine';
+import {
+    applyCursor,
+    applyCustomerFilters,
+    CursorPosition,
+    decodeCursor,
+    DEFAULT_PAGE_SIZE,
+    encodeCursor,
+    MAX_PAGE_SIZE
+} from './customerQuery';
+import { createLineParser, ParserConfig, parserConfigFor, resolveParserConfig } from './customerParsers';
+import {
+    BatchOptions,
+    BatchResult,
+    checkCustomerBatch,
+    CustomerRow,
+    DuplicateCustomerError,
+    DuplicatePolicy,
+    emptyBatchResult,
+    fillMissingSearchText,
+    RejectedLineRecord,
+    writeCustomerBatch,
+    writeRejectedLines
+} from './customerBulkWriter';
+import { applySearchCandidates, customerSearchText, scoreCustomer, searchWords } from './customerSearch';
+import { isUniqueViolation } from './databaseService';
+import { FileLine, readLines } from './lineReader';
+import { PauseGate } from './pauseGate';
+import { ImportTuner, tuningBoundsFromEnv } from './importTuner';
+
+// Settings shared by both processing paths for one import
+interface ImportRun {
+    jobId: string;
+    parser: ParserConfig;
+    duplicatePolicy: DuplicatePolicy;
+    dryRun: boolean;
+    signal: AbortSignal;
+    pause: PauseGate;
+    tuner: ImportTuner;
+    onCheckpoint?: (checkpoint: ImportCheckpoint) => void;
+}
+
+// Everything of an ImportRun but the parser, which is only known once the input is opened
+type ImportControls = Omit<ImportRun, 'parser'>;
+
+// Where the sequential path reads from; a file can be counted up front for progress, a stream can't
+interface LineSource {
+    filePath: string | null;
+    resumeFrom?: SequentialCheckpoint;
+}
+
+export class ImportCancelledError extends Error {
+    constructor(jobId: string) {
+        super(`Import ${jobId} was cancelled`);
+        this.name = 'ImportCancelledError';
+    }
+}
+
+export class CustomerNotFoundError extends Error {
+    constructor(customerId: string) {
+        super(`Customer ${customerId} not found`);
+        this.name = 'CustomerNotFoundError';
+    }
+}
+
+export class CustomerConflictError extends Error {
+    constructor(customerId: string) {
+        super(`Customer ${customerId} already exists`);
+        this.name = 'CustomerConflictError';
+    }
+}
+
+// A change that breaks the record rules imports are checked against
+export class InvalidCustomerError extends Error {
+    constructor(public readonly rejection: LineRejection) {
+        super(rejection.message);
+        this.name = 'InvalidCustomerError';
+    }
 }
 
 @injectable()
 export class CustomerService implements ICustomerService {
     private customerRepository: Repository<Customer>;
-    private processingStats: ProcessingStats | null = null;
-    private readonly BATCH_SIZE = 100; // Process 100 records at a time
-    private readonly CONCURRENT_THRESHOLD = 5000; // Use concurrent processing for files with more than 5k lines
-    private concurrentProcessor: ConcurrentProcessor;
+    // Starting batch sizes; the tuner moves them within the IMPORT_BATCH_SIZE_MIN/MAX bounds
+    private readonly SEQUENTIAL_BATCH_SIZE = 100;
+    private readonly WORKER_BATCH_SIZE = 500;
+    // Use concurrent processing for files with more than this many lines
+    private readonly CONCURRENT_THRESHOLD = parseInt(process.env.IMPORT_CONCURRENT_THRESHOLD || '5000');
+    private readonly tuningBounds = tuningBoundsFromEnv();
+    // Live stats per import, keyed by job id (insertion order = start order)
+    private activeJobs: Set<string> = new Set();
+    private processingStats: Map<string, SequentialProcessingStats> = new Map();
+    private concurrentProcessors: Map<string, ConcurrentProcessor> = new Map();
+    private cancellations: Map<string, AbortController> = new Map();
+    private pauseGates: Map<string, PauseGate> = new Map();
+    private tuners: Map<string, ImportTuner> = new Map();
 
     constructor(
-        @inject(TYPES.DatabaseService) private databaseService: IDatabaseService
+        @inject(TYPES.DatabaseService) private databaseService: IDatabaseService,
+        @inject(TYPES.ImportEventBus) private importEvents: IImportEventBus
     ) {
         this.customerRepository = this.databaseService.getRepository(Customer);
-        this.concurrentProcessor = new ConcurrentProcessor(4, 1000); // 4 workers, 1k lines per chunk
     }
 
-    async processCustomersFile(filePath: string): Promise<{ processed: number; errors: number; duplicates: number; filePath: string }> {
+    async processCustomersFile(filePath: string, options: ImportOptions = {}): Promise<ImportResult> {
+        const { format, dryRun = false, resumeFrom } = options;
+
         // Check file size to decide processing method
         const fileStats = fs.statSync(filePath);
         const estimatedLines = Math.ceil(fileStats.size / 50); // Rough estimate: ~50 bytes per line
 
-        if (estimatedLines > this.CONCURRENT_THRESHOLD) {
-            console.log(`🚀 Large file detected (${estimatedLines} estimated lines). Using concurrent processing...`);
-            return this.processFileConcurrently(filePath);
-        } else {
-            console.log(`📄 Small file detected (${estimatedLines} estimated lines). Using sequential processing...`);
-            return this.processFileSequentially(filePath);
+        // A resumed import continues in the mode its checkpoint was taken with
+        const concurrent = resumeFrom ? resumeFrom.mode === 'concurrent' : estimatedLines > this.CONCURRENT_THRESHOLD;
+
+        return this.trackImport(options, concurrent, async controls => {
+            const parser = await resolveParserConfig(filePath, format);
+            console.log(`🧾 Reading ${filePath} as ${parser.format}${dryRun ? ' (dry run, customers are not written)' : ''}`);
+            const run: ImportRun = { ...controls, parser };
+
+            if (concurrent) {
+                console.log(`🚀 Large file detected (${estimatedLines} estimated lines). Using concurrent processing...`);
+                return await this.processFileConcurrently(filePath, run, resumeFrom as ConcurrentCheckpoint | undefined);
+            } else {
+                console.log(`📄 Small file detected (${estimatedLines} estimated lines). Using sequential processing...`);
+                return await this.processFileSequentially(filePath, run, resumeFrom as SequentialCheckpoint | undefined);
+            }
+        });
+    }
+
+    /**
+     * Import lines as they arrive, e.g. from an upload still being received.
+     * Always sequential: the next lines are only pulled once the batch before
+     * them is committed, so a slow database slows the sender down instead of
+     * filling memory. Nothing is read ahead to count lines, so progress is
+     * only known in lines done. A stream can't be resumed from a checkpoint.
+     */
+    async processCustomersStream(lines: AsyncIterable<FileLine>, options: ImportOptions = {}): Promise<ImportResult> {
+        const { format, dryRun = false } = options;
+
+        return this.trackImport({ ...options, resumeFrom: null }, false, async controls => {
+            const iterator = lines[Symbol.asyncIterator]();
+            const first = await iterator.next();
+            const firstLine = first.done ? null : first.value;
+            const parser = parserConfigFor(firstLine, format);
+            console.log(`🧾 Reading upload stream as ${parser.format}${dryRun ? ' (dry run, customers are not written)' : ''}`);
+
+            // The first line was taken to pick the format; it is data unless it is the CSV header
+            async function* remaining(): AsyncGenerator<FileLine> {
+                if (firstLine && parser.dataStartLine === 0) {
+                    yield firstLine;
+                }
+                yield* { [Symbol.asyncIterator]: () => iterator };
+            }
+            return await this.processLinesSequentially(remaining(), { ...controls, parser }, { filePath: null });
+        });
+    }
+
+    // Registers the import's cancel, pause and tuning controls for as long as it runs
+    private async trackImport(options: ImportOptions, concurrent: boolean, body: (controls: ImportControls) => Promise<ImportResult>): Promise<ImportResult> {
+        const { jobId = randomUUID(), duplicatePolicy = 'skip', dryRun = false, onCheckpoint } = options;
+        const cancellation = new AbortController();
+        const pause = new PauseGate();
+        this.cancellations.set(jobId, cancellation);
+        this.pauseGates.set(jobId, pause);
+
+        // Concurrent runs start with every worker allowed and back off from there
+        const tuner = new ImportTuner(this.tuningBounds, concurrent
+            ? { batchSize: this.WORKER_BATCH_SIZE, workers: this.tuningBounds.maxWorkers }
+            : { batchSize: this.SEQUENTIAL_BATCH_SIZE });
+        this.tuners.set(jobId, tuner);
+        tuner.start();
+
+        this.activeJobs.add(jobId);
+        try {
+            return await body({ jobId, duplicatePolicy, dryRun, signal: cancellation.signal, pause, tuner, onCheckpoint });
+        } finally {
+            tuner.stop();
+            this.activeJobs.delete(jobId);
+            this.cancellations.delete(jobId);
+            this.pauseGates.delete(jobId);
+            this.tuners.delete(jobId);
         }
     }
 
-    private async processFileConcurrently(filePath: string): Promise<{ processed: number; errors: number; duplicates: number; filePath: string }> {
-        // Set up progress monitoring
-        this.concurrentProcessor.on('progress', (stats: ConcurrentProcessingStats) => {
-            this.processingStats = {
-                processed: stats.processed,
-                errors: stats.errors,
-                duplicates: stats.duplicates,
-                totalLines: stats.totalLines,
-                currentLine: stats.processed, // Approximate
-                startTime: stats.startTime,
-                estimatedTimeRemaining: this.calculateEstimatedTime(stats)
-            };
+    /**
+     * Ask a running import to stop. Batches already being written are
+     * committed first; processCustomersFile then rejects with ImportCancelledError.
+     * Returns false when the job isn't running here.
+     */
+    cancelProcessing(jobId: string): boolean {
+        const cancellation = this.cancellations.get(jobId);
+        if (!cancellation) {
+            return false;
+        }
+
+        console.log(`🛑 Cancelling import ${jobId}...`);
+        cancellation.abort();
+        return true;
+    }
+
+    /**
+     * Hold a running import: the sequential path commits its current batch and
+     * stops reading, the concurrent path lets running chunks finish and
+     * dispatches no new ones. Returns false when the job isn't running here or
+     * is already paused.
+     */
+    pauseProcessing(jobId: string): boolean {
+        const paused = this.pauseGates.get(jobId)?.pause() ?? false;
+        if (paused) {
+            console.log(`⏸️  Pausing import ${jobId}...`);
+        }
+        return paused;
+    }
+
+    // Returns false when the job isn't paused here
+    resumeProcessing(jobId: string): boolean {
+        const resumed = this.pauseGates.get(jobId)?.resume() ?? false;
+        if (resumed) {
+            console.log(`▶️  Resuming import ${jobId}...`);
+        }
+        return resumed;
+    }
+
+    private async processFileConcurrently(filePath: string, run: ImportRun, resumeFrom?: ConcurrentCheckpoint): Promise<ImportResult> {
+        const { jobId, parser, duplicatePolicy, dryRun, signal, pause, tuner, onCheckpoint } = run;
+        // A resumed run must split the file exactly like the interrupted one
+        const chunkSize = resumeFrom?.chunkSize ?? 1000;
+        const concurrentProcessor = new ConcurrentProcessor(tuner.workers ?? this.tuningBounds.maxWorkers, chunkSize); // 1k lines per chunk
+        this.concurrentProcessors.set(jobId, concurrentProcessor);
+        concurrentProcessor.on('progress', (stats: ConcurrentProcessingStats) => {
+            this.importEvents.publish({
+                type: 'progress',
+                jobId,
+                progress: {
+                    processed: stats.processed,
+                    inserted: stats.inserted,
+                    updated: stats.updated,
+                    errors: stats.errors,
+                    errorsByReason: { ...stats.errorsByReason },
+                    duplicates: stats.duplicates,
+                    totalLines: stats.totalLines,
+                    progress: stats.progress
+                }
+            });
+        });
+        concurrentProcessor.on('chunk', (result: WorkerResult) => {
+            const stats = concurrentProcessor.getProcessingStats();
+            this.importEvents.publish({
+                type: 'chunk',
+                jobId,
+                chunk: {
+                    chunkId: result.chunkId,
+                    startLine: result.startLine,
+                    endLine: result.endLine,
+                    processed: result.processed,
+                    inserted: result.inserted,
+                    updated: result.updated,
+                    errors: result.errors,
+                    errorsByReason: result.errorsByReason,
+                    duplicates: result.duplicates,
+                    completedChunks: stats?.completedChunks ?? 0,
+                    totalChunks: stats?.totalChunks ?? 0
+                }
+            });
         });
 
         try {
-            const result = await this.concurrentProcessor.processFileConcurrently(filePath);
+            const result = await concurrentProcessor.processFileConcurrently(filePath, { jobId, parser, duplicatePolicy, dryRun, resumeFrom, onCheckpoint, signal, pause, tuner });
+            if (result.cancelled) {
+                throw new ImportCancelledError(jobId);
+            }
             return {
                 processed: result.processed,
+                inserted: result.inserted,
+                updated: result.updated,
                 errors: result.errors,
+                errorsByReason: result.errorsByReason,
                 duplicates: result.duplicates,
-                filePath
+                totalLines: result.totalLines,
+                filePath,
+                format: parser.format
             };
         } catch (error) {
-            console.error('Error in concurrent processing:', error);
+            if (!(error instanceof ImportCancelledError)) {
+                console.error('Error in concurrent processing:', error);
+            }
             throw error;
+        } finally {
+            this.concurrentProcessors.delete(jobId);
         }
     }
 
-    private async processFileSequentially(filePath: string): Promise<{ processed: number; errors: number; duplicates: number; filePath: string }> {
-        // Initialize processing stats
-        this.processingStats = {
-            processed: 0,
-            errors: 0,
-            duplicates: 0,
+    private async processFileSequentially(filePath: string, run: ImportRun, resumeFrom?: SequentialCheckpoint): Promise<ImportResult> {
+        const lines = readLines(filePath, resumeFrom?.byteOffset ?? run.parser.dataStartByte);
+        return this.processLinesSequentially(lines, run, { filePath, resumeFrom });
+    }
+
+    private async processLinesSequentially(lines: AsyncIterable<FileLine>, run: ImportRun, source: LineSource): Promise<ImportResult> {
+        const { filePath, resumeFrom } = source;
+        const { jobId, parser: parserConfig, duplicatePolicy, dryRun, signal, pause, tuner, onCheckpoint } = run;
+        // Initialize processing stats, carrying over what a previous run already committed
+        const stats: SequentialProcessingStats = {
+            processed: resumeFrom?.processed ?? 0,
+            inserted: resumeFrom?.inserted ?? 0,
+            updated: resumeFrom?.updated ?? 0,
+            errors: resumeFrom?.errors ?? 0,
+            errorsByReason: { ...resumeFrom?.errorsByReason },
+            duplicates: resumeFrom?.duplicates ?? 0,
             totalLines: 0,
-            currentLine: 0,
+            currentLine: resumeFrom?.line ?? parserConfig.dataStartLine,
             startTime: new Date()
         };
+        this.processingStats.set(jobId, stats);
 
-        // Count total lines for progress tracking
-        this.processingStats.totalLines = await this.countLines(filePath);
-        console.log(`📊 Total lines to process: ${this.processingStats.totalLines}`);
+        try {
+            // Count total lines for progress tracking
+            if (filePath) {
+                stats.totalLines = await this.countLines(filePath);
+                console.log(`📊 Total lines to process: ${stats.totalLines}`);
+            }
+            if (resumeFrom) {
+                console.log(`⏯️  Resuming at line ${resumeFrom.line} (byte ${resumeFrom.byteOffset})`);
+            }
 
-        const fileStream = fs.createReadStream(filePath);
-        const rl = readline.createInterface({
-            input: fileStream,
-            crlfDelay: Infinity
-        });
+            const parser = createLineParser(parserConfig);
+            let batch: CustomerRow[] = [];
+            let rejected: RejectedLineRecord[] = [];
+
+            const flushBatch = async (byteOffset: number) => {
+                await writeRejectedLines(this.databaseService.getConnectionPool(), jobId, rejected);
+                rejected = [];
+
+                const started = Date.now();
+                const batchResult = await this.processBatch(batch, { importJobId: jobId, duplicatePolicy }, dryRun);
+                if (batch.length > 0) {
+                    tuner.recordBatch(Date.now() - started);
+                }
+                stats.processed += batchResult.processed;
+                stats.inserted += batchResult.inserted;
+                stats.updated += batchResult.updated;
+                stats.errors += batchResult.errors;
+                countError(stats.errorsByReason, 'WRITE_FAILED', batchResult.errors);
+                stats.duplicates += batchResult.duplicates;
+                batch = []; // Reset batch
+
+                this.importEvents.publish({
+                    type: 'progress',
+                    jobId,
+                    progress: {
+                        processed: stats.processed,
+                        inserted: stats.inserted,
+                        updated: stats.updated,
+                        errors: stats.errors,
+                        errorsByReason: { ...stats.errorsByReason },
+                        duplicates: stats.duplicates,
+                        totalLines: stats.totalLines,
+                        progress: stats.totalLines > 0 ? Math.round((stats.currentLine / stats.totalLines) * 10000) / 100 : 0
+                    }
+                });
+
+                onCheckpoint?.({
+                    mode: 'sequential',
+                    byteOffset,
+                    line: stats.currentLine,
+                    processed: stats.processed,
+                    inserted: stats.inserted,
+                    updated: stats.updated,
+                    errors: stats.errors,
+                    errorsByReason: { ...stats.errorsByReason },
+                    duplicates: stats.duplicates
+                });
+            };
+
+            let lastEndByte = resumeFrom?.byteOffset ?? parserConfig.dataStartByte;
+            for await (const { text: line, endByte } of lines) {
+                if (pause.paused) {
+                    // Commit what was read so the checkpoint is current, then stop pulling lines
+                    if (batch.length > 0 || rejected.length > 0) {
+                        await flushBatch(lastEndByte);
+                    }
+                    console.log(`⏸️  Import ${jobId} paused at line ${stats.currentLine}`);
+                    await pause.whenResumed(signal);
+                }
+                if (tuner.readingHeld) {
+                    // Lines already read are written out, then nothing more is read until memory frees up
+                    if (batch.length > 0 || rejected.length > 0) {
+                        await flushBatch(lastEndByte);
+                    }
+                    console.log(`🧠 Import ${jobId} waiting for memory at line ${stats.currentLine}`);
+                    await tuner.whenReadingAllowed(signal);
+                }
+                if (signal.aborted) {
+                    break;
+                }
+                stats.currentLine++;
+                lastEndByte = endByte;
 
-        let batch: Partial<Customer>[] = [];
-        let processed = 0;
-        let errors = 0;
-        let duplicates = 0;
-        try {
-            for await (const line of rl) {
-                this.processingStats.currentLine++;
-                
                 try {
-                    if (this.validateLine(line)) {
-                        const customerData = this.parseLine(line);
-                        batch.push(customerData);
-
-                        // Process batch when it reaches the batch size
-                        if (batch.length >= this.BATCH_SIZE) {
-                            const batchResult = await this.processBatch(batch);
-                            processed += batchResult.processed;
-                            errors += batchResult.errors;
-                            duplicates += batchResult.duplicates;
-                            this.processingStats.processed += batchResult.processed;
-                            this.processingStats.errors += batchResult.errors;
-                            this.processingStats.duplicates += batchResult.duplicates;
-                            
-                            // Log progress every 10,000 records
-                            if (this.processingStats.processed % 10000 === 0) {
-                                this.logProgress();
-                            }
-                            
-                            batch = []; // Reset batch
-                        }
+                    const parsed = parser.parse(line);
+                    if (parsed.valid) {
+                        batch.push({ ...parsed.customer, sourceLine: stats.currentLine });
                     } else {
-                        errors++;
-                        this.processingStats.errors++;
+                        stats.errors++;
+                        countError(stats.errorsByReason, parsed.reason);
+                        rejected.push({
+                            lineNumber: stats.currentLine,
+                            rawLine: line,
+                            reason: parsed.reason,
+                            field: parsed.field,
+                            detail: parsed.message
+                        });
+                    }
+
+                    // Process batch when it reaches the batch size
+                    if (batch.length >= tuner.batchSize || rejected.length >= tuner.batchSize) {
+                        await flushBatch(endByte);
+
+                        // Log progress every 10,000 records
+                        if (stats.processed % 10000 === 0) {
+                            this.logProgress(stats);
+                        }
                     }
                 } catch (error) {
-                    errors++;
-                    this.processingStats.errors++;
-                    console.error(`Error processing line ${this.processingStats.currentLine}:`, error);
+                    if (error instanceof DuplicateCustomerError) {
+                        throw error;
+                    }
+                    stats.errors++;
+                    countError(stats.errorsByReason, 'PROCESSING_ERROR');
+                    console.error(`Error processing line ${stats.currentLine}:`, error);
                 }
             }
 
-            // Process remaining records in the last batch
-            if (batch.length > 0) {
-                const batchResult = await this.processBatch(batch);
-                processed += batchResult.processed;
-                errors += batchResult.errors;
-                duplicates += batchResult.duplicates;
-                this.processingStats.processed += batchResult.processed;
-                this.processingStats.errors += batchResult.errors;
-                this.processingStats.duplicates += batchResult.duplicates;
+            // Process remaining records in the last batch (also on cancel, so the checkpoint covers every line read)
+            if (batch.length > 0 || rejected.length > 0) {
+                await flushBatch(lastEndByte);
+            }
+
+            if (signal.aborted) {
+                console.log(`🛑 Import ${jobId} stopped at line ${stats.currentLine}: ${stats.processed} processed, ${stats.errors} errors, ${stats.duplicates} duplicates`);
+                throw new ImportCancelledError(jobId);
             }
 
-            this.logFinalStats();
-            return { processed, errors, duplicates, filePath };
+            // A stream's total is known once it ends
+            if (!filePath) {
+                stats.totalLines = stats.currentLine;
+            }
+            this.logFinalStats(stats);
+            return {
+                processed: stats.processed,
+                inserted: stats.inserted,
+                updated: stats.updated,
+                errors: stats.errors,
+                errorsByReason: stats.errorsByReason,
+                duplicates: stats.duplicates,
+                totalLines: stats.totalLines,
+                filePath: filePath ?? '',
+                format: parserConfig.format
+            };
 
         } catch (error) {
-            console.error('Error during file processing:', error);
+            if (!(error instanceof ImportCancelledError)) {
+                console.error('Error during file processing:', error);
+            }
             throw error;
         } finally {
-            this.processingStats = null;
+            this.processingStats.delete(jobId);
         }
     }
 
-    private calculateEstimatedTime(stats: ConcurrentProcessingStats): number {
-        if (stats.rate <= 0) return 0;
-        const remainingLines = stats.totalLines - stats.processed;
-        return remainingLines / stats.rate;
-    }
-
-    private async processBatch(batch: Partial<Customer>[]): Promise<{ processed: number; errors: number; duplicates: number }> {
-        let processed = 0;
-        let errors = 0;
-        let duplicates = 0;
-
+    private async processBatch(batch: CustomerRow[], options: BatchOptions, dryRun: boolean): Promise<BatchResult> {
+        const writeBatch = dryRun ? checkCustomerBatch : writeCustomerBatch;
         try {
-            // Use a transaction for batch processing
-            await this.databaseService.getDataSource().transaction(async (manager: any) => {
-                const customerRepo = manager.getRepository(Customer);
-
-                for (const customerData of batch) {
-                    try {
-                        // Check for existing customers
-                        const existingCustomer = await customerRepo.findOne({
-                            where: { customerId: customerData.customerId }
-                        });
-
-                        if (existingCustomer) {
-                            duplicates++;
-                            console.log(`⚠️  Duplicate customerId found: ${customerData.customerId}`);
-                            continue;
-                        }
-
-                        const customer = customerRepo.create(customerData);
-                        await customerRepo.save(customer);
-                        processed++;
-                    } catch (error) {
-                        errors++;
-                        console.error(`Error processing customer ${customerData.customerId}:`, error);
-                    }
-                }
-            });
+            return await writeBatch(this.databaseService.getConnectionPool(), batch, options);
         } catch (error) {
+            if (error instanceof DuplicateCustomerError) {
+                throw error; // Duplicate policy 'fail': the whole import fails
+            }
             console.error('Error in batch transaction:', error);
-            errors += batch.length; // Mark all records in batch as errors
+            return { ...emptyBatchResult(), errors: batch.length }; // Mark all records in batch as errors
         }
-
-        return { processed, errors, duplicates };
     }
 
     private async countLines(filePath: string): Promise<number> {
@@ -225,117 +527,235 @@ export class CustomerService implements ICustomerService {
         });
     }
 
-    private logProgress(): void {
-        if (!this.processingStats) return;
+    private logProgress(stats: SequentialProcessingStats): void {
+        const elapsed = Date.now() - stats.startTime.getTime();
+        const rate = stats.processed / (elapsed / 1000); // records per second
 
-        const elapsed = Date.now() - this.processingStats.startTime.getTime();
-        const progress = (this.processingStats.currentLine / this.processingStats.totalLines) * 100;
-        const rate = this.processingStats.processed / (elapsed / 1000); // records per second
-
-        console.log(`📈 Progress: ${progress.toFixed(2)}% (${this.processingStats.currentLine}/${this.processingStats.totalLines})`);
-        console.log(`   Processed: ${this.processingStats.processed}, Errors: ${this.processingStats.errors}, Duplicates: ${this.processingStats.duplicates}`);
+        if (stats.totalLines > 0) {
+            const progress = (stats.currentLine / stats.totalLines) * 100;
+            console.log(`📈 Progress: ${progress.toFixed(2)}% (${stats.currentLine}/${stats.totalLines})`);
+        } else {
+            console.log(`📈 Progress: ${stats.currentLine} lines read`); // Streamed, the total isn't known yet
+        }
+        console.log(`   Processed: ${stats.processed}, Errors: ${stats.errors}, Duplicates: ${stats.duplicates}`);
         console.log(`   Rate: ${rate.toFixed(2)} records/sec`);
     }
 
-    private logFinalStats(): void {
-        if (!this.processingStats) return;
-
-        const elapsed = Date.now() - this.processingStats.startTime.getTime();
-        const rate = this.processingStats.processed / (elapsed / 1000);
+    private logFinalStats(stats: SequentialProcessingStats): void {
+        const elapsed = Date.now() - stats.startTime.getTime();
+        const rate = stats.processed / (elapsed / 1000);
 
         console.log('\n🎉 Processing completed!');
         console.log(`📊 Final Stats:`);
-        console.log(`   Total processed: ${this.processingStats.processed}`);
-        console.log(`   Total errors: ${this.processingStats.errors}`);
-        console.log(`   Total duplicates: ${this.processingStats.duplicates}`);
+        console.log(`   Total processed: ${stats.processed} (${stats.inserted} inserted, ${stats.updated} updated)`);
+        console.log(`   Total errors: ${stats.errors} ${JSON.stringify(stats.errorsByReason)}`);
+        console.log(`   Total duplicates: ${stats.duplicates}`);
         console.log(`   Total time: ${(elapsed / 1000).toFixed(2)} seconds`);
         console.log(`   Average rate: ${rate.toFixed(2)} records/sec`);
     }
 
-    getProcessingStats(): any {
+    getWorkload(): ImportWorkload {
+        let activeWorkers = 0;
+        let queuedChunks = 0;
+        for (const processor of this.concurrentProcessors.values()) {
+            const stats = processor.getProcessingStats();
+            if (stats) {
+                activeWorkers += stats.activeWorkers;
+                queuedChunks += Math.max(stats.totalChunks - stats.completedChunks - stats.activeWorkers, 0);
+            }
+        }
+        return { activeImports: this.activeJobs.size, activeWorkers, queuedChunks };
+    }
+
+    getProcessingStats(jobId?: string): ProcessingStatus | null {
+        // Without a job id, report the most recently started import still running
+        const id = jobId ?? Array.from(this.activeJobs).pop();
+        if (!id) {
+            return null;
+        }
+
         // Return concurrent processor stats if available, otherwise sequential stats
-        const concurrentStats = this.concurrentProcessor.getProcessingStats();
+        const pause = this.pauseGates.get(id);
+        const pauseStats = {
+            paused: pause?.paused ?? false,
+            pausedAt: pause?.pausedSince ?? null,
+            pausedMs: pause?.totalPausedMs() ?? 0,
+            tuning: this.tuners.get(id)?.getStats() ?? null
+        };
+
+        const concurrentStats = this.concurrentProcessors.get(id)?.getProcessingStats();
         if (concurrentStats) {
             return {
+                jobId: id,
                 isConcurrent: true,
-                ...concurrentStats
+                ...concurrentStats,
+                ...pauseStats
             };
         }
-        
-        if (this.processingStats) {
+
+        const stats = this.processingStats.get(id);
+        if (stats) {
             return {
+                jobId: id,
                 isConcurrent: false,
-                ...this.processingStats
+                ...stats,
+                ...pauseStats
             };
         }
-        
+
         return null;
     }
 
-    validateLine (line: string): boolean {
-        // Skip empty lines
-        if (!line || line.trim().length === 0) {
-            return false;
+    /**
+     * One page of customers in keyset order: the next page starts after the
+     * last row of this one instead of at an offset, so deep pages cost the
+     * same as the first and rows inserted meanwhile do not shift them.
+     */
+    async getCustomers(query: CustomerQuery = {}): Promise<CustomerPage> {
+        const sort = query.sort ?? 'id';
+        const order = query.order ?? 'asc';
+        const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const after = query.cursor ? decodeCursor(query.cursor, sort, order) : null;
+
+        const filtered = this.customerRepository.createQueryBuilder('customer');
+        applyCustomerFilters(filtered, query);
+        const total = query.includeTotal ? await filtered.clone().getCount() : undefined;
+
+        const page = filtered.clone();
+        if (after) {
+            applyCursor(page, after);
+        }
+        const direction = order === 'asc' ? 'ASC' : 'DESC';
+        page.orderBy(`customer.${sort}`, direction)
+            .addOrderBy('customer.id', direction)
+            .limit(limit + 1);
+        if (sort === 'createdAt') {
+            // Style 121 keeps all seven fractional digits, which a JS Date would round away
+            page.addSelect('CONVERT(varchar(27), customer.createdAt, 121)', 'cursor_createdAt');
         }
 
-        const parts = line.split('|');
-
-        if (parts.length < 5) {
-            return false;
+        // One extra row tells whether there is a next page
+        const { entities, raw } = await page.getRawAndEntities();
+        const customers = entities.slice(0, limit);
+        let nextCursor: string | null = null;
+        if (entities.length > limit) {
+            const last = customers[limit - 1];
+            const position: CursorPosition = {
+                sort,
+                order,
+                value: sort === 'createdAt' ? raw[limit - 1].cursor_createdAt : last[sort],
+                id: last.id
+            };
+            nextCursor = encodeCursor(position);
         }
 
-        const [customerId, firstName, lastName, email, age] = parts;
+        return { customers, nextCursor, total };
+    }
 
-        // Basic validation for required fields
-        if (!customerId || !firstName || !lastName) {
-            return false;
-        }
+    async getCustomerByEmail(email: string): Promise<Customer | null> {
+        return this.customerRepository.findOne({
+            where: { email }
+        });
+    }
 
-        // Clean customerId (remove leading zeros and validate)
-        const cleanCustomerId = customerId.trim();
-        if (cleanCustomerId.length === 0) {
-            return false;
-        }
+    async getCustomer(customerId: string): Promise<Customer | null> {
+        return this.customerRepository.findOne({
+            where: { customerId }
+        });
+    }
 
-        // Validate email if present
-        if (email && email.trim().length > 0) {
-            const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-            if (!emailRegex.test(email.trim())) {
-                return false;
-            }
-        }
+    // Every customer matching the filters, in id order, one page at a time
+    async *streamCustomers(filters: CustomerFilters = {}): AsyncIterable<Customer> {
+        let cursor: string | undefined;
 
-        // Validate age if present
-        if (age && age.trim().length > 0) {
-            const parsedAge = parseInt(age.trim());
-            if (isNaN(parsedAge) || parsedAge < 0 || parsedAge > 150) {
-                return false;
-            }
+        do {
+            const page = await this.getCustomers({ ...filters, cursor, limit: MAX_PAGE_SIZE });
+            yield* page.customers;
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+    }
+
+    /**
+     * Accent and case insensitive search over names and emails, tolerant of
+     * typos after the first three letters of a word. SQL Server picks the
+     * candidates from searchText and scoreCustomer ranks them, prefix matches first.
+     */
+    async searchCustomers(query: string, limit: number = 20): Promise<CustomerSearchResult[]> {
+        const tokens = searchWords(query);
+        if (tokens.length === 0) {
+            return [];
         }
 
-        return true;
+        const candidates = this.customerRepository.createQueryBuilder('customer');
+        applySearchCandidates(candidates, tokens);
+
+        return (await candidates.getMany())
+            .map(customer => ({ customer, score: scoreCustomer(query, customer) }))
+            .filter(result => result.score > 0)
+            .sort((a, b) => b.score - a.score || a.customer.lastName.localeCompare(b.customer.lastName) || a.customer.id - b.customer.id)
+            .slice(0, limit);
     }
 
-    parseLine (line: string): Partial<Customer> {
-        const parts = line.split('|');
-        const [customerId, firstName, lastName, email, age] = parts;
+    // searchText for customers stored before the column existed; imports and updates keep it current
+    async backfillSearchText(batchSize: number = 1000): Promise<number> {
+        const pool = this.databaseService.getConnectionPool();
+        let filled = 0;
+        let count: number;
+        do {
+            count = await fillMissingSearchText(pool, batchSize);
+            filled += count;
+        } while (count > 0);
+        return filled;
+    }
 
-        return {
-            customerId,
-            firstName,
-            lastName,
-            email,
-            age: parseInt(age)
+    /**
+     * Fix a single record. The result goes through validateCustomerFields like
+     * an imported line, and no longer counts as written by an import, so a
+     * later keep-newest import of the customer replaces it.
+     */
+    async updateCustomer(customerId: string, changes: CustomerUpdate): Promise<Customer> {
+        const customer = await this.getCustomer(customerId);
+        if (!customer) {
+            throw new CustomerNotFoundError(customerId);
+        }
+
+        const fields: CustomerFields = {
+            customerId: (changes.customerId ?? customer.customerId).trim(),
+            firstName: (changes.firstName ?? customer.firstName).trim(),
+            lastName: (changes.lastName ?? customer.lastName).trim(),
+            email: (changes.email ?? customer.email).trim(),
+            age: String(changes.age ?? customer.age)
+        };
+        const validation = validateCustomerFields(fields);
+        if (!validation.valid) {
+            throw new InvalidCustomerError(validation);
+        }
+        if (fields.customerId !== customer.customerId && await this.getCustomer(fields.customerId)) {
+            throw new CustomerConflictError(fields.customerId);
         }
-    }
 
-    async getCustomers(): Promise<Customer[]> {
-        return this.customerRepository.find();
+        const values = {
+            ...toCustomer(fields),
+            searchText: customerSearchText(fields),
+            importJobId: null,
+            sourceLine: null,
+            updatedAt: new Date()
+        };
+        try {
+            await this.customerRepository.update(customer.id, values);
+        } catch (error) {
+            if (isUniqueViolation(error)) {
+                throw new CustomerConflictError(fields.customerId);
+            }
+            throw error;
+        }
+        return Object.assign(customer, values);
     }
 
-    async getCustomerByEmail(email: string): Promise<Customer | null> {
-        return this.customerRepository.findOne({
-            where: { email }
-        });
+    async deleteCustomer(customerId: string): Promise<void> {
+        const result = await this.customerRepository.delete({ customerId });
+        if (!result.affected) {
+            throw new CustomerNotFoundError(customerId);
+        }
     }
 }
\ No newline at end of file
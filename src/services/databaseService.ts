@@ -1,8 +1,22 @@
 import { injectable } from 'inversify';
 import { Repository, DataSource, ObjectLiteral } from 'typeorm';
+import { SqlServerDriver } from 'typeorm/driver/sqlserver/SqlServerDriver';
+import { ConnectionPool } from 'mssql';
 import { AppDataSource } from '../config/database';
 import { IDatabaseService } from '../interfaces/services';
 
+// SQL Server unique index violations (2627: constraint, 2601: index)
+export function isUniqueViolation(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  // TypeORM wraps the mssql error in a QueryFailedError
+  if ('driverError' in error && isUniqueViolation(error.driverError)) {
+    return true;
+  }
+  return 'number' in error && (error.number === 2627 || error.number === 2601);
+}
+
 @injectable()
 export class DatabaseService implements IDatabaseService {
   private dataSource: DataSource;
@@ -24,4 +38,12 @@ export class DatabaseService implements IDatabaseService {
   getDataSource(): DataSource {
     return this.dataSource;
   }
+
+  /**
+   * The mssql pool TypeORM already manages, for bulk operations the
+   * repository API can't express.
+   */
+  getConnectionPool(): ConnectionPool {
+    return (this.dataSource.driver as SqlServerDriver).master;
+  }
 } 
\ No newline at end of file
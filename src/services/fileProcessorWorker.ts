@@ -0,0 +1,154 @@
+import { parentPort, workerData } from 'worker_threads';
+import * as sql from 'mssql';
+import type { WorkerCommand, WorkerData, WorkerMessage, WorkerResult } from './concurrentProcessor';
+import { countError } from './customerLine';
+import { createLineParser } from './customerParsers';
+import {
+    checkCustomerBatch,
+    CustomerRow,
+    DuplicateCustomerError,
+    RejectedLineRecord,
+    writeCustomerBatch,
+    writeRejectedLines
+} from './customerBulkWriter';
+import { readLines } from './lineReader';
+
+const { jobId, filePath, chunk, parser: parserConfig, duplicatePolicy, dryRun, batchSize, databaseConfig } = workerData as WorkerData;
+const parser = createLineParser(parserConfig);
+const writeBatch = dryRun ? checkCustomerBatch : writeCustomerBatch;
+
+// Set when the import is cancelled; checked between lines
+let stopRequested = false;
+parentPort?.on('message', (command: WorkerCommand) => {
+    if (command.type === 'stop') {
+        stopRequested = true;
+    }
+});
+parentPort?.unref(); // Listening for commands must not keep the worker alive
+
+async function processChunk(): Promise<WorkerResult> {
+    const result: WorkerResult = {
+        chunkId: chunk.chunkId,
+        stopped: false,
+        processed: 0,
+        inserted: 0,
+        updated: 0,
+        errors: 0,
+        errorsByReason: {},
+        duplicates: 0,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine
+    };
+    let lineIndex = chunk.startLine - 1; // Zero-based, same numbering as ProcessingChunk
+    let lineEndByte = chunk.startByte;
+    let batch: CustomerRow[] = [];
+    let rejected: RejectedLineRecord[] = [];
+
+    // Each worker owns its own pool: connections can't be shared across threads
+    const pool = new sql.ConnectionPool(databaseConfig);
+
+    const flushBatch = async () => {
+        await writeRejectedLines(pool, jobId, rejected);
+        rejected = [];
+
+        const started = Date.now();
+        const batchResult = await writeBatch(pool, batch, { importJobId: jobId, duplicatePolicy });
+        const writeMs = Date.now() - started;
+        result.processed += batchResult.processed;
+        result.inserted += batchResult.inserted;
+        result.updated += batchResult.updated;
+        result.errors += batchResult.errors;
+        countError(result.errorsByReason, 'WRITE_FAILED', batchResult.errors);
+        result.duplicates += batchResult.duplicates;
+        batch = [];
+
+        // Everything up to the current line is committed: report it as a checkpoint
+        postMessage({
+            type: 'progress',
+            progress: {
+                chunkId: chunk.chunkId,
+                byteOffset: lineEndByte,
+                line: lineIndex + 1,
+                processed: result.processed,
+                inserted: result.inserted,
+                updated: result.updated,
+                errors: result.errors,
+                errorsByReason: { ...result.errorsByReason },
+                duplicates: result.duplicates,
+                writeMs
+            }
+        });
+    };
+
+    try {
+        await pool.connect();
+
+        // Read only our byte range
+        for await (const { text: line, endByte } of readLines(filePath, chunk.startByte, chunk.endByte)) {
+            if (stopRequested) {
+                result.stopped = true;
+                break;
+            }
+            lineIndex++;
+            lineEndByte = endByte;
+
+            try {
+                const parsed = parser.parse(line);
+                if (parsed.valid) {
+                    batch.push({ ...parsed.customer, sourceLine: lineIndex + 1 });
+                } else {
+                    result.errors++;
+                    countError(result.errorsByReason, parsed.reason);
+                    rejected.push({
+                        lineNumber: lineIndex + 1,
+                        rawLine: line,
+                        reason: parsed.reason,
+                        field: parsed.field,
+                        detail: parsed.message
+                    });
+                }
+            } catch (error) {
+                result.errors++;
+                countError(result.errorsByReason, 'PROCESSING_ERROR');
+                console.error(`Error processing line ${lineIndex + 1}:`, error);
+            }
+
+            if (batch.length >= batchSize || rejected.length >= batchSize) {
+                await flushBatch();
+            }
+        }
+
+        // Also on stop: commit what was read so the checkpoint covers it
+        if (batch.length > 0 || rejected.length > 0) {
+            await flushBatch();
+        }
+    } catch (error) {
+        if (error instanceof DuplicateCustomerError) {
+            throw error; // Duplicate policy 'fail': the whole import fails
+        }
+        // Batches already committed keep their counts; everything else in the chunk is an error
+        console.error(`Worker error for chunk ${chunk.chunkId}:`, error);
+        const unaccounted = (chunk.endLine - chunk.startLine) - result.processed - result.duplicates - result.errors;
+        result.errors += unaccounted;
+        countError(result.errorsByReason, 'WRITE_FAILED', unaccounted);
+    } finally {
+        await pool.close();
+    }
+
+    return result;
+}
+
+function postMessage(message: WorkerMessage): void {
+    parentPort?.postMessage(message);
+}
+
+processChunk()
+    .then(result => postMessage({ type: 'result', result }))
+    .catch(error => {
+        if (error instanceof DuplicateCustomerError) {
+            postMessage({ type: 'failed', error: error.message });
+            return;
+        }
+        console.error('Worker thread error:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,52 @@
+import { HealthService } from './healthService';
+
+const workload = { activeImports: 0, activeWorkers: 0, queuedChunks: 0 };
+
+describe('HealthService readiness', () => {
+  let dataSource: any;
+  let customerService: any;
+  let service: HealthService;
+
+  beforeEach(() => {
+    dataSource = { isInitialized: true, query: jest.fn().mockResolvedValue([{ '': 1 }]) };
+    customerService = { getWorkload: jest.fn().mockReturnValue(workload) };
+    const databaseService: any = { getDataSource: () => dataSource };
+    service = new HealthService(databaseService, customerService);
+  });
+
+  it('should be ready when the database answers and an import can start', async () => {
+    const readiness = await service.checkReadiness();
+
+    expect(readiness.ready).toBe(true);
+    expect(dataSource.query).toHaveBeenCalledWith('SELECT 1');
+    expect(readiness.checks.database.status).toBe('pass');
+    expect(readiness.checks.disk).toEqual(expect.objectContaining({ status: 'pass', freeBytes: expect.any(Number) }));
+    expect(readiness.checks.imports).toEqual({ available: true, capacity: 2, ...workload });
+  });
+
+  it('should not be ready before the database is initialized', async () => {
+    dataSource.isInitialized = false;
+    const readiness = await service.checkReadiness();
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.checks.database).toEqual(expect.objectContaining({ status: 'fail', error: 'Database connection not initialized' }));
+    expect(dataSource.query).not.toHaveBeenCalled();
+  });
+
+  it('should not be ready when the database query fails', async () => {
+    dataSource.query.mockRejectedValue(new Error('Connection lost'));
+    const readiness = await service.checkReadiness();
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.checks.database).toEqual(expect.objectContaining({ status: 'fail', error: 'Connection lost' }));
+  });
+
+  it('should stay ready while running as many imports as it takes, and report it', async () => {
+    customerService.getWorkload.mockReturnValue({ activeImports: 2, activeWorkers: 4, queuedChunks: 30 });
+    const readiness = await service.checkReadiness();
+
+    expect(readiness.ready).toBe(true);
+    expect(readiness.checks.imports).toEqual({ available: false, capacity: 2, activeImports: 2, activeWorkers: 4, queuedChunks: 30 });
+    expect(service.getImportCapacity()).toEqual(readiness.checks.imports);
+  });
+});
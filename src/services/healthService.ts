@@ -0,0 +1,105 @@
+import { DatabaseHealth, DiskHealth, ICustomerService, IDatabaseService, IHealthService, ImportCapacityHealth, Readiness } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { inject, injectable } from "inversify";
+import * as fs from 'fs';
+import * as path from 'path';
+
+// How long a client turned away for lack of import capacity should wait before trying again
+export const IMPORT_RETRY_AFTER_SECONDS = 60;
+
+// Body of the 503 a busy replica answers to a request for a new import
+export const importCapacityReached = (capacity: ImportCapacityHealth) => ({
+    error: 'Import capacity reached',
+    message: `This replica already runs ${capacity.activeImports} of ${capacity.capacity} imports, try again later`
+});
+
+/**
+ * Readiness for /health/ready: whether this replica should get traffic now.
+ * A failed check takes the pod out of the Service until it passes again, it
+ * never restarts it (that is /health/live's job). Import capacity is only
+ * reported: stopping, pausing and following an import only work on the
+ * replica running it, so a busy replica must stay in the Service.
+ */
+@injectable()
+export class HealthService implements IHealthService {
+    private readonly uploadsDir = path.join(process.cwd(), 'uploads');
+    private readonly DB_TIMEOUT_MS = parseInt(process.env.HEALTH_DB_TIMEOUT_MS || '2000');
+    private readonly MIN_FREE_DISK_BYTES = parseInt(process.env.HEALTH_MIN_FREE_DISK_MB || '100') * 1024 * 1024;
+    // Imports a replica runs at once; a busy one answers 503 to requests for a new import
+    private readonly IMPORT_CAPACITY = parseInt(process.env.IMPORT_CAPACITY || '2');
+
+    constructor(
+        @inject(TYPES.DatabaseService) private databaseService: IDatabaseService,
+        @inject(TYPES.CustomerService) private customerService: ICustomerService
+    ) {}
+
+    async checkReadiness(): Promise<Readiness> {
+        const [database, disk] = await Promise.all([this.checkDatabase(), this.checkDisk()]);
+        return {
+            ready: [database, disk].every(check => check.status === 'pass'),
+            checks: { database, disk, imports: this.getImportCapacity() }
+        };
+    }
+
+    getImportCapacity(): ImportCapacityHealth {
+        const workload = this.customerService.getWorkload();
+        return {
+            available: workload.activeImports < this.IMPORT_CAPACITY,
+            capacity: this.IMPORT_CAPACITY,
+            ...workload
+        };
+    }
+
+    private async checkDatabase(): Promise<DatabaseHealth> {
+        const started = Date.now();
+        const dataSource = this.databaseService.getDataSource();
+        if (!dataSource.isInitialized) {
+            return { status: 'fail', responseTimeMs: 0, error: 'Database connection not initialized' };
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            // A pool waiting on a dead server would otherwise hang the probe past Kubernetes' own timeout
+            await Promise.race([
+                dataSource.query('SELECT 1'),
+                new Promise((_, reject) => {
+                    timer = setTimeout(() => reject(new Error(`No answer within ${this.DB_TIMEOUT_MS}ms`)), this.DB_TIMEOUT_MS);
+                })
+            ]);
+            return { status: 'pass', responseTimeMs: Date.now() - started };
+        } catch (error) {
+            return {
+                status: 'fail',
+                responseTimeMs: Date.now() - started,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    // Uploads are written to disk before they are imported; the directory is created by the first one
+    private async checkDisk(): Promise<DiskHealth> {
+        const checkedPath = fs.existsSync(this.uploadsDir) ? this.uploadsDir : process.cwd();
+        try {
+            const stats = await fs.promises.statfs(checkedPath);
+            const freeBytes = stats.bavail * stats.bsize;
+            return {
+                status: freeBytes >= this.MIN_FREE_DISK_BYTES ? 'pass' : 'fail',
+                path: checkedPath,
+                freeBytes,
+                totalBytes: stats.blocks * stats.bsize,
+                minFreeBytes: this.MIN_FREE_DISK_BYTES
+            };
+        } catch (error) {
+            return {
+                status: 'fail',
+                path: checkedPath,
+                freeBytes: 0,
+                totalBytes: 0,
+                minFreeBytes: this.MIN_FREE_DISK_BYTES,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { ImportEventBus } from './importEventBus';
+import { ImportEvent } from '../interfaces/services';
+
+const progress = (jobId: string, processed: number): ImportEvent => ({
+  type: 'progress',
+  jobId,
+  progress: { processed, inserted: processed, updated: 0, errors: 0, errorsByReason: {}, duplicates: 0, totalLines: 1000, progress: processed / 10 }
+});
+
+describe('ImportEventBus', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should only deliver events of the subscribed job', () => {
+    const bus = new ImportEventBus();
+    const events: ImportEvent[] = [];
+    const unsubscribe = bus.subscribe('job-1', event => events.push(event));
+
+    bus.publish({ type: 'status', jobId: 'job-2', status: 'running' });
+    bus.publish({ type: 'status', jobId: 'job-1', status: 'running' });
+    unsubscribe();
+    bus.publish({ type: 'status', jobId: 'job-1', status: 'paused' });
+
+    expect(events).toEqual([{ type: 'status', jobId: 'job-1', status: 'running' }]);
+  });
+
+  it('should coalesce progress to the latest event per interval', () => {
+    const bus = new ImportEventBus();
+    const processed: number[] = [];
+    bus.subscribe('job-1', event => event.type === 'progress' && processed.push(event.progress.processed));
+
+    bus.publish(progress('job-1', 100));
+    bus.publish(progress('job-1', 200));
+    bus.publish(progress('job-1', 300));
+    expect(processed).toEqual([100]);
+
+    jest.advanceTimersByTime(500);
+    expect(processed).toEqual([100, 300]);
+  });
+
+  it('should flush pending progress before the summary', () => {
+    const bus = new ImportEventBus();
+    const types: string[] = [];
+    bus.subscribe('job-1', event => types.push(event.type));
+
+    bus.publish(progress('job-1', 100));
+    bus.publish(progress('job-1', 200));
+    bus.publish({
+      type: 'summary',
+      jobId: 'job-1',
+      summary: {
+        status: 'completed', format: 'pipe', dryRun: false, processed: 200, inserted: 200, updated: 0, errors: 0, errorsByReason: {},
+        duplicates: 0, totalLines: 200, errorMessage: null, startedAt: new Date(), finishedAt: new Date()
+      }
+    });
+
+    expect(types).toEqual(['progress', 'progress', 'summary']);
+  });
+});
@@ -0,0 +1,83 @@
+import { EventEmitter } from 'events';
+import { injectable } from 'inversify';
+import { ImportJob } from "../entities/ImportJob";
+import { IImportEventBus, ImportEvent, ImportSummary } from "../interfaces/services";
+
+/**
+ * In-process fan-out of import events to stream subscribers.
+ *
+ * Progress is published after every committed batch, which can be hundreds
+ * of times a second with four workers, so it is coalesced per job: at most
+ * one progress event every PROGRESS_INTERVAL_MS, always the latest one.
+ * A pending progress event is flushed before any other event of the job, so
+ * subscribers never see totals go backwards.
+ */
+@injectable()
+export class ImportEventBus implements IImportEventBus {
+    private readonly PROGRESS_INTERVAL_MS = 500;
+    private emitter = new EventEmitter();
+    private pendingProgress: Map<string, ImportEvent> = new Map();
+    private progressTimers: Map<string, NodeJS.Timeout> = new Map();
+
+    constructor() {
+        // One listener per open stream
+        this.emitter.setMaxListeners(0);
+    }
+
+    publish(event: ImportEvent): void {
+        if (event.type === 'progress') {
+            this.publishProgress(event);
+            return;
+        }
+
+        this.flushProgress(event.jobId);
+        this.emitter.emit(event.jobId, event);
+    }
+
+    subscribe(jobId: string, listener: (event: ImportEvent) => void): () => void {
+        this.emitter.on(jobId, listener);
+        return () => {
+            this.emitter.off(jobId, listener);
+        };
+    }
+
+    private publishProgress(event: ImportEvent): void {
+        const { jobId } = event;
+        if (this.progressTimers.has(jobId)) {
+            this.pendingProgress.set(jobId, event); // Sent when the interval is over
+            return;
+        }
+
+        this.emitter.emit(jobId, event);
+        this.progressTimers.set(jobId, setTimeout(() => this.flushProgress(jobId), this.PROGRESS_INTERVAL_MS).unref());
+    }
+
+    private flushProgress(jobId: string): void {
+        clearTimeout(this.progressTimers.get(jobId));
+        this.progressTimers.delete(jobId);
+
+        const pending = this.pendingProgress.get(jobId);
+        if (pending) {
+            this.pendingProgress.delete(jobId);
+            this.emitter.emit(jobId, pending);
+        }
+    }
+}
+
+export function toImportSummary(job: ImportJob): ImportSummary {
+    return {
+        status: job.status,
+        format: job.format,
+        dryRun: job.dryRun,
+        processed: job.processed,
+        inserted: job.inserted,
+        updated: job.updated,
+        errors: job.errors,
+        errorsByReason: job.errorsByReason,
+        duplicates: job.duplicates,
+        totalLines: job.totalLines,
+        errorMessage: job.errorMessage,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt
+    };
+}
@@ -0,0 +1,308 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ImportJobNotFoundError, ImportJobService, ImportJobStateError } from './importJobService';
+import { ImportCancelledError } from './customerService';
+import { ImportOptions } from '../interfaces/services';
+import { FileLine } from './lineReader';
+
+// In-memory stand-in for the import_jobs repository
+const jobs = new Map<string, any>();
+// Plain values and the find operators the service uses
+const matches = (job: any, where: any) => Object.entries(where).every(([key, value]: [string, any]) => {
+  switch (value?.type) {
+    case 'in': return value.value.includes(job[key]);
+    case 'isNull': return job[key] == null;
+    case 'lessThan': return job[key] < value.value;
+    default: return job[key] === value;
+  }
+});
+const importJobRepository = {
+  create: (values: any) => ({ ...values }),
+  save: jest.fn(async (job: any) => {
+    job.id = job.id ?? `job-${jobs.size + 1}`;
+    jobs.set(job.id, job);
+    return job;
+  }),
+  // Criteria is an id, conditions, or a list of conditions any of which may match
+  update: jest.fn(async (criteria: any, values: any) => {
+    const conditions = typeof criteria === 'string' ? [{ id: criteria }] : [criteria].flat();
+    let affected = 0;
+    for (const job of jobs.values()) {
+      if (conditions.some(where => matches(job, where))) {
+        Object.assign(job, values);
+        affected++;
+      }
+    }
+    return { affected };
+  }),
+  findOne: async ({ where }: any) => jobs.get(where.id) ?? null,
+  findOneOrFail: async ({ where }: any) => jobs.get(where.id)
+};
+
+// An import that runs until it is cancelled, committing one batch first
+let cancelRunning: () => void = () => undefined;
+let paused = false;
+const customerService: any = {
+  processCustomersFile: jest.fn((_filePath: string, options: ImportOptions) => new Promise((_resolve, reject) => {
+    options.onCheckpoint?.({
+      mode: 'sequential', byteOffset: 100, line: 2,
+      processed: 2, inserted: 2, updated: 0, errors: 0, errorsByReason: {}, duplicates: 0
+    });
+    cancelRunning = () => reject(new ImportCancelledError(options.jobId as string));
+  })),
+  cancelProcessing: jest.fn(() => {
+    cancelRunning();
+    return true;
+  }),
+  pauseProcessing: jest.fn(() => !paused && (paused = true)),
+  resumeProcessing: jest.fn(() => paused && !(paused = false)),
+  // Counts the lines it is given, like an import where every line is new
+  processCustomersStream: jest.fn(async (lines: AsyncIterable<FileLine>, options: ImportOptions) => {
+    let totalLines = 0;
+    for await (const _line of lines) {
+      totalLines++;
+    }
+    return {
+      processed: totalLines, inserted: totalLines, updated: 0, errors: 0, errorsByReason: {},
+      duplicates: 0, totalLines, filePath: '', format: options.format ?? 'pipe'
+    };
+  }),
+  getProcessingStats: jest.fn(),
+  getWorkload: jest.fn(),
+  getCustomers: jest.fn(),
+  getCustomerByEmail: jest.fn()
+};
+
+const importEvents = {
+  publish: jest.fn(),
+  subscribe: jest.fn()
+};
+
+const webhookService: any = {
+  notifyImportFinished: jest.fn().mockResolvedValue(undefined)
+};
+
+// Queries run straight on the pool (clearing a dry run's staged ids)
+const poolQuery = jest.fn().mockResolvedValue({ rowsAffected: [0] });
+const poolRequest: any = { input: jest.fn(() => poolRequest), query: poolQuery };
+
+const databaseService: any = {
+  getRepository: () => importJobRepository,
+  getConnectionPool: () => ({ request: () => poolRequest })
+};
+
+describe('ImportJobService cancellation and pausing', () => {
+  let service: ImportJobService;
+
+  beforeEach(() => {
+    jobs.clear();
+    paused = false;
+    importEvents.publish.mockClear();
+    service = new ImportJobService(databaseService, customerService, importEvents, webhookService);
+  });
+
+  it('should cancel a running import and keep its committed counts', async () => {
+    const job = await service.startImport('/app/clients/customers.dat');
+    await new Promise(resolve => setImmediate(resolve)); // Let the import start
+
+    const cancelled = await service.cancelImport(job.id);
+
+    expect(customerService.cancelProcessing).toHaveBeenCalledWith(job.id);
+    expect(cancelled).toEqual(expect.objectContaining({ status: 'cancelled', processed: 2, inserted: 2, errorMessage: null }));
+    expect(cancelled.finishedAt).toBeInstanceOf(Date);
+    expect(importEvents.publish).toHaveBeenLastCalledWith({
+      type: 'summary',
+      jobId: job.id,
+      summary: expect.objectContaining({ status: 'cancelled', processed: 2 })
+    });
+    expect(webhookService.notifyImportFinished).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, status: 'cancelled' }));
+    await expect(service.cancelRunningImports()).resolves.toEqual([]);
+  });
+
+  it('should clear a finished dry run and notify no webhook', async () => {
+    webhookService.notifyImportFinished.mockClear();
+    const job = await service.startImport('/app/clients/customers.dat', { dryRun: true });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(customerService.processCustomersFile).toHaveBeenLastCalledWith('/app/clients/customers.dat', expect.objectContaining({ dryRun: true }));
+
+    await expect(service.cancelImport(job.id)).resolves.toEqual(expect.objectContaining({ dryRun: true, status: 'cancelled' }));
+    expect(poolQuery).toHaveBeenCalledWith('DELETE FROM dry_run_customer_ids WHERE importJobId = @importJobId');
+    expect(webhookService.notifyImportFinished).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to cancel an import that is not running', async () => {
+    jobs.set('done', { id: 'done', status: 'completed' });
+
+    await expect(service.cancelImport('done')).rejects.toBeInstanceOf(ImportJobStateError);
+    await expect(service.cancelImport('missing')).rejects.toBeInstanceOf(ImportJobNotFoundError);
+  });
+
+  it('should pause and resume a running import', async () => {
+    const job = await service.startImport('/app/clients/customers.dat');
+    await new Promise(resolve => setImmediate(resolve));
+
+    await expect(service.pauseImport(job.id)).resolves.toHaveProperty('status', 'paused');
+    expect(importEvents.publish).toHaveBeenLastCalledWith({ type: 'status', jobId: job.id, status: 'paused' });
+    await expect(service.pauseImport(job.id)).rejects.toThrow(`Import job ${job.id} is already paused`);
+    await expect(service.pauseRunningImports()).resolves.toEqual([]);
+
+    await expect(service.resumePausedImport(job.id)).resolves.toHaveProperty('status', 'running');
+    await expect(service.resumePausedImport(job.id)).rejects.toBeInstanceOf(ImportJobStateError);
+
+    // A paused import can still be cancelled
+    await service.pauseImport(job.id);
+    await expect(service.cancelImport(job.id)).resolves.toHaveProperty('status', 'cancelled');
+  });
+});
+
+describe('ImportJobService streamed imports', () => {
+  let service: ImportJobService;
+  let dir: string;
+
+  async function* upload(...chunks: string[]) {
+    for (const chunk of chunks) {
+      yield Buffer.from(chunk);
+    }
+  }
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamed-import-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jobs.clear();
+    service = new ImportJobService(databaseService, customerService, importEvents, webhookService);
+  });
+
+  it('should import an upload as it arrives and return the finished job', async () => {
+    const job = await service.importStream(upload('{"customerId":"001001"}\n{"custo', 'merId":"001002"}\n'), {
+      fileName: 'clients.jsonl'
+    });
+
+    expect(job).toEqual(expect.objectContaining({ status: 'completed', filePath: '', totalLines: 2, inserted: 2 }));
+    // The upload's extension picks the format when none is given
+    expect(customerService.processCustomersStream).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ jobId: job.id, format: 'ndjson' }));
+  });
+
+  it('should save the raw upload for audit and resume from that file', async () => {
+    const auditPath = path.join(dir, 'clients.dat');
+    const job = await service.importStream(upload('001001|Ana\n', '001002|Luis\n'), { fileName: 'clients.dat', auditPath });
+
+    expect(job).toEqual(expect.objectContaining({ status: 'completed', filePath: auditPath, totalLines: 2 }));
+    expect(fs.readFileSync(auditPath, 'utf8')).toBe('001001|Ana\n001002|Luis\n');
+
+    job.status = 'failed';
+    await service.resumeImport(job.id);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(customerService.processCustomersFile).toHaveBeenLastCalledWith(auditPath, expect.objectContaining({ jobId: job.id }));
+    await service.cancelImport(job.id);
+  });
+
+  it('should keep saving the upload after the import fails partway', async () => {
+    customerService.processCustomersStream.mockImplementationOnce(async (lines: AsyncIterable<FileLine>) => {
+      for await (const _line of lines) {
+        throw new Error('Database unavailable');
+      }
+    });
+    const auditPath = path.join(dir, 'failed.dat');
+    const job = await service.importStream(upload('001001|Ana\n', '001002|Luis\n', '001003|Eva\n'), { fileName: 'failed.dat', auditPath });
+
+    expect(job).toEqual(expect.objectContaining({ status: 'failed', uploadComplete: true }));
+    expect(fs.readFileSync(auditPath, 'utf8')).toBe('001001|Ana\n001002|Luis\n001003|Eva\n');
+    await service.resumeImport(job.id);
+    await new Promise(resolve => setImmediate(resolve));
+    await service.cancelImport(job.id);
+  });
+
+  it('should refuse to resume from the copy of an upload that was cut short', async () => {
+    async function* cutShort() {
+      yield Buffer.from('001001|Ana\n');
+      throw new Error('Upload cut at the limit');
+    }
+    const auditPath = path.join(dir, 'cut.dat');
+    const job = await service.importStream(cutShort(), { fileName: 'cut.dat', auditPath });
+
+    expect(job).toEqual(expect.objectContaining({ status: 'failed', uploadComplete: false }));
+    expect(fs.readFileSync(auditPath, 'utf8')).toBe('001001|Ana\n');
+    await expect(service.resumeImport(job.id)).rejects.toThrow('was not fully received');
+  });
+
+  it('should resume an import once when it is resumed twice at the same time', async () => {
+    jobs.set('interrupted', { id: 'interrupted', status: 'interrupted', filePath: '/app/clients/customers.dat' });
+    customerService.processCustomersFile.mockClear();
+
+    const [first, second] = await Promise.allSettled([service.resumeImport('interrupted'), service.resumeImport('interrupted')]);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(first).toEqual({ status: 'fulfilled', value: expect.objectContaining({ id: 'interrupted' }) });
+    expect(second).toEqual({ status: 'rejected', reason: expect.any(ImportJobStateError) });
+    expect(customerService.processCustomersFile).toHaveBeenCalledTimes(1);
+    await service.cancelImport('interrupted');
+  });
+
+  it('should refuse to resume a streamed import that kept no copy', async () => {
+    jobs.set('streamed', { id: 'streamed', status: 'failed', filePath: '' });
+
+    await expect(service.resumeImport('streamed')).rejects.toThrow('was streamed without an audit copy');
+  });
+});
+
+describe('ImportJobService recovery across replicas', () => {
+  const instanceId = process.env.INSTANCE_ID || os.hostname();
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+  let service: ImportJobService;
+
+  beforeEach(() => {
+    jobs.clear();
+    service = new ImportJobService(databaseService, customerService, importEvents, webhookService);
+  });
+
+  afterEach(() => {
+    service.stopHeartbeat();
+  });
+
+  it('should only interrupt the jobs of this replica and of replicas whose heartbeat stopped', async () => {
+    jobs.set('own', { id: 'own', status: 'running', instanceId, heartbeatAt: new Date() });
+    jobs.set('live', { id: 'live', status: 'running', instanceId: 'pod-b', heartbeatAt: new Date() });
+    jobs.set('paused', { id: 'paused', status: 'paused', instanceId: 'pod-b', heartbeatAt: minutesAgo(0.5) });
+    jobs.set('dead', { id: 'dead', status: 'running', instanceId: 'pod-c', heartbeatAt: minutesAgo(5) });
+    jobs.set('legacy', { id: 'legacy', status: 'queued', instanceId: null, heartbeatAt: null });
+    jobs.set('done', { id: 'done', status: 'completed', instanceId: 'pod-c', heartbeatAt: minutesAgo(5) });
+
+    await expect(service.recoverInterruptedJobs()).resolves.toBe(3);
+
+    expect([...jobs.values()].map(job => [job.id, job.status])).toEqual([
+      ['own', 'interrupted'],
+      ['live', 'running'],
+      ['paused', 'paused'],
+      ['dead', 'interrupted'],
+      ['legacy', 'interrupted'],
+      ['done', 'completed']
+    ]);
+  });
+
+  it('should record the owner of a job and keep its heartbeat fresh while it runs', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    const job = await service.startImport('/app/clients/customers.dat');
+    try {
+      expect(job).toEqual(expect.objectContaining({ instanceId, heartbeatAt: expect.any(Date) }));
+      jobs.set('dead', { id: 'dead', status: 'running', instanceId: 'pod-c', heartbeatAt: minutesAgo(5) });
+      job.heartbeatAt = minutesAgo(1);
+
+      service.startHeartbeat();
+      await jest.advanceTimersByTimeAsync(15000);
+
+      expect(job.heartbeatAt.getTime()).toBeGreaterThan(minutesAgo(0.1).getTime());
+      expect(jobs.get('dead').status).toBe('interrupted');
+      expect(job.status).toBe('running');
+    } finally {
+      jest.useRealTimers();
+    }
+    await service.cancelImport(job.id);
+  });
+});
@@ -0,0 +1,609 @@
+import { ImportJob } from "../entities/ImportJob";
+import { RejectedLine } from "../entities/RejectedLine";
+import {
+    DryRunReport,
+    ICustomerService,
+    IDatabaseService,
+    IImportEventBus,
+    IImportJobService,
+    ImportCheckpoint,
+    ImportOptions,
+    ImportResult,
+    IWebhookService,
+    StartImportOptions,
+    StreamImportOptions
+} from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { inject, injectable } from "inversify";
+import { In, IsNull, LessThan, MoreThan, Repository } from "typeorm";
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { ImportCancelledError } from "./customerService";
+import { clearDryRunCustomerIds } from "./customerBulkWriter";
+import { formatFromExtension } from "./customerParsers";
+import { splitLines } from "./lineReader";
+import { toImportSummary } from "./importEventBus";
+import { importMetrics } from "./metrics";
+
+export class ImportJobNotFoundError extends Error {
+    constructor(id: string) {
+        super(`Import job ${id} not found`);
+        this.name = 'ImportJobNotFoundError';
+    }
+}
+
+export class ImportJobStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportJobStateError';
+    }
+}
+
+interface CheckpointWriteState {
+    next: ImportCheckpoint | null;
+    flushing: Promise<void> | null;
+}
+
+// Owner recorded on the jobs this replica runs; the pod name under Kubernetes
+const INSTANCE_ID = process.env.INSTANCE_ID || os.hostname();
+
+// Job statuses that mean some replica is (or was, until it died) working on the job
+const UNFINISHED_STATUSES = ['queued', 'running', 'paused'] as const;
+
+// Runs the import of a job once its options are known (the file, or an upload stream)
+type ImportProcess = (options: ImportOptions) => Promise<ImportResult>;
+
+interface FileCopy {
+    chunks: AsyncGenerator<Buffer>;
+    // Whether filePath ends up with the whole upload, once it is closed
+    complete(): Promise<boolean>;
+}
+
+/**
+ * Pass the chunks through while writing them to filePath. The next chunk is
+ * only pulled once the file took the previous one, so a slow disk holds the
+ * upload back like a slow database does. When the import stops early the rest
+ * of the upload is still written, so the file can be resumed from; it only
+ * falls short when the upload itself (or the disk) failed.
+ */
+function copyToFile(chunks: AsyncIterable<Buffer>, filePath: string): FileCopy {
+    const source = chunks[Symbol.asyncIterator]();
+    const file = fs.createWriteStream(filePath);
+    const closed = finished(file);
+    closed.catch(() => undefined); // Surfaced by the writes below or by awaiting it
+    let complete: Promise<boolean> | null = null;
+
+    const write = async (chunk: Buffer) => {
+        if (file.errored) {
+            throw file.errored;
+        }
+        if (!file.write(chunk)) {
+            await once(file, 'drain');
+        }
+    };
+    // Keep what was received
+    const close = async () => {
+        if (!file.writableEnded) {
+            file.end();
+        }
+        await closed.catch(() => undefined);
+    };
+    const copyRest = async (): Promise<boolean> => {
+        try {
+            for (let next = await source.next(); !next.done; next = await source.next()) {
+                await write(next.value);
+            }
+            file.end();
+            await closed;
+            return true;
+        } catch {
+            await close();
+            return false;
+        }
+    };
+
+    async function* passThrough(): AsyncGenerator<Buffer> {
+        try {
+            for (let next = await source.next(); !next.done; next = await source.next()) {
+                await write(next.value);
+                yield next.value;
+            }
+            file.end();
+            await closed;
+            complete = Promise.resolve(true);
+        } catch (error) {
+            complete = close().then(() => false);
+            throw error;
+        } finally {
+            // Stopped early: copy the rest without holding up the end of the import
+            complete ??= copyRest();
+        }
+    }
+
+    return {
+        chunks: passThrough(),
+        // The import may fail before reading anything, and then the copy starts here
+        complete: () => complete ??= copyRest()
+    };
+}
+
+@injectable()
+export class ImportJobService implements IImportJobService {
+    private importJobRepository: Repository<ImportJob>;
+    private rejectedLineRepository: Repository<RejectedLine>;
+    // Checkpoint writes per job, so saves never overlap or go back in time
+    private checkpointWrites: Map<string, CheckpointWriteState> = new Map();
+    // Imports running in this process, settled once the job row has its final state
+    private runningImports: Map<string, Promise<void>> = new Map();
+    // Cancelled before CustomerService picked them up
+    private cancelRequested: Set<string> = new Set();
+    private readonly DRY_RUN_SAMPLE_SIZE = 20;
+    // Running jobs get a fresh heartbeatAt this often; a job that misses four is taken for dead
+    private readonly HEARTBEAT_MS = parseInt(process.env.IMPORT_HEARTBEAT_MS || '15000');
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        @inject(TYPES.DatabaseService) private databaseService: IDatabaseService,
+        @inject(TYPES.CustomerService) private customerService: ICustomerService,
+        @inject(TYPES.ImportEventBus) private importEvents: IImportEventBus,
+        @inject(TYPES.WebhookService) private webhookService: IWebhookService
+    ) {
+        this.importJobRepository = this.databaseService.getRepository(ImportJob);
+        this.rejectedLineRepository = this.databaseService.getRepository(RejectedLine);
+    }
+
+    /**
+     * Record a new import and start processing it in the background.
+     * Resolves as soon as the job is stored, not when the file is done.
+     */
+    async startImport(filePath: string, options: StartImportOptions = {}): Promise<ImportJob> {
+        const job = await this.importJobRepository.save(
+            this.importJobRepository.create({
+                fileName: path.basename(filePath),
+                filePath,
+                format: options.format ?? null,
+                duplicatePolicy: options.duplicatePolicy ?? 'skip',
+                dryRun: options.dryRun ?? false,
+                status: 'queued',
+                instanceId: INSTANCE_ID,
+                heartbeatAt: new Date()
+            })
+        );
+
+        this.launch(job);
+        return job;
+    }
+
+    /**
+     * Continue an interrupted or failed import from its last checkpoint
+     * (a paused one just carries on where it is).
+     */
+    async resumeImport(id: string): Promise<ImportJob> {
+        const job = await this.importJobRepository.findOne({ where: { id } });
+        if (!job) {
+            throw new ImportJobNotFoundError(id);
+        }
+        if (job.status === 'paused') {
+            return this.resumePausedImport(id);
+        }
+        if (job.status !== 'interrupted' && job.status !== 'failed') {
+            throw new ImportJobStateError(`Import job ${id} is ${job.status} and cannot be resumed`);
+        }
+        if (!job.filePath) {
+            throw new ImportJobStateError(`Import job ${id} was streamed without an audit copy, so there is nothing to resume from`);
+        }
+        if (job.uploadComplete === false) {
+            throw new ImportJobStateError(`Import job ${id} was streamed and its upload was not fully received, so its audit copy is incomplete`);
+        }
+
+        // Conditional, so concurrent requests or replicas can't both launch it
+        const claim = await this.importJobRepository.update(
+            { id, status: In(['interrupted', 'failed']) },
+            { status: 'queued', errorMessage: null, finishedAt: null, instanceId: INSTANCE_ID, heartbeatAt: new Date() }
+        );
+        if (claim.affected !== 1) {
+            throw new ImportJobStateError(`Import job ${id} is already being resumed`);
+        }
+
+        const resumed = await this.importJobRepository.findOneOrFail({ where: { id } });
+        this.launch(resumed);
+        return resumed;
+    }
+
+    /**
+     * Stop a running import and wait until it is marked cancelled, so the
+     * returned job carries the counts of everything it committed.
+     */
+    async cancelImport(id: string): Promise<ImportJob> {
+        await this.findRunningJob(id, 'cancelled');
+
+        if (!this.customerService.cancelProcessing(id)) {
+            this.cancelRequested.add(id);
+        }
+        await this.runningImports.get(id);
+
+        return await this.importJobRepository.findOneOrFail({ where: { id } });
+    }
+
+    async cancelRunningImports(): Promise<ImportJob[]> {
+        return Promise.all(Array.from(this.runningImports.keys()).map(id => this.cancelImport(id)));
+    }
+
+    /**
+     * Hold a running import until resumePausedImport, e.g. while SQL Server
+     * is busy. The process keeps the import; nothing is restarted.
+     */
+    async pauseImport(id: string): Promise<ImportJob> {
+        const job = await this.findRunningJob(id, 'paused');
+        if (job.status === 'paused') {
+            throw new ImportJobStateError(`Import job ${id} is already paused`);
+        }
+        if (!this.customerService.pauseProcessing(id)) {
+            throw new ImportJobStateError(`Import job ${id} is ${job.status} and cannot be paused yet`);
+        }
+
+        // Conditional, so a job that finished in the meantime keeps its final status
+        await this.importJobRepository.update({ id, status: 'running' }, { status: 'paused' });
+        this.importEvents.publish({ type: 'status', jobId: id, status: 'paused' });
+        return this.withLiveStats(await this.importJobRepository.findOneOrFail({ where: { id } }));
+    }
+
+    async resumePausedImport(id: string): Promise<ImportJob> {
+        const job = await this.findRunningJob(id, 'resumed');
+        if (!this.customerService.resumeProcessing(id)) {
+            throw new ImportJobStateError(`Import job ${id} is ${job.status}, not paused`);
+        }
+
+        await this.importJobRepository.update({ id, status: 'paused' }, { status: 'running' });
+        this.importEvents.publish({ type: 'status', jobId: id, status: 'running' });
+        return this.withLiveStats(await this.importJobRepository.findOneOrFail({ where: { id } }));
+    }
+
+    async pauseRunningImports(): Promise<ImportJob[]> {
+        return this.forEachRunningImport(id => this.pauseImport(id));
+    }
+
+    async resumePausedImports(): Promise<ImportJob[]> {
+        return this.forEachRunningImport(id => this.resumePausedImport(id));
+    }
+
+    // Apply an action to every import running here, skipping those it doesn't apply to
+    private async forEachRunningImport(action: (id: string) => Promise<ImportJob>): Promise<ImportJob[]> {
+        const jobs: ImportJob[] = [];
+        for (const id of Array.from(this.runningImports.keys())) {
+            try {
+                jobs.push(await action(id));
+            } catch (error) {
+                if (!(error instanceof ImportJobStateError)) {
+                    throw error;
+                }
+            }
+        }
+        return jobs;
+    }
+
+    // The job row of an import running in this process
+    private async findRunningJob(id: string, action: string): Promise<ImportJob> {
+        const job = await this.importJobRepository.findOne({ where: { id } });
+        if (!job) {
+            throw new ImportJobNotFoundError(id);
+        }
+        if (!this.runningImports.has(id)) {
+            throw new ImportJobStateError(`Import job ${id} is ${job.status} and cannot be ${action}`);
+        }
+        return job;
+    }
+
+    /**
+     * Mark the unfinished jobs nobody runs anymore as interrupted, so they can
+     * be resumed: this replica's own (it has only just started, so they died
+     * with its previous process) and those whose heartbeat is stale. Jobs that
+     * other replicas are running keep their status.
+     */
+    async recoverInterruptedJobs(): Promise<number> {
+        const unfinished = In([...UNFINISHED_STATUSES]);
+        const result = await this.importJobRepository.update(
+            [
+                { status: unfinished, instanceId: INSTANCE_ID },
+                { status: unfinished, heartbeatAt: IsNull() },
+                { status: unfinished, heartbeatAt: LessThan(this.staleBefore()) }
+            ],
+            { status: 'interrupted' }
+        );
+        return result.affected ?? 0;
+    }
+
+    /**
+     * Refresh the heartbeat of the imports running here, and interrupt the
+     * jobs of replicas that stopped sending theirs (crashed or scaled down).
+     */
+    startHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            return;
+        }
+        const beat = () => {
+            this.beat()
+                .catch(error => console.error('Error refreshing import heartbeats:', error))
+                .finally(() => {
+                    if (this.heartbeatTimer) {
+                        this.heartbeatTimer = setTimeout(beat, this.HEARTBEAT_MS).unref();
+                    }
+                });
+        };
+        this.heartbeatTimer = setTimeout(beat, this.HEARTBEAT_MS).unref();
+    }
+
+    stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    /**
+     * Import an upload while it is being received, optionally saving the raw
+     * bytes to auditPath on the way (a failed import can then be resumed from
+     * that file). Resolves with the finished job once the stream is imported,
+     * failed or cancelled, and the audit copy has the rest of the upload.
+     */
+    async importStream(source: AsyncIterable<Buffer>, options: StreamImportOptions): Promise<ImportJob> {
+        const { fileName, auditPath = null } = options;
+        const job = await this.importJobRepository.save(
+            this.importJobRepository.create({
+                fileName,
+                // Empty when nothing is kept on disk
+                filePath: auditPath ?? '',
+                format: options.format ?? null,
+                duplicatePolicy: options.duplicatePolicy ?? 'skip',
+                dryRun: options.dryRun ?? false,
+                uploadComplete: auditPath ? false : null,
+                status: 'queued',
+                instanceId: INSTANCE_ID,
+                heartbeatAt: new Date()
+            })
+        );
+
+        const audit = auditPath ? copyToFile(source, auditPath) : null;
+        const lines = splitLines(audit ? audit.chunks : source);
+        this.launch(job, importOptions => this.customerService.processCustomersStream(lines, {
+            ...importOptions,
+            format: importOptions.format ?? formatFromExtension(fileName)
+        }));
+        await this.runningImports.get(job.id);
+
+        if (audit && await audit.complete()) {
+            await this.importJobRepository.update(job.id, { uploadComplete: true });
+            job.uploadComplete = true;
+        }
+        return job;
+    }
+
+    private async beat(): Promise<void> {
+        const running = [...this.runningImports.keys()];
+        if (running.length > 0) {
+            await this.importJobRepository.update({ id: In(running) }, { heartbeatAt: new Date() });
+        }
+
+        const unfinished = In([...UNFINISHED_STATUSES]);
+        const result = await this.importJobRepository.update(
+            [
+                { status: unfinished, heartbeatAt: IsNull() },
+                { status: unfinished, heartbeatAt: LessThan(this.staleBefore()) }
+            ],
+            { status: 'interrupted' }
+        );
+        if (result.affected) {
+            console.log(`⏸️  ${result.affected} import(s) of a stopped replica marked interrupted, resume them with POST /imports/:id/resume`);
+        }
+    }
+
+    private staleBefore(): Date {
+        return new Date(Date.now() - 4 * this.HEARTBEAT_MS);
+    }
+
+    private launch(job: ImportJob, processImport?: ImportProcess): void {
+        const run = this.runImport(job, processImport).finally(() => {
+            this.runningImports.delete(job.id);
+            this.cancelRequested.delete(job.id);
+        });
+        this.runningImports.set(job.id, run);
+    }
+
+    private async runImport(job: ImportJob, processImport: ImportProcess = options => this.customerService.processCustomersFile(job.filePath, options)): Promise<void> {
+        try {
+            job.status = 'running';
+            job.startedAt = job.startedAt ?? new Date();
+            await this.importJobRepository.save(job);
+            this.importEvents.publish({ type: 'status', jobId: job.id, status: 'running' });
+
+            if (this.cancelRequested.has(job.id)) {
+                throw new ImportCancelledError(job.id);
+            }
+
+            importMetrics.start(job.id, job.dryRun, job.checkpoint);
+            const result = await processImport({
+                jobId: job.id,
+                format: job.format,
+                duplicatePolicy: job.duplicatePolicy,
+                dryRun: job.dryRun,
+                resumeFrom: job.checkpoint,
+                onCheckpoint: checkpoint => {
+                    job.checkpoint = checkpoint;
+                    this.saveCheckpoint(job.id, checkpoint);
+                    importMetrics.record(job.id, checkpoint);
+                }
+            });
+            await this.waitForCheckpoints(job.id);
+            importMetrics.record(job.id, result);
+
+            job.status = 'completed';
+            job.format = result.format;
+            job.processed = result.processed;
+            job.inserted = result.inserted;
+            job.updated = result.updated;
+            job.errors = result.errors;
+            job.errorsByReason = result.errorsByReason;
+            job.duplicates = result.duplicates;
+            job.totalLines = result.totalLines;
+            job.checkpoint = null;
+            job.checkpointAt = null;
+        } catch (error) {
+            const cancelled = error instanceof ImportCancelledError;
+            if (!cancelled) {
+                console.error(`❌ Import job ${job.id} failed:`, error);
+            }
+            await this.waitForCheckpoints(job.id);
+            // Keep the last checkpoint (and its committed counts) so the job can be resumed
+            if (job.checkpoint) {
+                job.processed = job.checkpoint.processed;
+                job.inserted = job.checkpoint.inserted;
+                job.updated = job.checkpoint.updated;
+                job.errors = job.checkpoint.errors;
+                job.errorsByReason = job.checkpoint.errorsByReason;
+                job.duplicates = job.checkpoint.duplicates;
+            }
+            job.status = cancelled ? 'cancelled' : 'failed';
+            job.errorMessage = cancelled ? null : error instanceof Error ? error.message : String(error);
+        }
+
+        job.finishedAt = new Date();
+        try {
+            await this.importJobRepository.save(job);
+        } catch (error) {
+            console.error(`Error saving import job ${job.id}:`, error);
+        }
+
+        importMetrics.finish(job.id, job.status);
+        this.importEvents.publish({ type: 'summary', jobId: job.id, summary: toImportSummary(job) });
+        if (job.dryRun) {
+            // A failed dry run keeps its staged ids so it can be resumed
+            if (job.status !== 'failed') {
+                await clearDryRunCustomerIds(this.databaseService.getConnectionPool(), job.id).catch(error => {
+                    console.error(`Error clearing the dry run ids of import job ${job.id}:`, error);
+                });
+            }
+            return; // Nothing was imported, so downstream systems are not notified
+        }
+        // Deliveries are retried on their own; never hold up or fail the import for them
+        this.webhookService.notifyImportFinished(job).catch(error => {
+            console.error(`Error notifying webhooks of import job ${job.id}:`, error);
+        });
+    }
+
+    // Persist the latest checkpoint; intermediate ones are skipped while a save is in flight
+    private saveCheckpoint(jobId: string, checkpoint: ImportCheckpoint): void {
+        const state = this.checkpointWrites.get(jobId) ?? { next: null, flushing: null };
+        state.next = checkpoint;
+        this.checkpointWrites.set(jobId, state);
+
+        if (!state.flushing) {
+            state.flushing = this.flushCheckpoints(jobId, state);
+        }
+    }
+
+    private async flushCheckpoints(jobId: string, state: CheckpointWriteState): Promise<void> {
+        while (state.next) {
+            const checkpoint = state.next;
+            state.next = null;
+            try {
+                await this.importJobRepository.update(jobId, {
+                    checkpoint,
+                    checkpointAt: new Date(),
+                    processed: checkpoint.processed,
+                    inserted: checkpoint.inserted,
+                    updated: checkpoint.updated,
+                    errors: checkpoint.errors,
+                    errorsByReason: checkpoint.errorsByReason,
+                    duplicates: checkpoint.duplicates
+                });
+            } catch (error) {
+                console.error(`Error saving checkpoint for import job ${jobId}:`, error);
+            }
+        }
+        state.flushing = null;
+        this.checkpointWrites.delete(jobId);
+    }
+
+    private async waitForCheckpoints(jobId: string): Promise<void> {
+        await this.checkpointWrites.get(jobId)?.flushing;
+    }
+
+    async getJob(id: string): Promise<ImportJob | null> {
+        const job = await this.importJobRepository.findOne({ where: { id } });
+        return job ? this.withLiveStats(job) : null;
+    }
+
+    async listJobs(limit: number = 50): Promise<ImportJob[]> {
+        const jobs = await this.importJobRepository.find({
+            order: { createdAt: 'DESC' },
+            take: limit
+        });
+        return jobs.map(job => this.withLiveStats(job));
+    }
+
+    /**
+     * Page through an import's rejected lines in file order (keyset on lineNumber).
+     */
+    async getRejectedLines(jobId: string, afterLine: number = 0, limit: number = 100): Promise<RejectedLine[]> {
+        return this.rejectedLineRepository.find({
+            where: { importJobId: jobId, lineNumber: MoreThan(afterLine) },
+            order: { lineNumber: 'ASC' },
+            take: limit
+        });
+    }
+
+    /**
+     * What a dry run found: the counts it would have written and the first
+     * rejected lines. The full list is on /imports/:id/rejected.
+     */
+    async getDryRunReport(job: ImportJob): Promise<DryRunReport> {
+        return {
+            wouldInsert: job.inserted,
+            wouldUpdate: job.updated,
+            wouldDuplicate: job.duplicates,
+            wouldReject: job.errors,
+            rejectionsByReason: job.errorsByReason ?? {},
+            rejectedSample: await this.getRejectedLines(job.id, 0, this.DRY_RUN_SAMPLE_SIZE)
+        };
+    }
+
+    /**
+     * All rejected lines of an import, fetched page by page so memory stays flat.
+     */
+    async *streamRejectedLines(jobId: string): AsyncIterable<RejectedLine> {
+        const pageSize = 1000;
+        let afterLine = 0;
+
+        while (true) {
+            const page = await this.getRejectedLines(jobId, afterLine, pageSize);
+            yield* page;
+
+            if (page.length < pageSize) {
+                return;
+            }
+            afterLine = page[page.length - 1].lineNumber;
+        }
+    }
+
+    // Counters are only persisted at checkpoints; overlay the in-memory ones meanwhile
+    private withLiveStats(job: ImportJob): ImportJob {
+        if (job.status !== 'running' && job.status !== 'paused') {
+            return job;
+        }
+
+        const stats = this.customerService.getProcessingStats(job.id);
+        if (stats) {
+            job.processed = stats.processed;
+            job.inserted = stats.inserted;
+            job.updated = stats.updated;
+            job.errors = stats.errors;
+            job.errorsByReason = stats.errorsByReason;
+            job.duplicates = stats.duplicates;
+            job.totalLines = stats.totalLines;
+        }
+        return job;
+    }
+}
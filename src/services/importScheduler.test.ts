@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FindOperator } from 'typeorm';
+import { ImportScheduler, InvalidScheduleError, NoMatchingFileError, ScheduleNotFoundError } from './importScheduler';
+
+// In-memory import_schedules table; dates compare by value like SQL Server's
+const memoryRepository = () => {
+  const rows: any[] = [];
+  const sameValue = (a: any, b: any) => (a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b);
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([key, value]) => {
+    if (value instanceof FindOperator) {
+      return value.type === 'lessThanOrEqual' && row[key] !== null && row[key] <= (value.value as any);
+    }
+    return sameValue(row[key], value);
+  });
+  return {
+    rows,
+    create: (values: any) => ({ ...values }),
+    save: async (row: any) => {
+      const saved = { ...row, id: `schedule-${rows.length + 1}`, createdAt: new Date(), lastRunAt: null, lastImportJobId: null, lastError: null };
+      rows.push(saved);
+      return { ...saved };
+    },
+    find: async ({ where }: any = {}) => rows.filter(row => matches(row, where)).map(row => ({ ...row })),
+    findOne: async ({ where }: any) => {
+      const row = rows.find(candidate => matches(candidate, where));
+      return row ? { ...row } : null;
+    },
+    update: async (criteria: any, values: any) => {
+      const updated = rows.filter(row => matches(row, typeof criteria === 'string' ? { id: criteria } : criteria));
+      updated.forEach(row => Object.assign(row, values));
+      return { affected: updated.length };
+    }
+  };
+};
+
+// Local time, like the schedules
+const at = (day: number, hour: number, minute: number = 0) => new Date(2026, 3, day, hour, minute);
+
+describe('ImportScheduler', () => {
+  let directory: string;
+  let repository: ReturnType<typeof memoryRepository>;
+  let importJobService: any;
+  let jobs: number;
+
+  const createScheduler = () => {
+    const databaseService: any = { getRepository: () => repository };
+    const scheduler = new ImportScheduler(databaseService, importJobService);
+    (scheduler as any).directory = directory;
+    return scheduler;
+  };
+
+  const drop = (fileName: string, modifiedAt: Date) => {
+    const filePath = path.join(directory, fileName);
+    fs.writeFileSync(filePath, '001001|Ana|ana@example.com\n');
+    fs.utimesSync(filePath, modifiedAt, modifiedAt);
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'schedules-'));
+    repository = memoryRepository();
+    jobs = 0;
+    importJobService = {
+      startImport: jest.fn().mockImplementation(async (filePath: string) => ({ id: `job-${++jobs}`, filePath, status: 'queued' }))
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should import the newest matching file when a schedule is due', async () => {
+    const scheduler = createScheduler();
+    drop('CLIENTES_IN_0424.dat', at(24, 1));
+    drop('CLIENTES_IN_0425.dat', at(25, 1));
+    drop('CLIENTES_OUT_0426.dat', at(26, 1));
+    const schedule = await scheduler.createSchedule({ name: 'Daily', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat', duplicatePolicy: 'upsert' });
+    repository.rows[0].nextRunAt = at(25, 2);
+
+    expect(await scheduler.runDueSchedules(at(25, 1, 59))).toEqual([]);
+    const [job] = await scheduler.runDueSchedules(at(25, 2));
+
+    expect(importJobService.startImport).toHaveBeenCalledWith(path.join(directory, 'CLIENTES_IN_0425.dat'), { format: null, duplicatePolicy: 'upsert' });
+    expect(repository.rows[0]).toEqual(expect.objectContaining({
+      id: schedule.id,
+      nextRunAt: at(26, 2),
+      lastRunAt: at(25, 2),
+      lastImportJobId: job.id,
+      lastError: null
+    }));
+  });
+
+  it('should fire each run only once across replicas', async () => {
+    const replicas = [createScheduler(), createScheduler(), createScheduler()];
+    drop('CLIENTES_IN_0425.dat', at(25, 1));
+    await replicas[0].createSchedule({ name: 'Daily', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat' });
+    repository.rows[0].nextRunAt = at(25, 2);
+
+    const started = await Promise.all(replicas.map(replica => replica.runDueSchedules(at(25, 2, 0))));
+    expect(started.flat()).toHaveLength(1);
+    expect(importJobService.startImport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run a missed schedule once, then go back to its ticks', async () => {
+    const scheduler = createScheduler();
+    drop('CLIENTES_IN_0425.dat', at(25, 1));
+    await scheduler.createSchedule({ name: 'Daily', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat' });
+    repository.rows[0].nextRunAt = at(22, 2);
+
+    expect(await scheduler.runDueSchedules(at(25, 9, 30))).toHaveLength(1);
+    expect(repository.rows[0].nextRunAt).toEqual(at(26, 2));
+  });
+
+  it('should record why a run started no import', async () => {
+    const scheduler = createScheduler();
+    await scheduler.createSchedule({ name: 'Daily', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat' });
+    repository.rows[0].nextRunAt = at(25, 2);
+
+    expect(await scheduler.runDueSchedules(at(25, 2))).toEqual([]);
+    expect(repository.rows[0]).toEqual(expect.objectContaining({
+      nextRunAt: at(26, 2),
+      lastRunAt: at(25, 2),
+      lastError: `No file matching CLIENTES_IN_*.dat in ${directory}`
+    }));
+  });
+
+  it('should not run disabled schedules until they are enabled again', async () => {
+    const scheduler = createScheduler();
+    drop('CLIENTES_IN_0425.dat', at(25, 1));
+    const schedule = await scheduler.createSchedule({ name: 'Daily', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat', enabled: false });
+    expect(schedule.nextRunAt).toBeNull();
+
+    expect(await scheduler.runDueSchedules(new Date(Date.now() + 2 * 24 * 3600 * 1000))).toEqual([]);
+
+    const enabled = await scheduler.setScheduleEnabled(schedule.id, true);
+    expect(enabled.enabled).toBe(true);
+    expect(enabled.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    expect((await scheduler.setScheduleEnabled(schedule.id, false)).nextRunAt).toBeNull();
+  });
+
+  it('should trigger a schedule now without moving its next run', async () => {
+    const scheduler = createScheduler();
+    drop('CLIENTES_IN_0425.dat', at(25, 1));
+    const schedule = await scheduler.createSchedule({ name: 'Daily', cron: '0 2 * * *', pattern: 'CLIENTES_IN_*.dat', enabled: false });
+
+    const job = await scheduler.triggerSchedule(schedule.id);
+    expect(job.filePath).toBe(path.join(directory, 'CLIENTES_IN_0425.dat'));
+    expect(repository.rows[0]).toEqual(expect.objectContaining({ nextRunAt: null, lastImportJobId: job.id }));
+
+    fs.rmSync(path.join(directory, 'CLIENTES_IN_0425.dat'));
+    await expect(scheduler.triggerSchedule(schedule.id)).rejects.toBeInstanceOf(NoMatchingFileError);
+    await expect(scheduler.triggerSchedule('missing')).rejects.toBeInstanceOf(ScheduleNotFoundError);
+  });
+
+  it.each([
+    ['0 25 * * *'],
+    ['0 0 30 2 *'],
+  ])('should reject the cron expression "%s"', async cron => {
+    await expect(createScheduler().createSchedule({ name: 'Broken', cron, pattern: 'CLIENTES_IN_*.dat' }))
+      .rejects.toBeInstanceOf(InvalidScheduleError);
+  });
+
+  it('should reject patterns with a path', async () => {
+    await expect(createScheduler().createSchedule({ name: 'Escape', cron: '@daily', pattern: '../secrets/*' }))
+      .rejects.toBeInstanceOf(InvalidScheduleError);
+  });
+});
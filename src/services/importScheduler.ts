@@ -0,0 +1,219 @@
+import { ImportJob } from "../entities/ImportJob";
+import { ImportSchedule } from "../entities/ImportSchedule";
+import { CreateScheduleOptions, IDatabaseService, IImportJobService, IImportScheduler } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { inject, injectable } from "inversify";
+import { LessThanOrEqual, Repository } from "typeorm";
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvalidCronExpressionError, nextCronRun, parseCronExpression } from "./cronExpression";
+import { globToRegExp } from "./inboxWatcher";
+
+export class ScheduleNotFoundError extends Error {
+    constructor(id: string) {
+        super(`Schedule ${id} not found`);
+        this.name = 'ScheduleNotFoundError';
+    }
+}
+
+export class InvalidScheduleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidScheduleError';
+    }
+}
+
+export class NoMatchingFileError extends Error {
+    constructor(pattern: string, directory: string) {
+        super(`No file matching ${pattern} in ${directory}`);
+        this.name = 'NoMatchingFileError';
+    }
+}
+
+/**
+ * Runs the recurring imports stored in import_schedules. Every replica polls
+ * for due schedules, and a run is claimed by moving the schedule's nextRunAt
+ * forward with a conditional UPDATE: SQL Server's row lock lets exactly one
+ * replica match the old value, and only that one starts the import.
+ */
+@injectable()
+export class ImportScheduler implements IImportScheduler {
+    private scheduleRepository: Repository<ImportSchedule>;
+    private readonly directory = path.join(process.cwd(), 'clients');
+    private readonly POLL_INTERVAL_MS = parseInt(process.env.SCHEDULER_POLL_MS || '30000');
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        @inject(TYPES.DatabaseService) private databaseService: IDatabaseService,
+        @inject(TYPES.ImportJobService) private importJobService: IImportJobService
+    ) {
+        this.scheduleRepository = this.databaseService.getRepository(ImportSchedule);
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        console.log(`⏰ Checking import schedules every ${this.POLL_INTERVAL_MS / 1000}s`);
+        const poll = () => {
+            this.runDueSchedules()
+                .catch(error => console.error('Error running import schedules:', error))
+                .finally(() => {
+                    if (this.timer) {
+                        this.timer = setTimeout(poll, this.POLL_INTERVAL_MS).unref();
+                    }
+                });
+        };
+        this.timer = setTimeout(poll, 0).unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async listSchedules(): Promise<ImportSchedule[]> {
+        return this.scheduleRepository.find({ order: { createdAt: 'DESC' } });
+    }
+
+    async createSchedule(options: CreateScheduleOptions): Promise<ImportSchedule> {
+        if (/[\\/]/.test(options.pattern)) {
+            throw new InvalidScheduleError(`The pattern matches file names in ${this.directory} and cannot contain a path: ${options.pattern}`);
+        }
+        const enabled = options.enabled ?? true;
+        const nextRunAt = this.nextRun(options.cron, new Date());
+
+        return this.scheduleRepository.save(
+            this.scheduleRepository.create({
+                name: options.name,
+                cron: options.cron,
+                pattern: options.pattern,
+                format: options.format ?? null,
+                duplicatePolicy: options.duplicatePolicy ?? 'skip',
+                enabled,
+                nextRunAt: enabled ? nextRunAt : null
+            })
+        );
+    }
+
+    /**
+     * A re-enabled schedule fires at its next tick from now; runs missed
+     * while it was disabled are not caught up.
+     */
+    async setScheduleEnabled(id: string, enabled: boolean): Promise<ImportSchedule> {
+        const schedule = await this.findSchedule(id);
+        if (schedule.enabled !== enabled) {
+            schedule.enabled = enabled;
+            schedule.nextRunAt = enabled ? this.nextRun(schedule.cron, new Date()) : null;
+            await this.scheduleRepository.update(id, { enabled, nextRunAt: schedule.nextRunAt });
+        }
+        return schedule;
+    }
+
+    /**
+     * Run a schedule now, whether or not it is enabled. Its next tick is unchanged.
+     */
+    async triggerSchedule(id: string): Promise<ImportJob> {
+        const schedule = await this.findSchedule(id);
+        return this.runSchedule(schedule, new Date());
+    }
+
+    /**
+     * Start the imports of the enabled schedules whose time has come. A
+     * schedule missed while no replica was up runs once, then goes back to
+     * its normal ticks.
+     */
+    async runDueSchedules(now: Date = new Date()): Promise<ImportJob[]> {
+        const due = await this.scheduleRepository.find({
+            where: { enabled: true, nextRunAt: LessThanOrEqual(now) }
+        });
+
+        const jobs: ImportJob[] = [];
+        for (const schedule of due) {
+            // nextRunAt is always a whole minute, so the comparison is exact whatever the column precision
+            const claim = await this.scheduleRepository.update(
+                { id: schedule.id, enabled: true, nextRunAt: schedule.nextRunAt as Date },
+                { nextRunAt: nextCronRun(parseCronExpression(schedule.cron), now) }
+            );
+            if (!claim.affected) {
+                continue; // Claimed by another replica, or disabled in the meantime
+            }
+
+            try {
+                jobs.push(await this.runSchedule(schedule, now));
+            } catch (error) {
+                console.error(`❌ Schedule "${schedule.name}" started no import:`, error instanceof Error ? error.message : error);
+            }
+        }
+        return jobs;
+    }
+
+    private async runSchedule(schedule: ImportSchedule, now: Date): Promise<ImportJob> {
+        try {
+            const filePath = await this.newestFile(schedule.pattern);
+            const job = await this.importJobService.startImport(filePath, {
+                format: schedule.format,
+                duplicatePolicy: schedule.duplicatePolicy
+            });
+
+            await this.scheduleRepository.update(schedule.id, { lastRunAt: now, lastImportJobId: job.id, lastError: null });
+            console.log(`⏰ Schedule "${schedule.name}" started import ${job.id} of ${path.basename(filePath)}`);
+            return job;
+        } catch (error) {
+            await this.scheduleRepository.update(schedule.id, {
+                lastRunAt: now,
+                lastError: error instanceof Error ? error.message : String(error)
+            });
+            throw error;
+        }
+    }
+
+    // Most recently modified file matching the pattern
+    private async newestFile(pattern: string): Promise<string> {
+        const matcher = globToRegExp(pattern);
+        const entries = await fs.promises.readdir(this.directory, { withFileTypes: true });
+
+        let newest: { filePath: string; mtimeMs: number } | null = null;
+        for (const entry of entries) {
+            if (!entry.isFile() || !matcher.test(entry.name)) {
+                continue;
+            }
+            const filePath = path.join(this.directory, entry.name);
+            const { mtimeMs } = await fs.promises.stat(filePath);
+            if (!newest || mtimeMs > newest.mtimeMs) {
+                newest = { filePath, mtimeMs };
+            }
+        }
+
+        if (!newest) {
+            throw new NoMatchingFileError(pattern, this.directory);
+        }
+        return newest.filePath;
+    }
+
+    private async findSchedule(id: string): Promise<ImportSchedule> {
+        const schedule = await this.scheduleRepository.findOne({ where: { id } });
+        if (!schedule) {
+            throw new ScheduleNotFoundError(id);
+        }
+        return schedule;
+    }
+
+    private nextRun(cron: string, after: Date): Date {
+        let nextRunAt: Date | null;
+        try {
+            nextRunAt = nextCronRun(parseCronExpression(cron), after);
+        } catch (error) {
+            if (error instanceof InvalidCronExpressionError) {
+                throw new InvalidScheduleError(error.message);
+            }
+            throw error;
+        }
+        if (!nextRunAt) {
+            throw new InvalidScheduleError(`Cron expression "${cron}" never runs`);
+        }
+        return nextRunAt;
+    }
+}
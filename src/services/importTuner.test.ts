@@ -0,0 +1,113 @@
+import { ImportTuner, TuningBounds } from './importTuner';
+
+const bounds: TuningBounds = { minBatchSize: 50, maxBatchSize: 2000, minWorkers: 1, maxWorkers: 4, targetBatchMs: 1000 };
+
+describe('ImportTuner', () => {
+  let pressure: number;
+  let now: number;
+  const tuner = (initial: { batchSize: number; workers?: number }) => new ImportTuner(bounds, initial, () => pressure, () => now);
+
+  beforeEach(() => {
+    pressure = 0.3;
+    now = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should grow batches and workers while the database keeps up and memory is low', () => {
+    const tuned = tuner({ batchSize: 500, workers: 2 });
+    tuned.recordBatch(200);
+
+    expect(tuned.batchSize).toBe(750);
+    expect(tuned.workers).toBe(3);
+    expect(tuned.getStats().adjustments).toEqual([expect.objectContaining({ batchSize: 750, workers: 3, reason: 'batches take 200ms with memory at 30%' })]);
+  });
+
+  it('should shrink when batches take longer than the target', () => {
+    const tuned = tuner({ batchSize: 500, workers: 4 });
+    tuned.recordBatch(2500);
+
+    expect(tuned.batchSize).toBe(250);
+    expect(tuned.workers).toBe(3);
+  });
+
+  it('should wait between adjustments', () => {
+    const tuned = tuner({ batchSize: 500, workers: 2 });
+    tuned.recordBatch(200);
+    now += 1000;
+    tuned.recordBatch(200);
+    expect(tuned.batchSize).toBe(750);
+
+    now += 5000;
+    tuned.recordBatch(200);
+    expect(tuned.batchSize).toBe(1125);
+  });
+
+  it('should stay within the bounds', () => {
+    const tuned = tuner({ batchSize: 60, workers: 1 });
+    tuned.recordBatch(5000);
+
+    expect(tuned.batchSize).toBe(50);
+    expect(tuned.workers).toBe(1);
+    now += 5000;
+    tuned.recordBatch(5000);
+    expect(tuned.getStats().adjustments).toHaveLength(1);
+  });
+
+  it('should leave the worker count alone on the sequential path', () => {
+    const tuned = tuner({ batchSize: 100 });
+    tuned.recordBatch(100);
+
+    expect(tuned.batchSize).toBe(150);
+    expect(tuned.workers).toBeNull();
+  });
+
+  it('should shrink under memory pressure even when the database is fast', () => {
+    const tuned = tuner({ batchSize: 500, workers: 4 });
+    pressure = 0.8;
+    tuned.recordBatch(100);
+
+    expect(tuned.batchSize).toBe(250);
+    expect(tuned.workers).toBe(3);
+    expect(tuned.readingHeld).toBe(false);
+  });
+
+  it('should hold reading near the memory limit until memory frees up', async () => {
+    const tuned = tuner({ batchSize: 500, workers: 4 });
+    pressure = 0.95;
+    tuned.recordBatch(100);
+    expect(tuned.readingHeld).toBe(true);
+
+    let allowed = false;
+    const waiting = tuned.whenReadingAllowed().then(() => {
+      allowed = true;
+    });
+    pressure = 0.8;
+    tuned.recordBatch(100);
+    await Promise.resolve();
+    expect(allowed).toBe(false);
+
+    pressure = 0.5;
+    tuned.recordBatch(100);
+    await waiting;
+    expect(tuned.readingHeld).toBe(false);
+    expect(tuned.getStats().adjustments.map(adjustment => adjustment.reason)).toEqual([
+      'memory at 95% of the limit, reading held',
+      'memory at 95% of the limit',
+      'memory back to 50% of the limit, reading resumed'
+    ]);
+  });
+
+  it('should stop waiting when the import is cancelled', async () => {
+    const tuned = tuner({ batchSize: 500 });
+    pressure = 0.95;
+    tuned.recordBatch(100);
+    const cancellation = new AbortController();
+
+    const waiting = tuned.whenReadingAllowed(cancellation.signal);
+    cancellation.abort();
+    await expect(waiting).resolves.toBeUndefined();
+    expect(tuned.readingHeld).toBe(true);
+  });
+});
@@ -0,0 +1,231 @@
+import { EventEmitter } from 'events';
+import { getHeapStatistics } from 'v8';
+import { memoryLimitBytes } from '../config/limits';
+
+/**
+ * Limits the tuner stays within, from the environment:
+ * IMPORT_BATCH_SIZE_MIN/MAX, IMPORT_WORKERS_MIN/MAX and IMPORT_TARGET_BATCH_MS.
+ */
+export interface TuningBounds {
+    minBatchSize: number;
+    maxBatchSize: number;
+    minWorkers: number;
+    maxWorkers: number;
+    // How long committing one batch should take; slower means the database is struggling
+    targetBatchMs: number;
+}
+
+export interface TuningAdjustment {
+    at: Date;
+    batchSize: number;
+    workers: number | null;
+    reason: string;
+}
+
+export interface TuningStats {
+    batchSize: number;
+    // Null on the sequential path, which has no workers
+    workers: number | null;
+    // Of the container memory limit or the V8 heap limit, whichever is closer
+    memoryPressure: number;
+    readingHeld: boolean;
+    // Moving average of the batch commit time
+    batchLatencyMs: number | null;
+    adjustments: TuningAdjustment[];
+}
+
+const positiveEnv = (name: string, fallback: number): number => {
+    const value = parseInt(process.env[name] || '');
+    return value > 0 ? value : fallback;
+};
+
+export function tuningBoundsFromEnv(): TuningBounds {
+    const minBatchSize = positiveEnv('IMPORT_BATCH_SIZE_MIN', 50);
+    const minWorkers = positiveEnv('IMPORT_WORKERS_MIN', 1);
+    return {
+        minBatchSize,
+        maxBatchSize: Math.max(positiveEnv('IMPORT_BATCH_SIZE_MAX', 2000), minBatchSize),
+        minWorkers,
+        maxWorkers: Math.max(positiveEnv('IMPORT_WORKERS_MAX', 4), minWorkers),
+        targetBatchMs: positiveEnv('IMPORT_TARGET_BATCH_MS', 1000)
+    };
+}
+
+// Worker threads share the process rss, so this covers them too
+export function memoryPressure(): number {
+    const { rss, heapUsed } = process.memoryUsage();
+    return Math.max(rss / memoryLimitBytes(), heapUsed / getHeapStatistics().heap_size_limit);
+}
+
+// Memory pressure above which batches and workers shrink, and above which reading stops
+const SHRINK_AT = 0.75;
+const HOLD_AT = 0.9;
+// Only grow with plenty of headroom, so growing never pushes memory into the shrink zone
+const GROW_BELOW = 0.6;
+// Lets a change show up in the batch latency before the next one
+const ADJUST_COOLDOWN_MS = 5000;
+const MEMORY_CHECK_MS = 500;
+const ADJUSTMENTS_KEPT = 20;
+
+const percent = (ratio: number) => Math.round(ratio * 100);
+
+/**
+ * Adjusts one import's batch size and worker count to the memory and the
+ * database latency it sees while running, and holds reading while memory is
+ * close to the limit. Emits 'adjust' (TuningStats) on every change, and
+ * 'release' when reading may continue.
+ */
+export class ImportTuner extends EventEmitter {
+    private batch: number;
+    private workerLimit: number | null;
+    private pressure = 0;
+    private held = false;
+    private latency: number | null = null;
+    private lastAdjustedAt = -Infinity;
+    private adjustments: TuningAdjustment[] = [];
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly bounds: TuningBounds,
+        initial: { batchSize: number; workers?: number },
+        private readonly readPressure: () => number = memoryPressure,
+        private readonly now: () => number = Date.now
+    ) {
+        super();
+        this.batch = this.clampBatch(initial.batchSize);
+        this.workerLimit = initial.workers === undefined ? null : this.clampWorkers(initial.workers);
+    }
+
+    get batchSize(): number {
+        return this.batch;
+    }
+
+    get workers(): number | null {
+        return this.workerLimit;
+    }
+
+    get readingHeld(): boolean {
+        return this.held;
+    }
+
+    // Memory is also checked on a timer, so a held import notices when it may read again
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.checkMemory();
+        this.timer = setInterval(() => this.checkMemory(), MEMORY_CHECK_MS).unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        // Nobody waits on a stopped import
+        this.held = false;
+        this.emit('release');
+    }
+
+    // A batch was committed in writeMs
+    recordBatch(writeMs: number): void {
+        this.latency = this.latency === null ? writeMs : this.latency * 0.7 + writeMs * 0.3;
+        this.checkMemory();
+        this.tune();
+    }
+
+    /**
+     * Resolves right away unless reading is held, otherwise once memory is
+     * back under the shrink threshold or the signal aborts.
+     */
+    async whenReadingAllowed(signal?: AbortSignal): Promise<void> {
+        if (!this.held || signal?.aborted) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            const done = () => {
+                signal?.removeEventListener('abort', done);
+                this.off('release', done);
+                resolve();
+            };
+            signal?.addEventListener('abort', done);
+            this.on('release', done);
+        });
+    }
+
+    getStats(): TuningStats {
+        return {
+            batchSize: this.batch,
+            workers: this.workerLimit,
+            memoryPressure: Math.round(this.pressure * 1000) / 1000,
+            readingHeld: this.held,
+            batchLatencyMs: this.latency === null ? null : Math.round(this.latency),
+            adjustments: [...this.adjustments]
+        };
+    }
+
+    private checkMemory(): void {
+        this.pressure = this.readPressure();
+
+        if (!this.held && this.pressure >= HOLD_AT) {
+            this.held = true;
+            this.record(`memory at ${percent(this.pressure)}% of the limit, reading held`);
+        } else if (this.held && this.pressure < SHRINK_AT) {
+            this.held = false;
+            this.record(`memory back to ${percent(this.pressure)}% of the limit, reading resumed`);
+            this.emit('release');
+        }
+
+        // Memory pressure doesn't wait for the next batch
+        if (this.pressure >= SHRINK_AT) {
+            this.tune();
+        }
+    }
+
+    private tune(): void {
+        if (this.now() - this.lastAdjustedAt < ADJUST_COOLDOWN_MS) {
+            return;
+        }
+
+        const { targetBatchMs } = this.bounds;
+        const workers = this.workerLimit;
+        if (this.pressure >= SHRINK_AT) {
+            this.resize(this.batch / 2, workers === null ? null : workers - 1, `memory at ${percent(this.pressure)}% of the limit`);
+        } else if (this.latency !== null && this.latency > targetBatchMs * 1.5) {
+            this.resize(this.batch / 2, workers === null ? null : workers - 1, `batches take ${Math.round(this.latency)}ms, target is ${targetBatchMs}ms`);
+        } else if (this.latency !== null && this.latency < targetBatchMs / 2 && this.pressure < GROW_BELOW) {
+            this.resize(this.batch * 1.5, workers === null ? null : workers + 1, `batches take ${Math.round(this.latency)}ms with memory at ${percent(this.pressure)}%`);
+        }
+    }
+
+    private resize(batchSize: number, workers: number | null, reason: string): void {
+        const batch = this.clampBatch(batchSize);
+        const workerLimit = workers === null ? null : this.clampWorkers(workers);
+        if (batch === this.batch && workerLimit === this.workerLimit) {
+            return; // Already at the bound
+        }
+
+        this.batch = batch;
+        this.workerLimit = workerLimit;
+        this.lastAdjustedAt = this.now();
+        this.record(reason);
+    }
+
+    private record(reason: string): void {
+        this.adjustments.push({ at: new Date(this.now()), batchSize: this.batch, workers: this.workerLimit, reason });
+        if (this.adjustments.length > ADJUSTMENTS_KEPT) {
+            this.adjustments.shift();
+        }
+        console.log(`🎛️  Import tuning: ${reason} → batch size ${this.batch}${this.workerLimit === null ? '' : `, ${this.workerLimit} worker(s)`}`);
+        this.emit('adjust', this.getStats());
+    }
+
+    private clampBatch(batchSize: number): number {
+        return Math.min(Math.max(Math.round(batchSize), this.bounds.minBatchSize), this.bounds.maxBatchSize);
+    }
+
+    private clampWorkers(workers: number): number {
+        return Math.min(Math.max(workers, this.bounds.minWorkers), this.bounds.maxWorkers);
+    }
+}
@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FindOperator } from 'typeorm';
+import { globToRegExp, InboxWatcher } from './inboxWatcher';
+import { ImportEventBus } from './importEventBus';
+
+// In-memory inbox_files table, with the unique index on fileName
+const memoryRepository = () => {
+  const rows: any[] = [];
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([key, value]) =>
+    !(value instanceof FindOperator) ? row[key] === value
+      : value.type === 'isNull' ? row[key] == null
+        : (value.value as unknown[]).includes(row[key])
+  );
+  return {
+    rows,
+    create: (values: any) => ({ ...values }),
+    save: async (row: any) => {
+      if (rows.some(existing => existing.fileName === row.fileName && existing.id !== row.id)) {
+        throw Object.assign(new Error('Violation of UNIQUE KEY constraint'), { number: 2627 });
+      }
+      row.id = Math.max(0, ...rows.map(existing => existing.id)) + 1;
+      row.createdAt = new Date();
+      rows.push(row);
+      return { ...row };
+    },
+    find: async ({ where }: any = {}) => rows.filter(row => matches(row, where)),
+    findOne: async ({ where }: any) => rows.find(row => matches(row, where)) ?? null,
+    update: async (id: number, values: any) => {
+      Object.assign(rows.find(row => row.id === id), values);
+    },
+    delete: async (where: any) => {
+      const before = rows.length;
+      rows.splice(0, rows.length, ...rows.filter(row => !matches(row, where)));
+      return { affected: before - rows.length };
+    }
+  };
+};
+
+describe('globToRegExp', () => {
+  it('should match * and ? and escape the rest', () => {
+    const matcher = globToRegExp('CLIENTES_IN_*.dat');
+    expect(matcher.test('CLIENTES_IN_0425.dat')).toBe(true);
+    expect(matcher.test('CLIENTES_IN_0425.dat.tmp')).toBe(false);
+    expect(matcher.test('CLIENTES_IN_0425xdat')).toBe(false);
+    expect(globToRegExp('day?.csv').test('day1.csv')).toBe(true);
+  });
+});
+
+describe('InboxWatcher', () => {
+  let directory: string;
+  let repository: ReturnType<typeof memoryRepository>;
+  let importEvents: ImportEventBus;
+  let importJobService: any;
+  let jobs: number;
+
+  const createWatcher = () => {
+    const databaseService: any = { getRepository: () => repository };
+    const watcher = new InboxWatcher(databaseService, importJobService, importEvents);
+    // Options are only applied by start(); set them directly so tests drive scan() themselves
+    (watcher as any).options = { directory, pattern: 'CLIENTES_IN_*.dat', pollIntervalMs: 1000 };
+    return watcher;
+  };
+
+  const drop = (fileName: string, content: string) => fs.writeFileSync(path.join(directory, fileName), content);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'inbox-'));
+    repository = memoryRepository();
+    importEvents = new ImportEventBus();
+    jobs = 0;
+    importJobService = {
+      startImport: jest.fn().mockImplementation(async () => ({ id: `job-${++jobs}` })),
+      getJob: jest.fn().mockResolvedValue({ id: 'job-1', status: 'running' })
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should import a file once its size stopped changing', async () => {
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+
+    expect(await watcher.scan()).toEqual([]);
+    const [file] = await watcher.scan();
+
+    expect(file).toEqual(expect.objectContaining({ fileName: 'CLIENTES_IN_0425.dat', status: 'importing', importJobId: 'job-1', size: 27 }));
+    expect(importJobService.startImport).toHaveBeenCalledWith(path.join(directory, 'CLIENTES_IN_0425.dat'));
+  });
+
+  it('should wait while the file is still being written', async () => {
+    const watcher = createWatcher();
+    const filePath = path.join(directory, 'CLIENTES_IN_0425.dat');
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+
+    await watcher.scan();
+    fs.appendFileSync(filePath, '001002|Bruno|bruno@example.com\n');
+    expect(await watcher.scan()).toEqual([]);
+    expect(await watcher.scan()).toHaveLength(1);
+    expect(importJobService.startImport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore files not matching the pattern', async () => {
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat.part', '001001|Ana|ana@example.com\n');
+    drop('notes.txt', 'not a customer file');
+
+    await watcher.scan();
+    expect(await watcher.scan()).toEqual([]);
+    expect(repository.rows).toHaveLength(0);
+  });
+
+  it('should never import the same file twice', async () => {
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+    await watcher.scan();
+
+    // Again from this instance, from a restarted one, and after the file was touched
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n001002|Bruno|bruno@example.com\n');
+    const restarted = createWatcher();
+    for (let i = 0; i < 3; i++) {
+      expect(await watcher.scan()).toEqual([]);
+      expect(await restarted.scan()).toEqual([]);
+    }
+
+    expect(importJobService.startImport).toHaveBeenCalledTimes(1);
+    expect(repository.rows).toHaveLength(1);
+  });
+
+  it('should not import twice when two instances claim the same file', async () => {
+    const first = createWatcher();
+    const second = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+    await Promise.all([first.scan(), second.scan()]);
+
+    const claimed = await Promise.all([first.scan(), second.scan()]);
+    expect(claimed.flat()).toHaveLength(1);
+    expect(importJobService.startImport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip a file with the same content as one already imported', async () => {
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+    await watcher.scan();
+
+    drop('CLIENTES_IN_0425_copy.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+    const [file] = await watcher.scan();
+
+    expect(file).toEqual(expect.objectContaining({ status: 'skipped', detail: 'Same content as CLIENTES_IN_0425.dat', importJobId: null }));
+    expect(importJobService.startImport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record the outcome of the import', async () => {
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+    await watcher.scan();
+
+    const finishedAt = new Date();
+    importEvents.publish({
+      jobId: 'job-1',
+      type: 'summary',
+      summary: { status: 'completed', processed: 1, errors: 0, duplicates: 0, errorMessage: null, finishedAt } as any
+    });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(repository.rows[0]).toEqual(expect.objectContaining({
+      status: 'completed',
+      detail: '1 processed, 0 errors, 0 duplicates',
+      finishedAt
+    }));
+  });
+
+  it('should claim the file again after the database failed to record it', async () => {
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+
+    const save = repository.save;
+    repository.save = jest.fn().mockRejectedValueOnce(new Error('Connection lost'));
+    await expect(watcher.scan()).rejects.toThrow('Connection lost');
+    repository.save = save;
+
+    const [file] = await watcher.scan();
+    expect(file).toEqual(expect.objectContaining({ fileName: 'CLIENTES_IN_0425.dat', status: 'importing', importJobId: 'job-1' }));
+    expect(importJobService.startImport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should catch up on imports that ended while the watcher was down', async () => {
+    const finishedAt = new Date();
+    repository.rows.push(
+      { id: 1, fileName: 'CLIENTES_IN_0424.dat', status: 'importing', importJobId: 'job-1' },
+      { id: 2, fileName: 'CLIENTES_IN_0425.dat', status: 'importing', importJobId: 'job-2' },
+      { id: 3, fileName: 'CLIENTES_IN_0426.dat', status: 'importing', importJobId: 'job-3' }
+    );
+    const statuses: Record<string, any> = {
+      'job-1': { id: 'job-1', status: 'completed', processed: 5, errors: 0, duplicates: 1, errorMessage: null, finishedAt },
+      'job-2': { id: 'job-2', status: 'interrupted', errorMessage: null, finishedAt: null },
+      'job-3': { id: 'job-3', status: 'running' }
+    };
+    importJobService.getJob.mockImplementation(async (id: string) => statuses[id]);
+
+    const watcher = createWatcher();
+    await watcher.start({ directory });
+    watcher.stop();
+
+    expect(repository.rows.map(row => [row.fileName, row.status, row.detail])).toEqual([
+      ['CLIENTES_IN_0424.dat', 'completed', '5 processed, 0 errors, 1 duplicates'],
+      ['CLIENTES_IN_0425.dat', 'failed', 'Interrupted by a restart, resume it with POST /imports/job-2/resume'],
+      ['CLIENTES_IN_0426.dat', 'importing', undefined]
+    ]);
+  });
+
+  it('should import a file again when the import of the same content was interrupted', async () => {
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+    await watcher.scan();
+
+    importJobService.getJob.mockResolvedValue({ id: 'job-1', status: 'interrupted', errorMessage: null, finishedAt: null });
+    drop('CLIENTES_IN_0425_copy.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+    const [file] = await watcher.scan();
+
+    expect(file).toEqual(expect.objectContaining({ fileName: 'CLIENTES_IN_0425_copy.dat', status: 'importing', importJobId: 'job-2' }));
+    expect(repository.rows[0]).toHaveProperty('status', 'failed');
+  });
+
+  it('should claim a file again when its claim was left without an import job', async () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+    repository.rows.push(
+      { id: 1, fileName: 'CLIENTES_IN_0424.dat', checksum: 'a', status: 'importing', importJobId: null, createdAt: minutesAgo(5) },
+      { id: 2, fileName: 'CLIENTES_IN_0425.dat', checksum: 'b', status: 'importing', importJobId: null, createdAt: new Date() }
+    );
+    drop('CLIENTES_IN_0424.dat', '001001|Ana|ana@example.com\n');
+    drop('CLIENTES_IN_0425.dat', '001002|Luis|luis@example.com\n');
+
+    const watcher = createWatcher();
+    await watcher.scan();
+    const claimed = await watcher.scan();
+
+    // The recent claim may still get its job, so the file stays with it
+    expect(claimed).toEqual([expect.objectContaining({ fileName: 'CLIENTES_IN_0424.dat', status: 'importing', importJobId: 'job-1' })]);
+    expect(repository.rows.map(row => [row.fileName, row.importJobId])).toEqual([
+      ['CLIENTES_IN_0425.dat', null],
+      ['CLIENTES_IN_0424.dat', 'job-1']
+    ]);
+  });
+
+  it('should mark the file failed when the import cannot start', async () => {
+    importJobService.startImport.mockRejectedValueOnce(new Error('File not found: CLIENTES_IN_0425.dat'));
+    const watcher = createWatcher();
+    drop('CLIENTES_IN_0425.dat', '001001|Ana|ana@example.com\n');
+    await watcher.scan();
+
+    const [file] = await watcher.scan();
+    expect(file).toEqual(expect.objectContaining({ status: 'failed', detail: 'File not found: CLIENTES_IN_0425.dat' }));
+  });
+});
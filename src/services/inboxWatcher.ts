@@ -0,0 +1,339 @@
+import { InboxFile, InboxFileStatus } from "../entities/InboxFile";
+import { ImportJobStatus } from "../entities/ImportJob";
+import { IDatabaseService, IImportEventBus, IImportJobService, IInboxWatcher, ImportSummary } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { inject, injectable } from "inversify";
+import { In, IsNull, Repository } from "typeorm";
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { isUniqueViolation } from './databaseService';
+import { toImportSummary } from './importEventBus';
+
+export interface InboxWatcherOptions {
+    directory: string;
+    // File name glob, e.g. CLIENTES_IN_*.dat (* and ? wildcards)
+    pattern: string;
+    pollIntervalMs: number;
+}
+
+// The job is over, at least for now: a failed or interrupted one may still be resumed
+const SETTLED_JOB_STATUSES: ImportJobStatus[] = ['completed', 'cancelled', 'failed', 'interrupted'];
+
+// A claim still without its job this long (or a poll interval, if longer) was abandoned;
+// generous, since createdAt is the database's clock and not this replica's
+const ABANDONED_CLAIM_MS = 60000;
+
+interface FileObservation {
+    size: number;
+    mtimeMs: number;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split('')
+        .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+        .join('');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Imports the files dropped in an inbox directory (the read-only clients/
+ * mount). The directory is polled rather than watched, since file system
+ * events are unreliable on bind mounts. A file is imported once its size and
+ * modification time are unchanged between two polls, and is claimed with an
+ * inbox_files row first, so it is never imported twice.
+ */
+@injectable()
+export class InboxWatcher implements IInboxWatcher {
+    private inboxFileRepository: Repository<InboxFile>;
+    private options: InboxWatcherOptions = {
+        directory: process.env.INBOX_DIR || path.join(process.cwd(), 'clients'),
+        pattern: process.env.INBOX_PATTERN || 'CLIENTES_IN_*.dat',
+        pollIntervalMs: parseInt(process.env.INBOX_POLL_MS || '10000')
+    };
+    private timer: NodeJS.Timeout | null = null;
+    private scanning: Promise<InboxFile[]> | null = null;
+    // Last size/mtime seen of files not claimed yet
+    private observations: Map<string, FileObservation> = new Map();
+    // Files already recorded in inbox_files, so they aren't looked up on every poll
+    private knownFiles: Set<string> = new Set();
+
+    constructor(
+        @inject(TYPES.DatabaseService) private databaseService: IDatabaseService,
+        @inject(TYPES.ImportJobService) private importJobService: IImportJobService,
+        @inject(TYPES.ImportEventBus) private importEvents: IImportEventBus
+    ) {
+        this.inboxFileRepository = this.databaseService.getRepository(InboxFile);
+    }
+
+    async start(options: Partial<InboxWatcherOptions> = {}): Promise<void> {
+        if (this.timer) {
+            return;
+        }
+        this.options = { ...this.options, ...options };
+
+        // Imports started before a restart may have finished or been interrupted unseen;
+        // the rest (and the resumable ones) still need their outcome recorded
+        const importing = await this.inboxFileRepository.find({ where: { status: 'importing' } });
+        for (const file of importing) {
+            const status = await this.reconcile(file);
+            if (file.importJobId && (status === 'importing' || status === 'failed')) {
+                this.recordOutcome(file.id, file.importJobId);
+            }
+        }
+
+        console.log(`📥 Watching ${this.options.directory} for ${this.options.pattern} every ${this.options.pollIntervalMs / 1000}s`);
+        const poll = () => {
+            this.scan()
+                .catch(error => console.error('Error scanning the inbox:', error))
+                .finally(() => {
+                    if (this.timer) {
+                        this.timer = setTimeout(poll, this.options.pollIntervalMs).unref();
+                    }
+                });
+        };
+        this.timer = setTimeout(poll, 0).unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+            console.log('📥 Inbox watcher stopped');
+        }
+    }
+
+    isRunning(): boolean {
+        return this.timer !== null;
+    }
+
+    /**
+     * One pass over the inbox: claims and imports the files that stopped
+     * changing since the previous pass. Returns the files claimed.
+     */
+    async scan(): Promise<InboxFile[]> {
+        // Overlapping scans (poll + manual trigger) share the same pass
+        if (!this.scanning) {
+            this.scanning = this.scanDirectory().finally(() => {
+                this.scanning = null;
+            });
+        }
+        return this.scanning;
+    }
+
+    async listFiles(limit: number = 50): Promise<InboxFile[]> {
+        return this.inboxFileRepository.find({
+            order: { createdAt: 'DESC' },
+            take: limit
+        });
+    }
+
+    private async scanDirectory(): Promise<InboxFile[]> {
+        const { directory, pattern } = this.options;
+        const matcher = globToRegExp(pattern);
+
+        const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        const candidates = entries
+            .filter(entry => entry.isFile() && matcher.test(entry.name) && !this.knownFiles.has(entry.name))
+            .map(entry => entry.name);
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        const recorded = await this.inboxFileRepository.find({ where: { fileName: In(candidates) } });
+        const beingClaimed = new Set<string>();
+        for (const file of recorded) {
+            if (file.status === 'importing' && !file.importJobId) {
+                // Not known for good until its job is recorded: the claim may have been abandoned
+                if (await this.reconcile(file) !== null) {
+                    beingClaimed.add(file.fileName);
+                }
+                continue;
+            }
+            this.knownFiles.add(file.fileName);
+            this.observations.delete(file.fileName);
+        }
+
+        const claimed: InboxFile[] = [];
+        for (const fileName of candidates.filter(name => !this.knownFiles.has(name) && !beingClaimed.has(name))) {
+            if (!(await this.isStable(fileName))) {
+                continue;
+            }
+            const file = await this.claim(fileName);
+            if (file) {
+                claimed.push(file);
+            }
+        }
+        return claimed;
+    }
+
+    // Unchanged (and not empty) since the previous scan
+    private async isStable(fileName: string): Promise<boolean> {
+        let stats: fs.Stats;
+        try {
+            stats = await fs.promises.stat(path.join(this.options.directory, fileName));
+        } catch {
+            this.observations.delete(fileName); // Removed in the meantime
+            return false;
+        }
+
+        const previous = this.observations.get(fileName);
+        this.observations.set(fileName, { size: stats.size, mtimeMs: stats.mtimeMs });
+        return !!previous && stats.size > 0 && previous.size === stats.size && previous.mtimeMs === stats.mtimeMs;
+    }
+
+    private async claim(fileName: string): Promise<InboxFile | null> {
+        const filePath = path.join(this.options.directory, fileName);
+        const { size } = this.observations.get(fileName) as FileObservation;
+        const checksum = await this.checksum(filePath);
+
+        const sameContent = await this.findSameContent(checksum);
+
+        let file: InboxFile;
+        try {
+            file = await this.inboxFileRepository.save(this.inboxFileRepository.create({
+                fileName,
+                size,
+                checksum,
+                status: sameContent ? 'skipped' : 'importing',
+                importJobId: null,
+                detail: sameContent ? `Same content as ${sameContent.fileName}` : null,
+                finishedAt: sameContent ? new Date() : null
+            }));
+        } catch (error) {
+            if (isUniqueViolation(error)) {
+                // Claimed by another instance
+                this.knownFiles.add(fileName);
+                this.observations.delete(fileName);
+                return null;
+            }
+            // No row was written (e.g. the database is briefly down): the next scan tries again
+            throw error;
+        }
+        this.knownFiles.add(fileName);
+        this.observations.delete(fileName);
+
+        if (sameContent) {
+            console.log(`📥 Skipping ${fileName}: same content as ${sameContent.fileName}`);
+            return file;
+        }
+
+        try {
+            const job = await this.importJobService.startImport(filePath);
+            file.importJobId = job.id;
+            await this.inboxFileRepository.update(file.id, { importJobId: job.id });
+            this.recordOutcome(file.id, job.id);
+            console.log(`📥 Importing ${fileName} (${size} bytes) as job ${job.id}`);
+        } catch (error) {
+            file.status = 'failed';
+            file.detail = error instanceof Error ? error.message : String(error);
+            file.finishedAt = new Date();
+            await this.inboxFileRepository.update(file.id, { status: file.status, detail: file.detail, finishedAt: file.finishedAt });
+            console.error(`❌ Could not start the import of ${fileName}:`, error);
+        }
+        return file;
+    }
+
+    private async findSameContent(checksum: string): Promise<InboxFile | null> {
+        const matches = await this.inboxFileRepository.find({
+            where: { checksum, status: In(['importing', 'completed']) }
+        });
+        for (const match of matches) {
+            // An 'importing' row whose import ended unseen does not count as the same content being imported
+            const status = match.status === 'importing' ? await this.reconcile(match) : match.status;
+            if (status === 'importing' || status === 'completed') {
+                return match;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Bring an 'importing' row up to date with its job, whose outcome this
+     * process may have missed (the job finished before a restart, or was
+     * interrupted by it). Returns the row's current status, or null when it
+     * was an abandoned claim and is gone.
+     */
+    private async reconcile(file: InboxFile): Promise<InboxFileStatus | null> {
+        if (!file.importJobId) {
+            return this.releaseAbandonedClaim(file);
+        }
+        const job = await this.importJobService.getJob(file.importJobId);
+        if (!job) {
+            return this.applyOutcome(file.id, { status: 'failed', detail: `Import job ${file.importJobId} no longer exists`, finishedAt: new Date() });
+        }
+        if (!SETTLED_JOB_STATUSES.includes(job.status)) {
+            return file.status;
+        }
+        const summary = toImportSummary(job);
+        return this.applyOutcome(file.id, {
+            status: summary.status,
+            detail: job.status === 'interrupted'
+                ? `Interrupted by a restart, resume it with POST /imports/${job.id}/resume`
+                : this.outcomeDetail(summary),
+            finishedAt: summary.finishedAt ?? new Date()
+        });
+    }
+
+    /**
+     * A claim is saved before its import job exists, and a process that died
+     * in between leaves it without one. Past ABANDONED_CLAIM_MS it is deleted
+     * so the file can be claimed again; conditionally, so a slow claimer that
+     * recorded its job in the meantime keeps it.
+     */
+    private async releaseAbandonedClaim(file: InboxFile): Promise<InboxFileStatus | null> {
+        const claimedBefore = Date.now() - Math.max(ABANDONED_CLAIM_MS, this.options.pollIntervalMs);
+        if (file.createdAt.getTime() > claimedBefore) {
+            return file.status; // Being claimed right now
+        }
+        const released = await this.inboxFileRepository.delete({ id: file.id, status: 'importing', importJobId: IsNull() });
+        if (!released.affected) {
+            return file.status;
+        }
+        this.knownFiles.delete(file.fileName);
+        console.log(`📥 Released the claim on ${file.fileName}: its import never started`);
+        return null;
+    }
+
+    private async checksum(filePath: string): Promise<string> {
+        const hash = createHash('sha256');
+        await pipeline(fs.createReadStream(filePath), hash);
+        return hash.digest('hex');
+    }
+
+    // Copy the job's final status onto the inbox file when the import finishes
+    private recordOutcome(inboxFileId: number, importJobId: string): void {
+        const unsubscribe = this.importEvents.subscribe(importJobId, event => {
+            if (event.type !== 'summary') {
+                return;
+            }
+            const summary: ImportSummary = event.summary;
+            // A failed import can still be resumed, so keep listening for its next outcome
+            if (summary.status !== 'failed') {
+                unsubscribe();
+            }
+
+            this.applyOutcome(inboxFileId, {
+                status: summary.status,
+                detail: this.outcomeDetail(summary),
+                finishedAt: summary.finishedAt ?? new Date()
+            }).catch(error => console.error(`Error recording the outcome of inbox file ${inboxFileId}:`, error));
+        });
+    }
+
+    private outcomeDetail(summary: ImportSummary): string {
+        return summary.errorMessage ?? `${summary.processed} processed, ${summary.errors} errors, ${summary.duplicates} duplicates`;
+    }
+
+    // Anything but a completed or cancelled import leaves the file failed
+    private async applyOutcome(
+        inboxFileId: number,
+        outcome: { status: ImportJobStatus; detail: string; finishedAt: Date }
+    ): Promise<InboxFileStatus> {
+        const status = outcome.status === 'completed' || outcome.status === 'cancelled' ? outcome.status : 'failed';
+        await this.inboxFileRepository.update(inboxFileId, { status, detail: outcome.detail, finishedAt: outcome.finishedAt });
+        return status;
+    }
+}
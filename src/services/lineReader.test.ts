@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readLines, splitLines } from './lineReader';
+
+const collect = async (filePath: string, start?: number, end?: number) => {
+  const lines = [];
+  for await (const line of readLines(filePath, start, end)) {
+    lines.push(line);
+  }
+  return lines;
+};
+
+describe('readLines', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'line-reader-'));
+    filePath = path.join(dir, 'customers.dat');
+    // Multi-byte characters and a CRLF line, no trailing newline
+    fs.writeFileSync(filePath, '001|María|Rodríguez\r\n002|Lucía|Fernández\n003|Pedro|García');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should yield each line with the byte offset where the next one starts', async () => {
+    const lines = await collect(filePath);
+    const size = fs.statSync(filePath).size;
+
+    expect(lines.map(line => line.text)).toEqual(['001|María|Rodríguez', '002|Lucía|Fernández', '003|Pedro|García']);
+    expect(lines[0].endByte).toBe(Buffer.byteLength('001|María|Rodríguez\r\n'));
+    expect(lines[2].endByte).toBe(size);
+  });
+
+  it('should resume from a byte offset and stop at the end of a range', async () => {
+    const [first, second] = await collect(filePath);
+
+    const resumed = await collect(filePath, first.endByte);
+    expect(resumed.map(line => line.text)).toEqual(['002|Lucía|Fernández', '003|Pedro|García']);
+
+    const range = await collect(filePath, first.endByte, second.endByte);
+    expect(range).toEqual([second]);
+  });
+});
+
+describe('splitLines', () => {
+  it('should join lines and characters split across chunks', async () => {
+    const bytes = Buffer.from('001|María|Rodríguez\n002|Lucía|Fernández');
+    // Cut inside the "í" of María and just before the newline
+    const cuts = [bytes.indexOf('í') + 1, bytes.indexOf('\n')];
+    async function* chunks() {
+      yield bytes.subarray(0, cuts[0]);
+      yield bytes.subarray(cuts[0], cuts[1]);
+      yield bytes.subarray(cuts[1]);
+    }
+
+    const lines = [];
+    for await (const line of splitLines(chunks())) {
+      lines.push(line);
+    }
+
+    expect(lines).toEqual([
+      { text: '001|María|Rodríguez', endByte: cuts[1] + 1 },
+      { text: '002|Lucía|Fernández', endByte: bytes.length }
+    ]);
+  });
+});
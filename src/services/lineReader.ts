@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+
+export interface FileLine {
+    text: string;
+    // Byte offset right after this line's terminator, i.e. where the next line starts
+    endByte: number;
+}
+
+/**
+ * Stream the lines of a file, optionally limited to a byte range, keeping
+ * track of byte offsets so callers can checkpoint and later resume exactly
+ * where they stopped. Splits like readline with crlfDelay: Infinity.
+ */
+export async function* readLines(filePath: string, start: number = 0, end?: number): AsyncGenerator<FileLine> {
+    if (end !== undefined && end <= start) {
+        return;
+    }
+
+    // createReadStream's end is inclusive
+    const stream = fs.createReadStream(filePath, {
+        start,
+        end: end !== undefined ? end - 1 : undefined
+    });
+
+    try {
+        yield* splitLines(stream, start);
+    } finally {
+        stream.destroy();
+    }
+}
+
+/**
+ * The lines of any byte stream, e.g. an upload being received. start is the
+ * offset of the first chunk, so endByte matches the same bytes saved to a file.
+ * The next chunk is only pulled once the lines before it were consumed.
+ */
+export async function* splitLines(chunks: AsyncIterable<Buffer>, start: number = 0): AsyncGenerator<FileLine> {
+    let pending: Buffer = Buffer.alloc(0);
+    let pendingStart = start; // Stream offset of pending[0]
+
+    for await (const buffer of chunks) {
+        const data = pending.length > 0 ? Buffer.concat([pending, buffer]) : buffer;
+        let lineStart = 0;
+        let newline = data.indexOf(0x0a);
+
+        while (newline !== -1) {
+            yield {
+                text: decodeLine(data, lineStart, newline),
+                endByte: pendingStart + newline + 1
+            };
+            lineStart = newline + 1;
+            newline = data.indexOf(0x0a, lineStart);
+        }
+
+        pending = data.subarray(lineStart);
+        pendingStart += lineStart;
+    }
+
+    // Last line without a trailing newline
+    if (pending.length > 0) {
+        yield {
+            text: decodeLine(pending, 0, pending.length),
+            endByte: pendingStart + pending.length
+        };
+    }
+}
+
+function decodeLine(data: Buffer, start: number, end: number): string {
+    if (end > start && data[end - 1] === 0x0d) {
+        end--;
+    }
+    return data.toString('utf8', start, end);
+}
@@ -0,0 +1,66 @@
+import { ImportMetrics, metricsRegistry, setWorkloadGauges } from './metrics';
+
+const totals = (overrides: any = {}): any => ({
+  processed: 0, inserted: 0, updated: 0, errors: 0, errorsByReason: {}, duplicates: 0, ...overrides
+});
+
+const value = async (name: string, labels: Record<string, string> = {}) => {
+  const metric = await metricsRegistry.getSingleMetric(name)!.get();
+  const sample = metric.values.find(candidate =>
+    Object.entries(labels).every(([key, label]) => (candidate.labels as any)[key] === label)
+  );
+  return sample?.value ?? 0;
+};
+
+describe('ImportMetrics', () => {
+  beforeEach(() => metricsRegistry.resetMetrics());
+
+  it('should count what each checkpoint added', async () => {
+    const metrics = new ImportMetrics();
+    metrics.start('job-1', false);
+    metrics.record('job-1', totals({ processed: 100, inserted: 90, updated: 10, errors: 2, errorsByReason: { INVALID_EMAIL: 2 }, duplicates: 1 }));
+    metrics.record('job-1', totals({ processed: 250, inserted: 230, updated: 20, errors: 5, errorsByReason: { INVALID_EMAIL: 3, AGE_OUT_OF_RANGE: 2 }, duplicates: 1 }));
+    metrics.finish('job-1', 'completed');
+
+    expect(await value('customer_import_lines_total', { dry_run: 'false' })).toBe(256);
+    expect(await value('customer_import_inserted_total')).toBe(230);
+    expect(await value('customer_import_updated_total')).toBe(20);
+    expect(await value('customer_import_duplicates_total')).toBe(1);
+    expect(await value('customer_import_rejections_total', { reason: 'INVALID_EMAIL' })).toBe(3);
+    expect(await value('customer_import_rejections_total', { reason: 'AGE_OUT_OF_RANGE' })).toBe(2);
+    expect(await value('customer_import_jobs_total', { status: 'completed', dry_run: 'false' })).toBe(1);
+  });
+
+  it('should not count the work before the checkpoint a resumed import starts from', async () => {
+    const metrics = new ImportMetrics();
+    metrics.start('job-1', true, totals({ processed: 1000, inserted: 1000 }));
+    metrics.record('job-1', totals({ processed: 1500, inserted: 1500 }));
+    // Repeated final totals add nothing
+    metrics.record('job-1', totals({ processed: 1500, inserted: 1500 }));
+
+    expect(await value('customer_import_lines_total', { dry_run: 'true' })).toBe(500);
+    expect(await value('customer_import_inserted_total', { dry_run: 'true' })).toBe(500);
+  });
+
+  it('should ignore jobs it was not told about', async () => {
+    const metrics = new ImportMetrics();
+    metrics.record('unknown', totals({ processed: 10 }));
+    metrics.finish('unknown', 'failed');
+
+    expect(await value('customer_import_lines_total')).toBe(0);
+    expect(await value('customer_import_jobs_total')).toBe(0);
+  });
+});
+
+describe('setWorkloadGauges', () => {
+  it('should expose the workload and pool usage in the text format', async () => {
+    setWorkloadGauges({ activeImports: 2, activeWorkers: 4, queuedChunks: 7 }, { borrowed: 3, available: 5, pending: 0, size: 8 } as any);
+    const text = await metricsRegistry.metrics();
+
+    expect(text).toContain('customer_imports_running 2');
+    expect(text).toContain('customer_import_active_workers 4');
+    expect(text).toContain('customer_import_queued_chunks 7');
+    expect(text).toContain('db_pool_connections{state="borrowed"} 3');
+    expect(text).toContain('db_pool_connections{state="size"} 8');
+  });
+});
@@ -0,0 +1,160 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { ConnectionPool } from 'mssql';
+import { CheckpointTotals, ImportWorkload } from "../interfaces/services";
+import { RejectionReason } from "./customerLine";
+
+/**
+ * Prometheus metrics served on /metrics. Counters only live in this process,
+ * so every replica is scraped on its own and Prometheus sums them up.
+ */
+export const metricsRegistry = new Registry();
+
+// Process CPU, memory, event loop lag and GC
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request duration by route and status code',
+    labelNames: ['method', 'route', 'status_code'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [metricsRegistry]
+});
+
+export const httpRequestsTotal = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests by route and status code',
+    labelNames: ['method', 'route', 'status_code'],
+    registers: [metricsRegistry]
+});
+
+const importLines = new Counter({
+    name: 'customer_import_lines_total',
+    help: 'Lines read by imports and committed (inserted, updated, duplicate or rejected)',
+    labelNames: ['dry_run'],
+    registers: [metricsRegistry]
+});
+
+const importInserted = new Counter({
+    name: 'customer_import_inserted_total',
+    help: 'Customers inserted by imports',
+    labelNames: ['dry_run'],
+    registers: [metricsRegistry]
+});
+
+const importUpdated = new Counter({
+    name: 'customer_import_updated_total',
+    help: 'Existing customers overwritten by imports',
+    labelNames: ['dry_run'],
+    registers: [metricsRegistry]
+});
+
+const importDuplicates = new Counter({
+    name: 'customer_import_duplicates_total',
+    help: 'Lines skipped by imports as duplicate customers',
+    labelNames: ['dry_run'],
+    registers: [metricsRegistry]
+});
+
+const importRejections = new Counter({
+    name: 'customer_import_rejections_total',
+    help: 'Lines rejected by imports, by reason',
+    labelNames: ['reason', 'dry_run'],
+    registers: [metricsRegistry]
+});
+
+const importJobsFinished = new Counter({
+    name: 'customer_import_jobs_total',
+    help: 'Import jobs finished, by final status',
+    labelNames: ['status', 'dry_run'],
+    registers: [metricsRegistry]
+});
+
+// Set from the services by setWorkloadGauges when /metrics is scraped
+const importsRunning = new Gauge({
+    name: 'customer_imports_running',
+    help: 'Imports running or paused in this process',
+    registers: [metricsRegistry]
+});
+
+const importActiveWorkers = new Gauge({
+    name: 'customer_import_active_workers',
+    help: 'Worker threads processing import chunks',
+    registers: [metricsRegistry]
+});
+
+const importQueuedChunks = new Gauge({
+    name: 'customer_import_queued_chunks',
+    help: 'Import chunks waiting for a free worker',
+    registers: [metricsRegistry]
+});
+
+const dbPoolConnections = new Gauge({
+    name: 'db_pool_connections',
+    help: 'SQL Server pool connections by state (borrowed, available, pending acquires) and the pool size',
+    labelNames: ['state'],
+    registers: [metricsRegistry]
+});
+
+export function setWorkloadGauges(workload: ImportWorkload, pool?: ConnectionPool): void {
+    importsRunning.set(workload.activeImports);
+    importActiveWorkers.set(workload.activeWorkers);
+    importQueuedChunks.set(workload.queuedChunks);
+    // No pool before the database is initialized
+    if (pool) {
+        dbPoolConnections.set({ state: 'borrowed' }, pool.borrowed);
+        dbPoolConnections.set({ state: 'available' }, pool.available);
+        dbPoolConnections.set({ state: 'pending' }, pool.pending);
+        dbPoolConnections.set({ state: 'size' }, pool.size);
+    }
+}
+
+const emptyTotals = (): CheckpointTotals => ({ processed: 0, inserted: 0, updated: 0, errors: 0, errorsByReason: {}, duplicates: 0 });
+
+/**
+ * Turns the cumulative totals an import reports at every checkpoint into
+ * counter increments. Only committed work is counted, and a resumed import
+ * starts from its checkpoint, so nothing is counted twice.
+ */
+export class ImportMetrics {
+    private jobs: Map<string, { dryRun: string; totals: CheckpointTotals }> = new Map();
+
+    start(jobId: string, dryRun: boolean, resumedFrom?: CheckpointTotals | null): void {
+        this.jobs.set(jobId, { dryRun: String(dryRun), totals: resumedFrom ?? emptyTotals() });
+    }
+
+    record(jobId: string, totals: CheckpointTotals): void {
+        const job = this.jobs.get(jobId);
+        if (!job) {
+            return;
+        }
+
+        const last = job.totals;
+        const labels = { dry_run: job.dryRun };
+        const lines = (t: CheckpointTotals) => t.processed + t.errors + t.duplicates;
+        incrementBy(importLines, labels, lines(totals) - lines(last));
+        incrementBy(importInserted, labels, totals.inserted - last.inserted);
+        incrementBy(importUpdated, labels, totals.updated - last.updated);
+        incrementBy(importDuplicates, labels, totals.duplicates - last.duplicates);
+        for (const [reason, count] of Object.entries(totals.errorsByReason) as [RejectionReason, number][]) {
+            incrementBy(importRejections, { reason, ...labels }, count - (last.errorsByReason[reason] ?? 0));
+        }
+        job.totals = totals;
+    }
+
+    finish(jobId: string, status: string): void {
+        const job = this.jobs.get(jobId);
+        if (job) {
+            importJobsFinished.inc({ status, dry_run: job.dryRun });
+            this.jobs.delete(jobId);
+        }
+    }
+}
+
+// Counters never go down; totals only grow, but a stale checkpoint must not throw
+function incrementBy<T extends string>(counter: Counter<T>, labels: Partial<Record<T, string>>, amount: number): void {
+    if (amount > 0) {
+        counter.inc(labels, amount);
+    }
+}
+
+export const importMetrics = new ImportMetrics();
@@ -0,0 +1,52 @@
+import { PauseGate } from './pauseGate';
+
+describe('PauseGate', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hold readers until resumed', async () => {
+    const gate = new PauseGate();
+    await expect(gate.whenResumed()).resolves.toBeUndefined();
+
+    expect(gate.pause()).toBe(true);
+    expect(gate.pause()).toBe(false);
+
+    let resumed = false;
+    const waiting = gate.whenResumed().then(() => { resumed = true; });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(resumed).toBe(false);
+
+    expect(gate.resume()).toBe(true);
+    await waiting;
+    expect(resumed).toBe(true);
+    expect(gate.resume()).toBe(false);
+  });
+
+  it('should release readers when the import is cancelled', async () => {
+    const gate = new PauseGate();
+    const cancellation = new AbortController();
+    gate.pause();
+
+    const waiting = gate.whenResumed(cancellation.signal);
+    cancellation.abort();
+
+    await expect(waiting).resolves.toBeUndefined();
+    expect(gate.paused).toBe(true);
+  });
+
+  it('should add up the time spent paused', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z') });
+    const gate = new PauseGate();
+
+    gate.pause();
+    jest.advanceTimersByTime(5000);
+    gate.resume();
+    jest.advanceTimersByTime(1000);
+    gate.pause();
+    jest.advanceTimersByTime(2000);
+
+    expect(gate.pausedSince).toEqual(new Date('2026-01-01T10:00:06Z'));
+    expect(gate.totalPausedMs()).toBe(7000);
+  });
+});
@@ -0,0 +1,73 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Pause switch for one import. Readers await whenResumed() between records;
+ * the concurrent processor listens for 'resume' to dispatch chunks again.
+ * Also keeps track of how long the import spent paused.
+ */
+export class PauseGate extends EventEmitter {
+    private pausedAt: Date | null = null;
+    private pausedMs: number = 0;
+    private resumed: Promise<void> = Promise.resolve();
+    private release: () => void = () => undefined;
+
+    get paused(): boolean {
+        return this.pausedAt !== null;
+    }
+
+    // Start of the current pause, null while running
+    get pausedSince(): Date | null {
+        return this.pausedAt;
+    }
+
+    // Returns false when already paused
+    pause(): boolean {
+        if (this.pausedAt) {
+            return false;
+        }
+
+        this.pausedAt = new Date();
+        this.resumed = new Promise(resolve => {
+            this.release = resolve;
+        });
+        this.emit('pause');
+        return true;
+    }
+
+    // Returns false when not paused
+    resume(): boolean {
+        if (!this.pausedAt) {
+            return false;
+        }
+
+        this.pausedMs += Date.now() - this.pausedAt.getTime();
+        this.pausedAt = null;
+        this.release();
+        this.emit('resume');
+        return true;
+    }
+
+    // Total time spent paused, including the current pause
+    totalPausedMs(now: number = Date.now()): number {
+        return this.pausedMs + (this.pausedAt ? now - this.pausedAt.getTime() : 0);
+    }
+
+    /**
+     * Resolves right away when not paused, otherwise on resume or as soon as
+     * the signal aborts (a paused import can still be cancelled).
+     */
+    async whenResumed(signal?: AbortSignal): Promise<void> {
+        if (!this.pausedAt || signal?.aborted) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            const done = () => {
+                signal?.removeEventListener('abort', done);
+                resolve();
+            };
+            signal?.addEventListener('abort', done);
+            this.resumed.then(done);
+        });
+    }
+}
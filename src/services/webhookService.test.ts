@@ -0,0 +1,205 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { InvalidWebhookError, signWebhookPayload, WebhookService } from './webhookService';
+import { Webhook } from '../entities/Webhook';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+
+// Minimal in-memory stand-in for a TypeORM repository
+const memoryRepository = () => {
+  const rows = new Map<string, any>();
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([key, value]: [string, any]) =>
+    value?.type === 'lessThanOrEqual' ? row[key] !== null && row[key] <= value.value : row[key] === value);
+  return {
+    rows,
+    create: (values: any) => ({ ...values }),
+    save: async (row: any) => {
+      row.id = row.id ?? `row-${rows.size + 1}`;
+      row.createdAt = row.createdAt ?? new Date();
+      rows.set(row.id, row);
+      return row;
+    },
+    find: async ({ where }: any = {}) => Array.from(rows.values()).filter(row => matches(row, where)),
+    findOne: async ({ where }: any) => Array.from(rows.values()).find(row => matches(row, where)) ?? null,
+    update: async (where: any, values: any) => {
+      const matched = Array.from(rows.values()).filter(row => matches(row, where));
+      matched.forEach(row => Object.assign(row, values));
+      return { affected: matched.length };
+    },
+    delete: async (id: string) => rows.delete(id)
+  };
+};
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Local receiver answering with the queued status codes, then 200
+const startReceiver = async (statusCodes: number[] = []) => {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      response.writeHead(statusCodes.shift() ?? 200).end('ok');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hooks/imports`, received, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const job: any = {
+  id: 'job-1',
+  fileName: 'CLIENTES_IN_0425.dat',
+  filePath: '/app/clients/CLIENTES_IN_0425.dat',
+  status: 'completed',
+  format: 'pipe',
+  duplicatePolicy: 'skip',
+  processed: 980,
+  inserted: 950,
+  updated: 30,
+  errors: 20,
+  errorsByReason: { INVALID_EMAIL: 15, TOO_FEW_FIELDS: 5 },
+  duplicates: 0,
+  totalLines: 1000,
+  errorMessage: null,
+  startedAt: new Date('2026-01-01T06:00:00Z'),
+  finishedAt: new Date('2026-01-01T06:02:30Z')
+};
+
+describe('WebhookService', () => {
+  let webhooks: ReturnType<typeof memoryRepository>;
+  let deliveries: ReturnType<typeof memoryRepository>;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    process.env.WEBHOOK_RETRY_BASE_MS = '10';
+    webhooks = memoryRepository();
+    deliveries = memoryRepository();
+    const databaseService: any = {
+      getRepository: (entity: unknown) => (entity === Webhook ? webhooks : entity === WebhookDelivery ? deliveries : null)
+    };
+    service = new WebhookService(databaseService);
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_RETRY_BASE_MS;
+  });
+
+  it('should POST a signed summary of the import', async () => {
+    const receiver = await startReceiver();
+    try {
+      const webhook = await service.createWebhook({ url: receiver.url, secret: 'a-shared-secret-value' });
+      await service.notifyImportFinished(job);
+
+      expect(receiver.received).toHaveLength(1);
+      const { headers, body } = receiver.received[0];
+      const [, timestamp, signature] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(headers['x-webhook-signature'] as string) ?? [];
+      expect(signature).toBe(signWebhookPayload('a-shared-secret-value', Number(timestamp), body));
+      expect(headers['x-webhook-event']).toBe('import.completed');
+
+      expect(JSON.parse(body)).toEqual({
+        event: 'import.completed',
+        import: expect.objectContaining({
+          id: 'job-1',
+          processed: 980,
+          inserted: 950,
+          updated: 30,
+          errors: 20,
+          errorsByReason: { INVALID_EMAIL: 15, TOO_FEW_FIELDS: 5 },
+          totalLines: 1000,
+          filePath: '/app/clients/CLIENTES_IN_0425.dat',
+          format: 'pipe',
+          durationMs: 150000
+        })
+      });
+
+      const [delivery] = await service.getDeliveries(webhook.id);
+      expect(delivery).toEqual(expect.objectContaining({ status: 'delivered', attempts: 1, lastStatusCode: 200, lastError: null }));
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should retry failed deliveries and record each attempt', async () => {
+    const receiver = await startReceiver([500, 503]);
+    try {
+      const webhook = await service.createWebhook({ url: receiver.url });
+      await service.notifyImportFinished(job);
+
+      const [delivery] = await service.getDeliveries(webhook.id);
+      expect(delivery).toEqual(expect.objectContaining({ status: 'pending', attempts: 1, lastStatusCode: 500, lastError: 'HTTP 500: ok' }));
+      expect(delivery.nextAttemptAt).toBeInstanceOf(Date);
+
+      await waitFor(() => delivery.status !== 'pending');
+      expect(delivery).toEqual(expect.objectContaining({ status: 'delivered', attempts: 3, lastStatusCode: 200 }));
+      expect(new Set(receiver.received.map(request => request.headers['x-webhook-delivery']))).toEqual(new Set([delivery.id]));
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should give up after the last attempt', async () => {
+    const receiver = await startReceiver(Array(6).fill(500));
+    try {
+      const webhook = await service.createWebhook({ url: receiver.url });
+      await service.notifyImportFinished(job);
+
+      const [delivery] = await service.getDeliveries(webhook.id);
+      await waitFor(() => delivery.status !== 'pending');
+      expect(delivery).toEqual(expect.objectContaining({ status: 'failed', attempts: 6, nextAttemptAt: null }));
+      expect(receiver.received).toHaveLength(6);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should send a pending delivery once when several replicas retry it', async () => {
+    const receiver = await startReceiver();
+    try {
+      const webhook = await service.createWebhook({ url: receiver.url });
+      const delivery = await deliveries.save({
+        webhookId: webhook.id, importJobId: 'job-1', event: 'import.completed', payload: '{}',
+        status: 'pending', attempts: 2, nextAttemptAt: new Date()
+      });
+      const otherReplica = new WebhookService({ getRepository: (entity: unknown) => (entity === Webhook ? webhooks : deliveries) } as any);
+
+      expect(await service.retryPendingDeliveries()).toBe(1);
+      expect(await otherReplica.retryPendingDeliveries()).toBe(1);
+      await waitFor(() => delivery.status !== 'pending');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(receiver.received).toHaveLength(1);
+      expect(delivery).toEqual(expect.objectContaining({ status: 'delivered', attempts: 3 }));
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should only notify webhooks subscribed to the event', async () => {
+    const receiver = await startReceiver();
+    try {
+      await service.createWebhook({ url: receiver.url, events: ['import.failed'] });
+      await service.notifyImportFinished(job);
+      await service.notifyImportFinished({ ...job, status: 'running' });
+      expect(receiver.received).toHaveLength(0);
+
+      await service.notifyImportFinished({ ...job, status: 'failed', errorMessage: 'Duplicate customerId 001001 at line 3' });
+      expect(JSON.parse(receiver.received[0].body).import).toHaveProperty('errorMessage', 'Duplicate customerId 001001 at line 3');
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should reject URLs that are not http(s)', async () => {
+    await expect(service.createWebhook({ url: 'ftp://example.com/hook' })).rejects.toBeInstanceOf(InvalidWebhookError);
+  });
+});
@@ -0,0 +1,280 @@
+import { Webhook, WEBHOOK_EVENTS, WebhookEvent } from "../entities/Webhook";
+import { WebhookDelivery } from "../entities/WebhookDelivery";
+import { ImportJob } from "../entities/ImportJob";
+import { CreateWebhookOptions, IDatabaseService, IWebhookService } from "../interfaces/services";
+import { TYPES } from "../types/inversify";
+import { inject, injectable } from "inversify";
+import { LessThanOrEqual, Repository } from "typeorm";
+import { createHmac, randomBytes } from 'crypto';
+
+export class WebhookNotFoundError extends Error {
+    constructor(id: string) {
+        super(`Webhook ${id} not found`);
+        this.name = 'WebhookNotFoundError';
+    }
+}
+
+export class InvalidWebhookError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidWebhookError';
+    }
+}
+
+/**
+ * Signature sent in X-Webhook-Signature as `t=<timestamp>,v1=<signature>`:
+ * hex HMAC-SHA256 of `<timestamp>.<body>` with the webhook secret. Receivers
+ * recompute it and reject stale timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Body of an import notification: the ImportResult fields plus the job's
+ * identity, timing and error message.
+ */
+export function buildImportPayload(event: WebhookEvent, job: ImportJob) {
+    const durationMs = job.startedAt && job.finishedAt ? job.finishedAt.getTime() - job.startedAt.getTime() : null;
+
+    return {
+        event,
+        import: {
+            id: job.id,
+            fileName: job.fileName,
+            filePath: job.filePath,
+            status: job.status,
+            format: job.format,
+            duplicatePolicy: job.duplicatePolicy,
+            processed: job.processed,
+            inserted: job.inserted,
+            updated: job.updated,
+            errors: job.errors,
+            errorsByReason: job.errorsByReason ?? {},
+            duplicates: job.duplicates,
+            totalLines: job.totalLines,
+            errorMessage: job.errorMessage,
+            startedAt: job.startedAt,
+            finishedAt: job.finishedAt,
+            durationMs
+        }
+    };
+}
+
+@injectable()
+export class WebhookService implements IWebhookService {
+    private webhookRepository: Repository<Webhook>;
+    private deliveryRepository: Repository<WebhookDelivery>;
+    private readonly MAX_ATTEMPTS = 6;
+    // Delay before the first retry, doubled on each one (10s, 20s, 40s, 80s, 160s by default)
+    private readonly RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '10000');
+    private readonly TIMEOUT_MS = 10000;
+    // How long a claimed attempt is left alone before a restarted replica may retry it
+    private readonly CLAIM_MS = 2 * this.TIMEOUT_MS;
+
+    constructor(
+        @inject(TYPES.DatabaseService) private databaseService: IDatabaseService
+    ) {
+        this.webhookRepository = this.databaseService.getRepository(Webhook);
+        this.deliveryRepository = this.databaseService.getRepository(WebhookDelivery);
+    }
+
+    async createWebhook(options: CreateWebhookOptions): Promise<Webhook> {
+        let url: URL;
+        try {
+            url = new URL(options.url);
+        } catch {
+            throw new InvalidWebhookError(`Invalid webhook URL: ${options.url}`);
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new InvalidWebhookError(`Webhook URL must use http or https: ${options.url}`);
+        }
+
+        return this.webhookRepository.save(
+            this.webhookRepository.create({
+                url: options.url,
+                secret: options.secret ?? randomBytes(32).toString('hex'),
+                events: options.events ?? WEBHOOK_EVENTS,
+                description: options.description ?? null,
+                active: true
+            })
+        );
+    }
+
+    async listWebhooks(): Promise<Webhook[]> {
+        return this.webhookRepository.find({ order: { createdAt: 'DESC' } });
+    }
+
+    async deleteWebhook(id: string): Promise<void> {
+        const webhook = await this.webhookRepository.findOne({ where: { id } });
+        if (!webhook) {
+            throw new WebhookNotFoundError(id);
+        }
+        // Deliveries stay for the record; pending ones fail on their next attempt
+        await this.webhookRepository.delete(id);
+    }
+
+    async getDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+        const webhook = await this.webhookRepository.findOne({ where: { id: webhookId } });
+        if (!webhook) {
+            throw new WebhookNotFoundError(webhookId);
+        }
+
+        return this.deliveryRepository.find({
+            where: { webhookId },
+            order: { createdAt: 'DESC' },
+            take: limit
+        });
+    }
+
+    /**
+     * Notify every active webhook subscribed to the job's final status.
+     * Resolves after the first attempt of each delivery; failed ones are
+     * retried in the background with exponential backoff.
+     */
+    async notifyImportFinished(job: ImportJob): Promise<void> {
+        const event = `import.${job.status}` as WebhookEvent;
+        if (!WEBHOOK_EVENTS.includes(event)) {
+            return;
+        }
+
+        const webhooks = (await this.webhookRepository.find({ where: { active: true } }))
+            .filter(webhook => webhook.events.includes(event));
+        if (webhooks.length === 0) {
+            return;
+        }
+
+        const payload = JSON.stringify(buildImportPayload(event, job));
+        await Promise.all(webhooks.map(async webhook => {
+            const delivery = await this.deliveryRepository.save(
+                this.deliveryRepository.create({
+                    webhookId: webhook.id,
+                    importJobId: job.id,
+                    event,
+                    payload,
+                    status: 'pending',
+                    attempts: 0,
+                    nextAttemptAt: new Date()
+                })
+            );
+            await this.attemptDelivery(delivery, webhook);
+        }));
+    }
+
+    /**
+     * Reschedule deliveries still pending when the process stopped.
+     */
+    async retryPendingDeliveries(): Promise<number> {
+        const pending = await this.deliveryRepository.find({ where: { status: 'pending' } });
+        for (const delivery of pending) {
+            this.scheduleRetry(delivery.id, (delivery.nextAttemptAt?.getTime() ?? 0) - Date.now());
+        }
+        return pending.length;
+    }
+
+    private async attemptDelivery(delivery: WebhookDelivery, webhook: Webhook | null): Promise<void> {
+        if (!await this.claimAttempt(delivery)) {
+            return; // Another replica took this attempt
+        }
+        delivery.nextAttemptAt = null;
+
+        let delivered = false;
+        if (!webhook) {
+            delivery.lastError = 'Webhook was deleted';
+            delivery.status = 'failed';
+        } else {
+            try {
+                const response = await this.send(webhook, delivery);
+                const body = await response.text().catch(() => '');
+                delivery.lastStatusCode = response.status;
+                delivered = response.ok;
+                delivery.lastError = delivered ? null : `HTTP ${response.status}${body ? `: ${body.slice(0, 255)}` : ''}`;
+            } catch (error) {
+                delivery.lastStatusCode = null;
+                delivery.lastError = error instanceof Error ? error.message : String(error);
+            }
+
+            if (delivered) {
+                delivery.status = 'delivered';
+                delivery.deliveredAt = new Date();
+            } else if (delivery.attempts >= this.MAX_ATTEMPTS) {
+                delivery.status = 'failed';
+                console.error(`❌ Webhook delivery ${delivery.id} to ${webhook.url} failed after ${delivery.attempts} attempts: ${delivery.lastError}`);
+            } else {
+                const delay = this.RETRY_BASE_MS * 2 ** (delivery.attempts - 1);
+                delivery.nextAttemptAt = new Date(Date.now() + delay);
+                console.log(`⚠️  Webhook delivery ${delivery.id} to ${webhook.url} failed (${delivery.lastError}), retrying in ${delay / 1000}s`);
+            }
+        }
+
+        try {
+            await this.deliveryRepository.save(delivery);
+        } catch (error) {
+            console.error(`Error saving webhook delivery ${delivery.id}:`, error);
+        }
+
+        if (delivery.status === 'pending' && delivery.nextAttemptAt) {
+            this.scheduleRetry(delivery.id, delivery.nextAttemptAt.getTime() - Date.now());
+        }
+    }
+
+    /**
+     * Take the next attempt of a delivery that is due, so that replicas
+     * retrying the same pending deliveries send each attempt once. The claim
+     * moves nextAttemptAt past the attempt's timeout: a replica loading the
+     * delivery meanwhile finds it not due, and one restarting reschedules it
+     * after that.
+     */
+    private async claimAttempt(delivery: WebhookDelivery): Promise<boolean> {
+        const attempts = delivery.attempts + 1;
+        const lastAttemptAt = new Date();
+        const claim = await this.deliveryRepository.update(
+            { id: delivery.id, status: 'pending', attempts: delivery.attempts, nextAttemptAt: LessThanOrEqual(lastAttemptAt) },
+            { attempts, lastAttemptAt, nextAttemptAt: new Date(lastAttemptAt.getTime() + this.CLAIM_MS) }
+        );
+        if (!claim.affected) {
+            return false;
+        }
+        delivery.attempts = attempts;
+        delivery.lastAttemptAt = lastAttemptAt;
+        return true;
+    }
+
+    private send(webhook: Webhook, delivery: WebhookDelivery): Promise<Response> {
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        return fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Webhook-Event': delivery.event,
+                'X-Webhook-Delivery': delivery.id,
+                'X-Webhook-Signature': `t=${timestamp},v1=${signWebhookPayload(webhook.secret, timestamp, delivery.payload)}`
+            },
+            body: delivery.payload,
+            signal: AbortSignal.timeout(this.TIMEOUT_MS)
+        });
+    }
+
+    // Retries reload the delivery, so a restart in between loses nothing
+    private scheduleRetry(deliveryId: string, delayMs: number): void {
+        setTimeout(async () => {
+            try {
+                const delivery = await this.deliveryRepository.findOne({ where: { id: deliveryId } });
+                if (!delivery || delivery.status !== 'pending') {
+                    return;
+                }
+                // Timers may fire a little early, and another replica may have claimed or rescheduled it
+                const due = delivery.nextAttemptAt?.getTime() ?? 0;
+                if (due > Date.now()) {
+                    this.scheduleRetry(deliveryId, due - Date.now());
+                    return;
+                }
+                const webhook = await this.webhookRepository.findOne({ where: { id: delivery.webhookId } });
+                await this.attemptDelivery(delivery, webhook);
+            } catch (error) {
+                console.error(`Error retrying webhook delivery ${deliveryId}:`, error);
+            }
+        }, Math.max(delayMs, 0)).unref();
+    }
+}
@@ -4,6 +4,12 @@ export const TYPES = {
   ProductService: Symbol.for('ProductService'),
   OrderService: Symbol.for('OrderService'),
   CustomerService: Symbol.for('CustomerService'),
+  ImportJobService: Symbol.for('ImportJobService'),
+  ImportEventBus: Symbol.for('ImportEventBus'),
+  WebhookService: Symbol.for('WebhookService'),
+  InboxWatcher: Symbol.for('InboxWatcher'),
+  ImportScheduler: Symbol.for('ImportScheduler'),
+  HealthService: Symbol.for('HealthService'),
   // Repositories
   UserRepository: Symbol.for('UserRepository'),
   ProductRepository: Symbol.for('ProductRepository'),